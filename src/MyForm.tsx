@@ -3,7 +3,7 @@
  * 
  * Demonstrates all features of the schema-driven form engine:
  * - Multiple sections with descriptions
- * - All field types (text, number, select, checkbox, textarea)
+ * - All field types (text, number, select, checkbox, textarea, file)
  * - Conditional fields (showWhen with AND/OR conditions)
  * - Comprehensive validation rules
  * - Dependent dropdowns
@@ -11,8 +11,12 @@
  */
 
 import { FormRenderer } from '@/components/form';
+import { registerUploadAdapter, createMemoryUploadAdapter } from '@/uploads';
 import type { FormSchema, FormValues } from '@/schema/types';
 
+// Demo storage for resumes; swap in an adapter for your storage backend
+registerUploadAdapter('resumes', createMemoryUploadAdapter({ delayMs: 1500 }));
+
 const jobApplicationSchema: FormSchema = {
   id: 'job-application-form',
   version: '2.0',
@@ -510,6 +514,17 @@ const jobApplicationSchema: FormSchema = {
             { type: 'required', message: 'Please enter the referrer\'s name' }
           ]
         },
+        {
+          id: 'resume',
+          type: 'file',
+          label: 'Resume / CV',
+          accept: '.pdf,.doc,.docx',
+          maxSizeBytes: 5 * 1024 * 1024,
+          adapter: 'resumes',
+          validation: [
+            { type: 'required', message: 'Please upload your resume' }
+          ]
+        },
         {
           id: 'coverLetter',
           type: 'textarea',
@@ -587,7 +602,7 @@ function MyForm() {
           </p>
           <ul className="mt-2 space-y-1">
             <li>✅ Multiple sections with descriptions</li>
-            <li>✅ All field types (text, number, select, checkbox, textarea)</li>
+            <li>✅ All field types (text, number, select, checkbox, textarea, file)</li>
             <li>✅ Conditional fields with AND/OR logic</li>
             <li>✅ Comprehensive validation rules</li>
             <li>✅ Dynamic field visibility</li>
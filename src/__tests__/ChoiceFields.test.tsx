@@ -0,0 +1,144 @@
+/**
+ * CHOICE FIELD TESTS
+ *
+ * Tests radio and checkbox group fields:
+ * - Fieldset/legend grouping and arrow-key navigation
+ * - string[] values for checkbox groups
+ * - Group-level required, minSelected and maxSelected validation
+ * - Async options mapped with responsePath/labelKey/valueKey
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { FormRenderer } from '@/components/form';
+import { validateFieldSync } from '@/validation/pipeline';
+import type { FormSchema } from '@/schema/types';
+
+const choiceSchema: FormSchema = {
+  id: 'choices',
+  title: 'Choices',
+  sections: [
+    {
+      id: 'main',
+      fields: [
+        {
+          id: 'plan',
+          type: 'radio',
+          label: 'Plan',
+          options: [
+            { value: 'free', label: 'Free' },
+            { value: 'team', label: 'Team', disabled: true },
+            { value: 'pro', label: 'Pro' },
+          ],
+          validation: [{ type: 'required', message: 'Choose a plan' }],
+        },
+        {
+          id: 'interests',
+          type: 'checkboxGroup',
+          label: 'Interests',
+          options: [
+            { value: 'news', label: 'News' },
+            { value: 'events', label: 'Events' },
+            { value: 'offers', label: 'Offers' },
+          ],
+          validation: [
+            { type: 'required', message: 'Pick at least one' },
+            { type: 'maxSelected', value: 2 },
+          ],
+        },
+      ],
+    },
+  ],
+};
+
+describe('Choice Fields', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should group options and select radios with arrow keys', async () => {
+    const user = userEvent.setup();
+
+    render(<FormRenderer schema={choiceSchema} onSubmit={vi.fn()} />);
+
+    const plan = screen.getByRole('radiogroup', { name: 'Plan' });
+    expect(plan.tagName).toBe('FIELDSET');
+    expect(screen.getByRole('group', { name: 'Interests' })).toBeInTheDocument();
+
+    await user.click(screen.getByLabelText('Free'));
+    await user.keyboard('{ArrowDown}');
+    // The disabled option is skipped
+    expect(screen.getByLabelText('Pro')).toHaveFocus();
+    expect(screen.getByLabelText('Pro')).toBeChecked();
+
+    await user.click(screen.getByLabelText('News'));
+    await user.keyboard('{ArrowUp}');
+    expect(screen.getByLabelText('Offers')).toHaveFocus();
+    expect(screen.getByLabelText('Offers')).not.toBeChecked();
+  });
+
+  it('should validate the group and submit checked values as an array', async () => {
+    const onSubmit = vi.fn();
+    const user = userEvent.setup();
+
+    render(<FormRenderer schema={choiceSchema} onSubmit={onSubmit} />);
+
+    await user.click(screen.getByRole('button', { name: /submit/i }));
+    expect(screen.getByText('Choose a plan')).toBeInTheDocument();
+    expect(screen.getByText('Pick at least one')).toBeInTheDocument();
+    expect(screen.getByRole('radiogroup', { name: 'Plan' })).toHaveFocus();
+
+    await user.click(screen.getByLabelText('Pro'));
+    for (const label of ['News', 'Events', 'Offers']) {
+      await user.click(screen.getByLabelText(label));
+    }
+    expect(screen.getByText('Select no more than 2 options')).toBeInTheDocument();
+
+    await user.click(screen.getByLabelText('News'));
+    await user.click(screen.getByRole('button', { name: /submit/i }));
+
+    await waitFor(() => {
+      expect(onSubmit).toHaveBeenCalledWith({ plan: 'pro', interests: ['events', 'offers'] });
+    });
+  });
+
+  it('should treat an empty selection as missing', () => {
+    expect(validateFieldSync('interests', [], [{ type: 'required' }], {}).errors)
+      .toEqual(['This field is required']);
+    // Empty selections are left to `required`
+    expect(validateFieldSync('interests', [], [{ type: 'minSelected', value: 2 }], {}).errors).toEqual([]);
+    expect(validateFieldSync('interests', ['news'], [{ type: 'minSelected', value: 2 }], {}).errors)
+      .toEqual(['Select at least 2 options']);
+  });
+
+  it('should load async options through the schema mapping', async () => {
+    const fetchMock = vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({ data: { sizes: [{ code: 's', name: 'Small' }, { code: 'l', name: 'Large' }] } }),
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    render(
+      <FormRenderer
+        schema={{
+          id: 'async',
+          title: 'Async',
+          sections: [{
+            id: 'main',
+            fields: [{
+              id: 'size',
+              type: 'radio',
+              label: 'Size',
+              asyncOptions: { url: '/api/sizes', responsePath: 'data.sizes', valueKey: 'code', labelKey: 'name' },
+            }],
+          }],
+        }}
+        onSubmit={vi.fn()}
+      />
+    );
+
+    expect(await screen.findByLabelText('Large')).toHaveAttribute('value', 'l');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * COMBOBOX TESTS
+ *
+ * Tests the combobox field type:
+ * - Local filtering with highlighted matches
+ * - Keyboard selection (ARIA 1.2 combobox pattern)
+ * - "No results" and free text
+ * - Debounced server search via asyncOptions.searchParam
+ * - Initial values with server search show the raw value (no label lookup)
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { FormRenderer } from '@/components/form';
+import type { ComboboxFieldSchema, FormSchema } from '@/schema/types';
+
+const fruitSchema = (overrides: Partial<ComboboxFieldSchema> = {}): FormSchema => ({
+  id: 'fruit',
+  title: 'Fruit',
+  sections: [
+    {
+      id: 'main',
+      fields: [
+        {
+          id: 'fruit',
+          type: 'combobox',
+          label: 'Fruit',
+          options: [
+            { value: 'apple', label: 'Apple' },
+            { value: 'banana', label: 'Banana' },
+            { value: 'grape', label: 'Grape' },
+            { value: 'pineapple', label: 'Pineapple' },
+          ],
+          ...overrides,
+        },
+      ],
+    },
+  ],
+});
+
+const optionLabels = () => screen.queryAllByRole('option').map(option => option.textContent);
+
+describe('Combobox', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should filter options and highlight the match', async () => {
+    const user = userEvent.setup();
+
+    render(<FormRenderer schema={fruitSchema()} onSubmit={vi.fn()} />);
+
+    const input = screen.getByRole('combobox', { name: 'Fruit' });
+    expect(input).toHaveAttribute('aria-expanded', 'false');
+
+    await user.type(input, 'APP');
+    expect(input).toHaveAttribute('aria-expanded', 'true');
+    expect(optionLabels()).toEqual(['Apple', 'Pineapple']);
+
+    const marks = screen.getByRole('listbox', { name: 'Fruit' }).querySelectorAll('mark');
+    expect(Array.from(marks).map(mark => mark.textContent)).toEqual(['App', 'app']);
+  });
+
+  it('should select an option with the keyboard', async () => {
+    const onSubmit = vi.fn();
+    const user = userEvent.setup();
+
+    render(<FormRenderer schema={fruitSchema()} onSubmit={onSubmit} />);
+
+    const input = screen.getByRole('combobox', { name: 'Fruit' });
+    await user.click(input);
+    await user.keyboard('{ArrowDown}{ArrowDown}');
+
+    const banana = screen.getByRole('option', { name: 'Banana' });
+    expect(input).toHaveAttribute('aria-activedescendant', banana.id);
+
+    // Enter picks the option instead of submitting the form
+    await user.keyboard('{Enter}');
+    expect(input).toHaveValue('Banana');
+    expect(input).toHaveAttribute('aria-expanded', 'false');
+    expect(onSubmit).not.toHaveBeenCalled();
+
+    // Escape on a closed list clears the input; leaving it empty clears the value
+    await user.keyboard('{Escape}');
+    expect(input).toHaveValue('');
+    await user.type(input, 'gr');
+    await user.click(screen.getByRole('option', { name: 'Grape' }));
+    await user.click(screen.getByRole('button', { name: /submit/i }));
+
+    await waitFor(() => {
+      expect(onSubmit).toHaveBeenCalledWith({ fruit: 'grape' });
+    });
+  });
+
+  it('should show no results and discard unmatched text', async () => {
+    const user = userEvent.setup();
+
+    render(<FormRenderer schema={fruitSchema({ noResultsText: 'No fruit found' })} onSubmit={vi.fn()} />);
+
+    const input = screen.getByRole('combobox', { name: 'Fruit' });
+    await user.type(input, 'kiwi');
+    expect(screen.getByRole('status')).toHaveTextContent('No fruit found');
+    expect(optionLabels()).toEqual([]);
+
+    await user.tab();
+    expect(input).toHaveValue('');
+  });
+
+  it('should accept free text when allowed', async () => {
+    const onSubmit = vi.fn();
+    const user = userEvent.setup();
+
+    render(<FormRenderer schema={fruitSchema({ allowFreeText: true })} onSubmit={onSubmit} />);
+
+    const input = screen.getByRole('combobox', { name: 'Fruit' });
+    await user.type(input, 'Kiwi{Enter}');
+    await user.tab();
+    expect(input).toHaveValue('Kiwi');
+
+    await user.click(screen.getByRole('button', { name: /submit/i }));
+
+    await waitFor(() => {
+      expect(onSubmit).toHaveBeenCalledWith({ fruit: 'Kiwi' });
+    });
+  });
+
+  it('should search the server once typing pauses', async () => {
+    const fetchMock = vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => [{ id: 'p1', name: 'Laptop stand' }, { id: 'p2', name: 'Laptop sleeve' }],
+    });
+    vi.stubGlobal('fetch', fetchMock);
+    const user = userEvent.setup();
+
+    render(
+      <FormRenderer
+        schema={fruitSchema({
+          id: 'product',
+          label: 'Product',
+          options: undefined,
+          asyncOptions: { url: '/api/products', searchParam: 'q', debounceMs: 50, labelKey: 'name', valueKey: 'id' },
+        })}
+        onSubmit={vi.fn()}
+      />
+    );
+
+    // Nothing is fetched for a blank search
+    expect(fetchMock).not.toHaveBeenCalled();
+
+    // Loading, not "no results", while the search waits for typing to pause
+    await user.type(screen.getByRole('combobox', { name: 'Product' }), 'l');
+    expect(screen.getByRole('status')).toHaveTextContent('Loading...');
+    await user.type(screen.getByRole('combobox', { name: 'Product' }), 'ap');
+
+    await waitFor(() => {
+      expect(optionLabels()).toEqual(['Laptop stand', 'Laptop sleeve']);
+    });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock.mock.calls[0]?.[0]).toBe('/api/products?q=lap');
+
+    await user.click(screen.getByRole('option', { name: 'Laptop sleeve' }));
+    expect(screen.getByRole('combobox', { name: 'Product' })).toHaveValue('Laptop sleeve');
+  });
+
+  it('should show an initial value as is when options come from server search', () => {
+    const fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+
+    render(
+      <FormRenderer
+        schema={fruitSchema({
+          id: 'product',
+          label: 'Product',
+          options: undefined,
+          asyncOptions: { url: '/api/products', searchParam: 'q' },
+        })}
+        initialValues={{ product: 'p2' }}
+        onSubmit={vi.fn()}
+      />
+    );
+
+    // Labels only come from search results, so there is nothing to show but the ID
+    expect(screen.getByRole('combobox', { name: 'Product' })).toHaveValue('p2');
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
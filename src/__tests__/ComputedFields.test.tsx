@@ -0,0 +1,188 @@
+/**
+ * COMPUTED FIELDS UNIT TESTS
+ *
+ * Tests the expression language and the engine that applies it:
+ * - Arithmetic, concat, conditionals and aggregates
+ * - Dependency-ordered evaluation, per-instance repeatable fields
+ * - Cycles are skipped at runtime and reported by the linter
+ * - Computed fields render read-only and update as inputs change
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { FormRenderer } from '@/components/form';
+import { evaluateExpression } from '@/schema/expressions';
+import { lintFormSchema } from '@/schema/linter';
+import { createComputedPlan, applyComputedValues } from '@/state/computed';
+import { createInitialState, formReducer } from '@/state/reducer';
+import { formActions } from '@/state/actions';
+import type { FormSchema } from '@/schema/types';
+
+describe('evaluateExpression', () => {
+  it('should evaluate arithmetic, concat and conditionals', () => {
+    const values = { quantity: 3, price: '2.5', first: 'Ada', last: 'Lovelace', vip: true };
+
+    expect(evaluateExpression(
+      { op: 'multiply', args: [{ ref: 'quantity' }, { ref: 'price' }] },
+      { values }
+    )).toBe(7.5);
+    expect(evaluateExpression(
+      { op: 'concat', args: [{ ref: 'first' }, ' ', { ref: 'last' }] },
+      { values }
+    )).toBe('Ada Lovelace');
+    expect(evaluateExpression(
+      { if: { field: 'vip', operator: 'equals', value: true }, then: 0, else: 5 },
+      { values }
+    )).toBe(0);
+    expect(evaluateExpression({ op: 'divide', args: [1, 0] }, { values })).toBeNull();
+    expect(evaluateExpression({ op: 'add', args: [{ ref: 'missing' }, 'abc'] }, { values })).toBeNull();
+  });
+
+  it('should aggregate over repeatable section instances', () => {
+    const context = {
+      values: {},
+      instances: { items: [{ qty: 2, price: 10 }, { qty: 1, price: 5 }, { qty: '', price: '' }] },
+    };
+    const lineTotal = { op: 'multiply' as const, args: [{ ref: 'qty' }, { ref: 'price' }] };
+
+    expect(evaluateExpression({ aggregate: 'sum', section: 'items', expression: lineTotal }, context)).toBe(25);
+    expect(evaluateExpression({ aggregate: 'max', section: 'items', expression: { ref: 'price' } }, context)).toBe(10);
+    expect(evaluateExpression({ aggregate: 'count', section: 'items' }, context)).toBe(3);
+  });
+});
+
+describe('Computed field engine', () => {
+  const orderSchema: FormSchema = {
+    id: 'computed-test',
+    title: 'Order',
+    sections: [
+      {
+        id: 'items',
+        repeatable: true,
+        fields: [
+          { id: 'qty', type: 'number', label: 'Qty' },
+          { id: 'price', type: 'number', label: 'Price' },
+          {
+            id: 'lineTotal',
+            type: 'number',
+            label: 'Line total',
+            computed: { op: 'multiply', args: [{ ref: 'qty' }, { ref: 'price' }] },
+          },
+        ],
+      },
+      {
+        id: 'summary',
+        fields: [
+          // Declared before its dependency: evaluation order must not matter
+          {
+            id: 'grandTotal',
+            type: 'number',
+            label: 'Grand total',
+            computed: { op: 'add', args: [{ ref: 'subtotal' }, { ref: 'shipping' }] },
+          },
+          {
+            id: 'subtotal',
+            type: 'number',
+            label: 'Subtotal',
+            computed: { aggregate: 'sum', section: 'items', expression: { ref: 'lineTotal' } },
+          },
+          { id: 'shipping', type: 'number', label: 'Shipping', defaultValue: 4 },
+        ],
+      },
+    ],
+  };
+
+  it('should evaluate per instance and in dependency order', () => {
+    const plan = createComputedPlan(orderSchema);
+    const reduce = (state: ReturnType<typeof createInitialState>, action: Parameters<typeof formReducer>[1]) =>
+      applyComputedValues(formReducer(state, action), plan);
+
+    let state = applyComputedValues(createInitialState({ shipping: 4 }), plan);
+    expect(state.values.grandTotal).toBe(4);
+
+    state = reduce(state, formActions.addSectionInstance('items'));
+    state = reduce(state, formActions.addSectionInstance('items'));
+    state = reduce(state, formActions.setFieldValue('items[0].qty', 2));
+    state = reduce(state, formActions.setFieldValue('items[0].price', 10));
+    state = reduce(state, formActions.setFieldValue('items[1].qty', 3));
+    state = reduce(state, formActions.setFieldValue('items[1].price', 1));
+
+    expect(state.values.items).toEqual([
+      { qty: 2, price: 10, lineTotal: 20 },
+      { qty: 3, price: 1, lineTotal: 3 },
+    ]);
+    expect(state.values.subtotal).toBe(23);
+    expect(state.values.grandTotal).toBe(27);
+
+    // Manual edits to a computed field are overwritten
+    state = reduce(state, formActions.setFieldValue('subtotal', 999));
+    expect(state.values.subtotal).toBe(23);
+
+    // Unrelated updates keep the same values object
+    const next = reduce(state, formActions.setFieldTouched('shipping', true));
+    expect(next.values).toBe(state.values);
+  });
+
+  it('should skip cyclic fields at runtime and report them when linting', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const cyclic: FormSchema = {
+      id: 'cyclic',
+      title: 'Cyclic',
+      sections: [
+        {
+          id: 'main',
+          fields: [
+            { id: 'a', type: 'number', label: 'A', computed: { op: 'add', args: [{ ref: 'b' }, 1] } },
+            { id: 'b', type: 'number', label: 'B', computed: { op: 'add', args: [{ ref: 'a' }, 1] } },
+            { id: 'c', type: 'number', label: 'C', computed: { ref: 'missing' } },
+          ],
+        },
+      ],
+    };
+
+    const plan = createComputedPlan(cyclic);
+    expect(plan.steps.map(step => step.field.id)).toEqual(['c']);
+    expect(warn).toHaveBeenCalledWith('Computed fields skipped due to dependency cycle:', ['a', 'b']);
+
+    expect(lintFormSchema(cyclic).map(d => `[${d.rule}] ${d.path}: ${d.message}`)).toEqual([
+      '[unknown-expression-field] sections[0].fields[2].computed: expression references unknown field "missing"',
+      '[computed-cycle] sections[0].fields[0].computed: computed value of "a" depends on itself: a -> b -> a',
+    ]);
+
+    warn.mockRestore();
+  });
+
+  it('should render computed fields read-only and keep them in sync', async () => {
+    const user = userEvent.setup();
+    const schema: FormSchema = {
+      id: 'name-test',
+      title: 'Name',
+      sections: [
+        {
+          id: 'main',
+          fields: [
+            { id: 'first', type: 'text', label: 'First name' },
+            { id: 'last', type: 'text', label: 'Last name' },
+            {
+              id: 'fullName',
+              type: 'text',
+              label: 'Full name',
+              computed: { op: 'concat', args: [{ ref: 'first' }, ' ', { ref: 'last' }] },
+            },
+          ],
+        },
+      ],
+    };
+
+    render(<FormRenderer schema={schema} onSubmit={vi.fn()} />);
+
+    const fullName = screen.getByLabelText('Full name');
+    expect(fullName).toHaveAttribute('readonly');
+
+    await user.type(screen.getByLabelText('First name'), 'Ada');
+    await user.type(screen.getByLabelText('Last name'), 'Lovelace');
+
+    expect(fullName).toHaveValue('Ada Lovelace');
+  });
+});
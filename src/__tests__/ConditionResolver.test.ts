@@ -0,0 +1,78 @@
+/**
+ * CONDITION RESOLVER UNIT TESTS
+ *
+ * Tests condition operators outside of FormRenderer:
+ * - Numeric strings from inputs compare as numbers
+ * - Ranges, regex, prefix/suffix, length and date operators
+ * - Multi-value fields (string[]) with contains/in/notIn
+ * - Comparing against another field with valueFrom
+ */
+
+import { describe, it, expect } from 'vitest';
+import { evaluateCondition, getConditionDependencies } from '@/schema/resolver';
+import type { SimpleCondition } from '@/schema/types';
+
+function check(
+  value: unknown,
+  operator: SimpleCondition['operator'],
+  compareValue?: unknown
+): boolean {
+  return evaluateCondition({ field: 'x', operator, value: compareValue }, { x: value as never });
+}
+
+describe('evaluateCondition', () => {
+  it('should coerce numeric strings for comparisons and equality', () => {
+    expect(check('12', 'greaterThan', 9)).toBe(true);
+    expect(check('12', 'lessThanOrEqual', '12')).toBe(true);
+    expect(check(5, 'greaterThanOrEqual', 6)).toBe(false);
+    expect(check('18', 'equals', 18)).toBe(true);
+    expect(check('18', 'in', [18, 21])).toBe(true);
+    // Empty values are never greater or less than anything
+    expect(check('', 'lessThan', 5)).toBe(false);
+    expect(check('', 'equals', 0)).toBe(false);
+  });
+
+  it('should evaluate range, text and length operators', () => {
+    expect(check('7', 'between', [1, 10])).toBe(true);
+    expect(check(11, 'between', [1, 10])).toBe(false);
+    expect(check('AB-1234', 'matches', '^[A-Z]{2}-\\d{4}$')).toBe(true);
+    expect(check('ab-1234', 'matches', '^[A-Z]{2}-\\d{4}$')).toBe(false);
+    expect(check('+44 20 7946', 'startsWith', '+44')).toBe(true);
+    expect(check('ada@example.com', 'endsWith', '@example.org')).toBe(false);
+    expect(check('secret', 'lengthGreaterThan', 5)).toBe(true);
+    expect(check(['a', 'b'], 'lengthLessThan', 2)).toBe(false);
+  });
+
+  it('should compare dates chronologically', () => {
+    expect(check('2024-03-01', 'dateBefore', '2024-03-05')).toBe(true);
+    expect(check('2024-03-01T10:00', 'dateAfter', '2024-03-01')).toBe(true);
+    expect(check('2024-03-09', 'between', ['2024-03-01', '2024-03-31'])).toBe(true);
+    expect(check('not a date', 'dateBefore', '2024-03-05')).toBe(false);
+  });
+
+  it('should match multi-value fields with contains, in and notIn', () => {
+    const languages = ['en', 'fr'];
+
+    expect(check(languages, 'contains', 'fr')).toBe(true);
+    expect(check(languages, 'contains', ['en', 'fr'])).toBe(true);
+    expect(check(languages, 'contains', ['en', 'de'])).toBe(false);
+    expect(check(languages, 'in', ['fr', 'de'])).toBe(true);
+    expect(check(languages, 'notIn', ['de', 'es'])).toBe(true);
+    expect(check(languages, 'notIn', ['fr'])).toBe(false);
+    expect(check([], 'in', ['en'])).toBe(false);
+    expect(check([1, 2], 'contains', '2')).toBe(true);
+  });
+
+  it('should compare against another field with valueFrom', () => {
+    const condition: SimpleCondition = { field: 'endDate', operator: 'dateAfter', valueFrom: 'startDate' };
+
+    expect(evaluateCondition(condition, { startDate: '2024-03-01', endDate: '2024-03-02' })).toBe(true);
+    expect(evaluateCondition(condition, { startDate: '2024-03-01', endDate: '2024-02-28' })).toBe(false);
+    expect(evaluateCondition(
+      { field: '$instance.quantity', operator: 'greaterThan', valueFrom: '$instance.stock' },
+      { items: [{ quantity: '5', stock: 3 }] },
+      'items[0]'
+    )).toBe(true);
+    expect(getConditionDependencies(condition)).toEqual(['endDate', 'startDate']);
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * DATE FIELD TESTS
+ *
+ * Tests date, time and datetime fields:
+ * - ISO parsing and formatting in local time
+ * - Relative bounds ('today+30d') resolved per field kind
+ * - minDate, maxDate and notWeekend rules
+ * - Native picker wiring and ISO values on submit
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { FormRenderer } from '@/components/form';
+import { validateFieldSync } from '@/validation/pipeline';
+import { formatISODate, parseISODate, resolveDateBound, isWeekend } from '@/utils/date';
+import type { FormSchema, ValidationRule } from '@/schema/types';
+
+describe('Date Utilities', () => {
+  // Friday 1 March 2024, 14:30 local time
+  const now = new Date(2024, 2, 1, 14, 30);
+
+  it('should parse and format ISO strings in local time', () => {
+    expect(parseISODate('2024-03-01')).toEqual(new Date(2024, 2, 1));
+    expect(parseISODate('2024-03-01T14:30')).toEqual(now);
+    expect(parseISODate('2024-02-30')).toBeNull();
+    expect(parseISODate('14:30')).toBeNull();
+    expect(formatISODate(now, 'datetime')).toBe('2024-03-01T14:30');
+    expect(isWeekend('2024-03-02')).toBe(true);
+    expect(isWeekend('2024-03-01T23:59')).toBe(false);
+  });
+
+  it('should resolve relative and absolute bounds for each kind', () => {
+    expect(resolveDateBound('today', 'date', now)).toBe('2024-03-01');
+    expect(resolveDateBound('today+30d', 'date', now)).toBe('2024-03-31');
+    expect(resolveDateBound('today-1y', 'datetime', now)).toBe('2023-03-01T00:00');
+    expect(resolveDateBound('now+2h', 'time', now)).toBe('16:30');
+    expect(resolveDateBound('today+1m', 'date', now)).toBe('2024-04-01');
+    expect(resolveDateBound('2024-03-01', 'datetime', now)).toBe('2024-03-01T00:00');
+    expect(resolveDateBound('09:00', 'date', now)).toBeNull();
+  });
+});
+
+describe('Date Rules', () => {
+  const errorsFor = (value: string, rule: ValidationRule) =>
+    validateFieldSync('field', value, [rule], {}).errors;
+
+  it('should compare values against bounds of the same kind', () => {
+    expect(errorsFor('2024-02-29', { type: 'minDate', value: '2024-03-01' })).toEqual(['Must be 2024-03-01 or later']);
+    expect(errorsFor('2024-03-01', { type: 'minDate', value: '2024-03-01' })).toEqual([]);
+    expect(errorsFor('18:15', { type: 'maxDate', value: '17:00' })).toEqual(['Must be 17:00 or earlier']);
+    expect(errorsFor('2024-03-01T09:00', { type: 'maxDate', value: '2024-03-01' }))
+      .toEqual(['Must be 2024-03-01T00:00 or earlier']);
+    expect(errorsFor('2024-03-03', { type: 'notWeekend' })).toEqual(['Please choose a weekday']);
+    // Empty values are left to `required`
+    expect(errorsFor('', { type: 'minDate', value: 'today' })).toEqual([]);
+  });
+});
+
+describe('Date Fields', () => {
+  const schema: FormSchema = {
+    id: 'booking',
+    title: 'Booking',
+    sections: [
+      {
+        id: 'main',
+        fields: [
+          {
+            id: 'visitDate',
+            type: 'date',
+            label: 'Visit date',
+            min: '2024-01-01',
+            max: 'today+1y',
+            validation: [{ type: 'required' }, { type: 'notWeekend' }],
+          },
+          { id: 'arrival', type: 'time', label: 'Arrival', step: 900 },
+          { id: 'reminder', type: 'datetime', label: 'Reminder' },
+        ],
+      },
+    ],
+  };
+
+  it('should render native pickers with resolved bounds', () => {
+    render(<FormRenderer schema={schema} onSubmit={vi.fn()} />);
+
+    const visitDate = screen.getByLabelText(/visit date/i);
+    expect(visitDate).toHaveAttribute('type', 'date');
+    expect(visitDate).toHaveAttribute('min', '2024-01-01');
+    expect(visitDate).toHaveAttribute('max', resolveDateBound('today+1y', 'date'));
+    expect(screen.getByLabelText('Arrival')).toHaveAttribute('type', 'time');
+    expect(screen.getByLabelText('Arrival')).toHaveAttribute('step', '900');
+    expect(screen.getByLabelText('Reminder')).toHaveAttribute('type', 'datetime-local');
+  });
+
+  it('should validate and submit ISO strings', async () => {
+    const onSubmit = vi.fn();
+    const user = userEvent.setup();
+
+    render(<FormRenderer schema={schema} onSubmit={onSubmit} />);
+
+    fireEvent.change(screen.getByLabelText(/visit date/i), { target: { value: '2024-03-02' } });
+    await user.click(screen.getByRole('button', { name: /submit/i }));
+    expect(screen.getByText('Please choose a weekday')).toBeInTheDocument();
+    expect(onSubmit).not.toHaveBeenCalled();
+
+    fireEvent.change(screen.getByLabelText(/visit date/i), { target: { value: '2024-03-04' } });
+    fireEvent.change(screen.getByLabelText('Arrival'), { target: { value: '09:45' } });
+    fireEvent.change(screen.getByLabelText('Reminder'), { target: { value: '2024-03-03T18:00' } });
+    await user.click(screen.getByRole('button', { name: /submit/i }));
+
+    await waitFor(() => {
+      expect(onSubmit).toHaveBeenCalledWith({
+        visitDate: '2024-03-04',
+        arrival: '09:45',
+        reminder: '2024-03-03T18:00',
+      });
+    });
+  });
+});
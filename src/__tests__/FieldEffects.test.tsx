@@ -0,0 +1,207 @@
+/**
+ * FIELD EFFECTS TESTS
+ *
+ * Tests the `effects` block end to end:
+ * - disableWhen and clearOnChange (dependent fields start over)
+ * - requireWhen (label marker and submit validation)
+ * - setValueWhen, readOnlyWhen and clearWhen keep values in state
+ * - hiddenValuePolicy: keep, clearOnHide and excludeOnSubmit
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { FormRenderer } from '@/components/form';
+import type { FormSchema } from '@/schema/types';
+
+const isBusiness = { field: 'accountType', operator: 'equals', value: 'business' } as const;
+
+const effectsSchema: FormSchema = {
+  id: 'effects',
+  title: 'Effects',
+  sections: [
+    {
+      id: 'main',
+      fields: [
+        {
+          id: 'country',
+          type: 'select',
+          label: 'Country',
+          options: [
+            { value: 'us', label: 'United States' },
+            { value: 'ca', label: 'Canada' },
+          ],
+        },
+        {
+          id: 'region',
+          type: 'text',
+          label: 'Region',
+          effects: {
+            disableWhen: { field: 'country', operator: 'isEmpty' },
+            clearOnChange: ['country'],
+          },
+        },
+        {
+          id: 'accountType',
+          type: 'select',
+          label: 'Account type',
+          defaultValue: 'personal',
+          options: [
+            { value: 'personal', label: 'Personal' },
+            { value: 'business', label: 'Business' },
+          ],
+        },
+        {
+          id: 'vatNumber',
+          type: 'text',
+          label: 'VAT number',
+          effects: {
+            requireWhen: isBusiness,
+            clearWhen: { not: isBusiness },
+          },
+        },
+        {
+          id: 'invoiceName',
+          type: 'text',
+          label: 'Invoice name',
+          effects: {
+            readOnlyWhen: { not: isBusiness },
+            setValueWhen: { when: { not: isBusiness }, value: 'Personal invoice' },
+          },
+        },
+      ],
+    },
+  ],
+};
+
+const vatLabel = () => document.querySelector('label[for="vatNumber"]');
+
+describe('Field Effects', () => {
+  it('should disable a field until its dependency is set and clear it when that changes', async () => {
+    const user = userEvent.setup();
+
+    render(<FormRenderer schema={effectsSchema} onSubmit={vi.fn()} />);
+
+    const region = screen.getByLabelText('Region') as HTMLInputElement;
+    expect(region).toBeDisabled();
+
+    await user.selectOptions(screen.getByLabelText('Country'), 'us');
+    expect(region).toBeEnabled();
+    await user.type(region, 'Texas');
+    expect(region.value).toBe('Texas');
+
+    await user.selectOptions(screen.getByLabelText('Country'), 'ca');
+    expect(region.value).toBe('');
+  });
+
+  it('should require a field only while its condition holds', async () => {
+    const onSubmit = vi.fn();
+    const user = userEvent.setup();
+
+    render(<FormRenderer schema={effectsSchema} onSubmit={onSubmit} />);
+
+    await user.selectOptions(screen.getByLabelText('Country'), 'us');
+    await user.selectOptions(screen.getByLabelText('Account type'), 'business');
+    expect(vatLabel()).toHaveTextContent('VAT number*');
+
+    await user.click(screen.getByRole('button', { name: /submit/i }));
+    expect(screen.getByText('This field is required')).toBeInTheDocument();
+    expect(onSubmit).not.toHaveBeenCalled();
+
+    await user.type(screen.getByLabelText(/VAT number/), 'GB123');
+    await user.selectOptions(screen.getByLabelText('Account type'), 'personal');
+    expect(vatLabel()).toHaveTextContent(/^VAT number$/);
+
+    await user.click(screen.getByRole('button', { name: /submit/i }));
+    await waitFor(() => expect(onSubmit).toHaveBeenCalled());
+  });
+
+  it('should keep set and cleared values in state', async () => {
+    const onSubmit = vi.fn();
+    const user = userEvent.setup();
+
+    render(<FormRenderer schema={effectsSchema} onSubmit={onSubmit} />);
+
+    const invoiceName = screen.getByLabelText('Invoice name') as HTMLInputElement;
+    expect(invoiceName.value).toBe('Personal invoice');
+    expect(invoiceName).toHaveAttribute('readonly');
+
+    await user.selectOptions(screen.getByLabelText('Account type'), 'business');
+    expect(invoiceName).not.toHaveAttribute('readonly');
+    await user.clear(invoiceName);
+    await user.type(invoiceName, 'Acme Ltd');
+    await user.type(screen.getByLabelText(/VAT number/), 'GB123');
+
+    await user.selectOptions(screen.getByLabelText('Account type'), 'personal');
+    await user.click(screen.getByRole('button', { name: /submit/i }));
+
+    await waitFor(() => {
+      expect(onSubmit).toHaveBeenCalledWith(expect.objectContaining({
+        accountType: 'personal',
+        invoiceName: 'Personal invoice',
+        vatNumber: undefined,
+      }));
+    });
+  });
+
+  describe('Hidden Values', () => {
+    const hiddenSchema = (
+      policy: FormSchema['hiddenValuePolicy'],
+      fieldPolicy?: FormSchema['hiddenValuePolicy']
+    ): FormSchema => ({
+      id: 'hidden',
+      title: 'Hidden',
+      hiddenValuePolicy: policy,
+      sections: [
+        {
+          id: 'main',
+          fields: [
+            {
+              id: 'accountType',
+              type: 'select',
+              label: 'Account type',
+              options: [
+                { value: 'personal', label: 'Personal' },
+                { value: 'business', label: 'Business' },
+              ],
+            },
+            { id: 'taxId', type: 'text', label: 'Tax ID', showWhen: isBusiness },
+            { id: 'companyName', type: 'text', label: 'Company', showWhen: isBusiness, hiddenValuePolicy: fieldPolicy },
+          ],
+        },
+      ],
+    });
+
+    async function fillAndHide(schema: FormSchema, onSubmit = vi.fn()) {
+      const user = userEvent.setup();
+      render(<FormRenderer schema={schema} onSubmit={onSubmit} />);
+
+      await user.selectOptions(screen.getByLabelText('Account type'), 'business');
+      await user.type(screen.getByLabelText('Tax ID'), 'GB123');
+      await user.type(screen.getByLabelText('Company'), 'Acme');
+      await user.selectOptions(screen.getByLabelText('Account type'), 'personal');
+      return user;
+    }
+
+    it('should leave hidden values out of submitted values but restore them when shown', async () => {
+      const onSubmit = vi.fn();
+      const user = await fillAndHide(hiddenSchema('excludeOnSubmit', 'keep'), onSubmit);
+      await user.click(screen.getByRole('button', { name: /submit/i }));
+
+      await waitFor(() => {
+        expect(onSubmit).toHaveBeenCalledWith({ accountType: 'personal', companyName: 'Acme' });
+      });
+
+      await user.selectOptions(screen.getByLabelText('Account type'), 'business');
+      expect(screen.getByLabelText('Tax ID')).toHaveValue('GB123');
+    });
+
+    it('should clear values as their field is hidden', async () => {
+      const user = await fillAndHide(hiddenSchema('keep', 'clearOnHide'));
+
+      await user.selectOptions(screen.getByLabelText('Account type'), 'business');
+      expect(screen.getByLabelText('Tax ID')).toHaveValue('GB123');
+      expect(screen.getByLabelText('Company')).toHaveValue('');
+    });
+  });
+});
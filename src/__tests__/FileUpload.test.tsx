@@ -0,0 +1,184 @@
+/**
+ * FILE UPLOAD TESTS
+ *
+ * Tests file fields and upload adapters:
+ * - Uploaded file references (not File objects) as the value
+ * - accept/maxSizeBytes/maxFiles checks, including dropped files
+ * - Progress, cancel and retry
+ * - Submit blocked while uploads are in progress
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { render, screen, waitFor, fireEvent, act } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { FormRenderer } from '@/components/form';
+import { registerUploadAdapter, createMemoryUploadAdapter, type UploadAdapter, type UploadOptions } from '@/uploads';
+import type { FileFieldSchema, FormSchema } from '@/schema/types';
+
+const resumeSchema = (overrides: Partial<FileFieldSchema> = {}): FormSchema => ({
+  id: 'application',
+  title: 'Application',
+  sections: [
+    {
+      id: 'main',
+      fields: [
+        {
+          id: 'resume',
+          type: 'file',
+          label: 'Resume',
+          accept: '.pdf',
+          maxSizeBytes: 1024,
+          adapter: 'test',
+          validation: [{ type: 'required', message: 'Upload your resume' }],
+          ...overrides,
+        },
+      ],
+    },
+  ],
+});
+
+const pdf = (name = 'resume.pdf', size = 100) =>
+  new File(['x'.repeat(size)], name, { type: 'application/pdf' });
+
+// The label ends with the required marker
+const resumeInput = () => screen.getByLabelText(/^Resume/);
+
+let unregister: (() => void) | undefined;
+
+const withAdapter = (adapter: UploadAdapter) => {
+  unregister = registerUploadAdapter('test', adapter);
+};
+
+describe('File upload', () => {
+  afterEach(() => {
+    unregister?.();
+    unregister = undefined;
+  });
+
+  it('should submit uploaded file references', async () => {
+    const adapter = createMemoryUploadAdapter();
+    withAdapter(adapter);
+    const onSubmit = vi.fn();
+    const user = userEvent.setup();
+
+    render(<FormRenderer schema={resumeSchema()} onSubmit={onSubmit} />);
+
+    await user.click(screen.getByRole('button', { name: /submit/i }));
+    expect(screen.getByText('Upload your resume')).toBeInTheDocument();
+
+    await user.upload(resumeInput(), pdf());
+    expect(await screen.findByRole('button', { name: 'Remove resume.pdf' })).toBeInTheDocument();
+    expect(adapter.files.get('memory-1')?.name).toBe('resume.pdf');
+
+    await user.click(screen.getByRole('button', { name: /submit/i }));
+
+    await waitFor(() => {
+      expect(onSubmit).toHaveBeenCalledWith({
+        resume: [{ id: 'memory-1', name: 'resume.pdf', size: 100, type: 'application/pdf', url: 'memory://memory-1' }],
+      });
+    });
+  });
+
+  it('should reject files of the wrong type, too large or too many', async () => {
+    const upload = vi.fn(createMemoryUploadAdapter().upload);
+    withAdapter({ upload });
+    const user = userEvent.setup({ applyAccept: false });
+
+    render(<FormRenderer schema={resumeSchema({ maxFiles: 1 })} onSubmit={vi.fn()} />);
+
+    const input = resumeInput();
+    await user.upload(input, new File(['x'], 'photo.png', { type: 'image/png' }));
+    expect(screen.getByText('photo.png is not an accepted file type')).toBeInTheDocument();
+
+    await user.upload(input, pdf('huge.pdf', 2048));
+    expect(screen.getByText('huge.pdf is larger than 1 KB')).toBeInTheDocument();
+    expect(upload).not.toHaveBeenCalled();
+
+    // Drag-and-drop goes through the same checks
+    fireEvent.drop(input.parentElement as HTMLElement, {
+      dataTransfer: { files: [pdf('dropped.pdf'), pdf('second.pdf')] },
+    });
+    expect(await screen.findByRole('button', { name: 'Remove dropped.pdf' })).toBeInTheDocument();
+    expect(upload).toHaveBeenCalledTimes(1);
+
+    // The only slot is taken
+    expect(input).toBeDisabled();
+  });
+
+  it('should report progress and cancel uploads', async () => {
+    let options: UploadOptions | undefined;
+    withAdapter({
+      upload: (_file, uploadOptions) => {
+        options = uploadOptions;
+        return new Promise((_resolve, reject) => {
+          uploadOptions.signal.addEventListener('abort', () => reject(new Error('aborted')));
+        });
+      },
+    });
+    const user = userEvent.setup();
+
+    render(<FormRenderer schema={resumeSchema()} onSubmit={vi.fn()} />);
+
+    await user.upload(resumeInput(), pdf());
+    act(() => options?.onProgress(0.5));
+
+    expect(screen.getByRole('progressbar', { name: 'Uploading resume.pdf' })).toHaveAttribute('aria-valuenow', '50');
+
+    await user.click(screen.getByRole('button', { name: 'Cancel upload of resume.pdf' }));
+    expect(options?.signal.aborted).toBe(true);
+    expect(screen.queryByText('resume.pdf')).not.toBeInTheDocument();
+    // A cancelled upload is not reported as failed
+    expect(screen.queryByText('aborted')).not.toBeInTheDocument();
+  });
+
+  it('should block submit until uploads finish', async () => {
+    const finish: Array<() => void> = [];
+    withAdapter({
+      upload: file => new Promise(resolve => {
+        finish.push(() => resolve({ id: file.name, name: file.name, size: file.size, type: file.type }));
+      }),
+    });
+    const onSubmit = vi.fn();
+    const user = userEvent.setup();
+
+    render(<FormRenderer schema={resumeSchema({ maxFiles: 3 })} onSubmit={onSubmit} />);
+
+    await user.upload(resumeInput(), [pdf('a.pdf'), pdf('b.pdf'), pdf('c.pdf')]);
+    await act(async () => finish[0]?.());
+    expect(await screen.findByRole('button', { name: 'Remove a.pdf' })).toBeInTheDocument();
+
+    await user.click(screen.getByRole('button', { name: /submit/i }));
+    expect(await screen.findByText('Wait for 2 uploads to finish')).toBeInTheDocument();
+    expect(screen.queryByText('Upload your resume')).not.toBeInTheDocument();
+    expect(screen.getAllByRole('progressbar')).toHaveLength(2);
+    expect(onSubmit).not.toHaveBeenCalled();
+
+    await act(async () => {
+      finish[1]?.();
+      finish[2]?.();
+    });
+    expect(screen.queryByText('Wait for 2 uploads to finish')).not.toBeInTheDocument();
+
+    await user.click(screen.getByRole('button', { name: /submit/i }));
+    await waitFor(() => {
+      expect(onSubmit).toHaveBeenCalledWith({
+        resume: ['a.pdf', 'b.pdf', 'c.pdf'].map(name => ({ id: name, name, size: 100, type: 'application/pdf' })),
+      });
+    });
+  });
+
+  it('should retry failed uploads', async () => {
+    let attempts = 0;
+    withAdapter(createMemoryUploadAdapter({ fail: () => (attempts++ === 0 ? 'Network error' : null) }));
+    const user = userEvent.setup();
+
+    render(<FormRenderer schema={resumeSchema()} onSubmit={vi.fn()} />);
+
+    await user.upload(resumeInput(), pdf());
+    expect(await screen.findByText('Network error')).toBeInTheDocument();
+
+    await user.click(screen.getByRole('button', { name: 'Retry resume.pdf' }));
+    expect(await screen.findByRole('button', { name: 'Remove resume.pdf' })).toBeInTheDocument();
+    expect(screen.queryByText('Network error')).not.toBeInTheDocument();
+  });
+});
@@ -4,13 +4,20 @@
  * Tests core form validation behavior:
  * - Required fields block submission
  * - Hidden fields don't block submission
- * - Async validation resolution
+ * - Async validation resolution (including on submit)
+ * - Server-side submission errors mapped onto fields
+ * - Submit lifecycle (loading label, double-submit guard)
+ * - Rule triggers (change/blur/submit)
+ * - allErrors mode checklist (rules that haven't run aren't shown as met)
  */
 
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { render, screen, waitFor } from '@testing-library/react';
+import { render, renderHook, screen, waitFor, fireEvent, act } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import { FormRenderer } from '@/components/form';
+import { FormProvider } from '@/state';
+import { useFieldValidation } from '@/hooks';
+import { registerValidator, registerAsyncValidator } from '@/validation/registry';
 import type { FormSchema } from '@/schema/types';
 
 // ============================================================================
@@ -101,6 +108,40 @@ const asyncValidationSchema: FormSchema = {
   ],
 };
 
+const nestedSectionsSchema: FormSchema = {
+  id: 'nested-test',
+  version: '1.0',
+  title: 'Nested Sections Test',
+  sections: [
+    {
+      id: 'company',
+      title: 'Company',
+      fields: [
+        {
+          id: 'hasBilling',
+          type: 'checkbox',
+          label: 'Separate billing contact',
+        },
+      ],
+      sections: [
+        {
+          id: 'billing',
+          title: 'Billing Contact',
+          showWhen: { field: 'hasBilling', operator: 'equals', value: true },
+          fields: [
+            {
+              id: 'billingEmail',
+              type: 'text',
+              label: 'Billing Email',
+              validation: [{ type: 'required', message: 'Billing email is required' }],
+            },
+          ],
+        },
+      ],
+    },
+  ],
+};
+
 // ============================================================================
 // TEST SUITES
 // ============================================================================
@@ -279,6 +320,50 @@ describe('Form Validation', () => {
     });
   });
 
+  describe('Nested Sections', () => {
+    it('should render nested sections with a deeper heading level', async () => {
+      const user = userEvent.setup();
+
+      render(<FormRenderer schema={nestedSectionsSchema} onSubmit={vi.fn()} />);
+
+      expect(screen.getByRole('heading', { level: 3, name: 'Company' })).toBeInTheDocument();
+      expect(screen.queryByRole('heading', { name: 'Billing Contact' })).not.toBeInTheDocument();
+
+      await user.click(screen.getByLabelText(/separate billing contact/i));
+
+      expect(screen.getByRole('heading', { level: 4, name: 'Billing Contact' })).toBeInTheDocument();
+      expect(screen.getByLabelText(/billing email/i)).toBeInTheDocument();
+    });
+
+    it('should validate visible nested fields on submit', async () => {
+      const onSubmit = vi.fn();
+      const user = userEvent.setup();
+
+      render(<FormRenderer schema={nestedSectionsSchema} onSubmit={onSubmit} />);
+
+      await user.click(screen.getByLabelText(/separate billing contact/i));
+      await user.click(screen.getByRole('button', { name: /submit/i }));
+
+      await waitFor(() => {
+        expect(screen.getByText('Billing email is required')).toBeInTheDocument();
+      });
+      expect(onSubmit).not.toHaveBeenCalled();
+    });
+
+    it('should skip fields of hidden nested sections on submit', async () => {
+      const onSubmit = vi.fn();
+      const user = userEvent.setup();
+
+      render(<FormRenderer schema={nestedSectionsSchema} onSubmit={onSubmit} />);
+
+      await user.click(screen.getByRole('button', { name: /submit/i }));
+
+      await waitFor(() => {
+        expect(onSubmit).toHaveBeenCalled();
+      });
+    });
+  });
+
   describe('Validation Rules', () => {
     it('should validate email format', async () => {
       const user = userEvent.setup();
@@ -349,6 +434,379 @@ describe('Form Validation', () => {
     });
   });
 
+  describe('Validation Triggers', () => {
+    const triggerSchema: FormSchema = {
+      id: 'trigger-test',
+      title: 'Trigger Test',
+      sections: [
+        {
+          id: 'main',
+          fields: [
+            {
+              id: 'code',
+              type: 'text',
+              label: 'Code',
+              validation: [
+                { type: 'minLength', value: 4, message: 'Min 4 characters', trigger: 'blur' },
+                { type: 'pattern', value: '^[A-Z]+$', message: 'Uppercase only', trigger: 'submit' },
+              ],
+            },
+          ],
+        },
+      ],
+    };
+
+    it('should run blur rules on blur but never while typing', async () => {
+      const user = userEvent.setup();
+
+      render(<FormRenderer schema={triggerSchema} onSubmit={vi.fn()} />);
+
+      const input = screen.getByLabelText('Code');
+      await user.type(input, 'AB');
+      await user.tab();
+      expect(screen.getByText('Min 4 characters')).toBeInTheDocument();
+
+      // Typing clears the error and does not re-run the blur rule
+      await user.type(input, 'C');
+      expect(screen.queryByText('Min 4 characters')).not.toBeInTheDocument();
+
+      await user.tab();
+      expect(screen.getByText('Min 4 characters')).toBeInTheDocument();
+    });
+
+    it('should run submit rules only on submit', async () => {
+      const onSubmit = vi.fn();
+      const user = userEvent.setup();
+
+      render(<FormRenderer schema={triggerSchema} onSubmit={onSubmit} />);
+
+      await user.type(screen.getByLabelText('Code'), 'abcd');
+      await user.tab();
+      expect(screen.queryByText('Uppercase only')).not.toBeInTheDocument();
+
+      await user.click(screen.getByRole('button', { name: /submit/i }));
+      expect(screen.getByText('Uppercase only')).toBeInTheDocument();
+      expect(onSubmit).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Async Rules on Submit', () => {
+    it('should await async rules that never ran and block submit on failure', async () => {
+      const onSubmit = vi.fn();
+      const user = userEvent.setup();
+      const unregister = registerAsyncValidator('uniqueUsername', async (value) =>
+        value === 'taken' ? 'Username is taken' : null
+      );
+
+      render(
+        <FormRenderer
+          schema={{
+            ...asyncValidationSchema,
+            sections: [{
+              id: 'main',
+              fields: [{
+                id: 'username',
+                type: 'text',
+                label: 'Username',
+                validation: [{ type: 'async', validator: 'uniqueUsername', trigger: 'submit' }],
+              }],
+            }],
+          }}
+          onSubmit={onSubmit}
+        />
+      );
+
+      await user.type(screen.getByLabelText('Username'), 'taken');
+      await user.click(screen.getByRole('button', { name: /submit/i }));
+
+      expect(await screen.findByText('Username is taken')).toBeInTheDocument();
+      expect(onSubmit).not.toHaveBeenCalled();
+
+      await user.clear(screen.getByLabelText('Username'));
+      await user.type(screen.getByLabelText('Username'), 'free');
+      await user.click(screen.getByRole('button', { name: /submit/i }));
+
+      await waitFor(() => expect(onSubmit).toHaveBeenCalledWith({ username: 'free' }));
+      unregister();
+    });
+
+    it('should cancel field validations still running when submitting', async () => {
+      let release: () => void = () => {};
+      const slow = new Promise<void>(resolve => { release = resolve; });
+      let calls = 0;
+      const unregister = registerAsyncValidator('uniqueUsername', async () => {
+        // The blur validation hangs; submit's own check answers at once
+        if (calls++ === 0) await slow;
+        return null;
+      });
+      const user = userEvent.setup();
+
+      render(
+        <FormRenderer
+          schema={{
+            ...asyncValidationSchema,
+            sections: [{
+              id: 'main',
+              fields: [{
+                id: 'username',
+                type: 'text',
+                label: 'Username',
+                validation: [{ type: 'async', validator: 'uniqueUsername', trigger: 'blur', debounceMs: 0 }],
+              }],
+            }],
+          }}
+          onSubmit={async () => ({ fieldErrors: { username: ['Username is reserved'] } })}
+        />
+      );
+
+      await user.type(screen.getByLabelText('Username'), 'admin');
+      await user.tab();
+      await waitFor(() => expect(calls).toBe(1));
+
+      await user.click(screen.getByRole('button', { name: /submit/i }));
+      expect(await screen.findByText('Username is reserved')).toBeInTheDocument();
+
+      // The cancelled blur validation finishing late doesn't clear the server error
+      await act(async () => release());
+      expect(screen.getByText('Username is reserved')).toBeInTheDocument();
+      unregister();
+    });
+  });
+
+  describe('Submission Errors', () => {
+    async function fillAndSubmit() {
+      const user = userEvent.setup();
+      await user.type(screen.getByLabelText(/name/i), 'Ada');
+      await user.type(screen.getByLabelText(/email/i), 'ada@example.com');
+      await user.click(screen.getByRole('button', { name: /submit/i }));
+    }
+
+    it('should map returned field errors and show the form error banner', async () => {
+      render(
+        <FormRenderer
+          schema={requiredFieldsSchema}
+          onSubmit={async () => ({
+            fieldErrors: { email: ['Email is already registered'] },
+            formError: 'We could not create your account',
+          })}
+        />
+      );
+
+      await fillAndSubmit();
+
+      expect(await screen.findByText('We could not create your account')).toHaveAttribute('role', 'alert');
+      expect(screen.getByText('Email is already registered')).toBeInTheDocument();
+      await waitFor(() => expect(screen.getByLabelText(/email/i)).toHaveFocus());
+    });
+
+    it('should accept thrown submit errors and still log other failures', async () => {
+      const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const onSubmit = vi.fn()
+        .mockRejectedValueOnce({ fieldErrors: { name: ['Name is reserved'] } })
+        .mockRejectedValueOnce(new Error('Network down'));
+
+      render(<FormRenderer schema={requiredFieldsSchema} onSubmit={onSubmit} />);
+
+      await fillAndSubmit();
+      expect(await screen.findByText('Name is reserved')).toBeInTheDocument();
+
+      await userEvent.setup().click(screen.getByRole('button', { name: /submit/i }));
+      await waitFor(() => expect(consoleError).toHaveBeenCalledWith('Form submission failed:', expect.any(Error)));
+      consoleError.mockRestore();
+    });
+  });
+
+  describe('Submit Lifecycle', () => {
+    it('should disable submit and show the loading label until onSubmit settles', async () => {
+      let finish: () => void = () => {};
+      const onSubmit = vi.fn(() => new Promise<void>(resolve => { finish = resolve; }));
+      const user = userEvent.setup();
+
+      render(
+        <FormRenderer
+          schema={{ ...requiredFieldsSchema, submit: { label: 'Create', loadingLabel: 'Creating…' } }}
+          onSubmit={onSubmit}
+        />
+      );
+
+      await user.type(screen.getByLabelText(/name/i), 'Ada');
+      await user.type(screen.getByLabelText(/email/i), 'ada@example.com');
+      await user.click(screen.getByRole('button', { name: 'Create' }));
+
+      const button = await screen.findByRole('button', { name: 'Creating…' });
+      expect(button).toBeDisabled();
+      fireEvent.submit(button.closest('form')!);
+      expect(onSubmit).toHaveBeenCalledTimes(1);
+
+      await act(async () => finish());
+      expect(screen.getByRole('button', { name: 'Create' })).toBeEnabled();
+    });
+
+    it('should end the submission when a validator throws', async () => {
+      const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const unregister = registerValidator('broken', () => {
+        throw new Error('Validator crashed');
+      });
+      const onSubmit = vi.fn();
+      const user = userEvent.setup();
+
+      render(
+        <FormRenderer
+          schema={{
+            id: 'broken',
+            title: 'Broken',
+            submit: { label: 'Create', loadingLabel: 'Creating…' },
+            sections: [{
+              id: 'main',
+              fields: [{ id: 'code', type: 'text', label: 'Code', validation: [{ type: 'custom', validator: 'broken' }] }],
+            }],
+          }}
+          onSubmit={onSubmit}
+        />
+      );
+
+      await user.click(screen.getByRole('button', { name: 'Create' }));
+
+      await waitFor(() => {
+        expect(consoleError).toHaveBeenCalledWith('Form submission failed:', expect.any(Error));
+      });
+      expect(screen.getByRole('button', { name: 'Create' })).toBeEnabled();
+      expect(onSubmit).not.toHaveBeenCalled();
+
+      unregister();
+      consoleError.mockRestore();
+    });
+  });
+
+  describe('Validation Modes', () => {
+    const passwordSchema: FormSchema = {
+      id: 'mode-test',
+      title: 'Mode Test',
+      validationMode: 'allErrors',
+      sections: [
+        {
+          id: 'main',
+          fields: [
+            {
+              id: 'password',
+              type: 'text',
+              label: 'Password',
+              validation: [
+                { type: 'required', message: 'Password is required' },
+                { type: 'minLength', value: 8, message: 'At least 8 characters' },
+                { type: 'pattern', value: '[0-9]', message: 'Contains a number' },
+              ],
+            },
+          ],
+        },
+      ],
+    };
+
+    it('should list every rule with its status in allErrors mode', async () => {
+      const user = userEvent.setup();
+
+      render(<FormRenderer schema={passwordSchema} onSubmit={vi.fn()} />);
+
+      const input = screen.getByLabelText(/password/i);
+      expect(input).toHaveAttribute('aria-describedby', 'password-checklist');
+
+      await user.type(input, 'abc');
+      expect(screen.getByText('At least 8 characters').parentElement).toHaveTextContent('(not met)');
+      expect(screen.getByText('Contains a number').parentElement).toHaveTextContent('(not met)');
+
+      await user.type(input, '12345');
+      expect(screen.getByText('At least 8 characters').parentElement).toHaveTextContent('(met)');
+      expect(screen.getByText('Contains a number').parentElement).toHaveTextContent('(met)');
+    });
+
+    it('should not show rules as met before they have run', async () => {
+      const user = userEvent.setup();
+      const schema: FormSchema = {
+        ...passwordSchema,
+        sections: [{
+          id: 'main',
+          fields: [
+            { id: 'admin', type: 'checkbox', label: 'Admin' },
+            {
+              id: 'password',
+              type: 'text',
+              label: 'Password',
+              validation: [
+                { type: 'minLength', value: 8, message: 'At least 8 characters' },
+                { type: 'pattern', value: '[0-9]', message: 'Contains a number', trigger: 'blur' },
+                {
+                  type: 'minLength',
+                  value: 12,
+                  message: 'Admins need 12 characters',
+                  when: { field: 'admin', operator: 'equals', value: true },
+                },
+              ],
+            },
+          ],
+        }],
+      };
+      const status = (text: string) => screen.getByText(text).parentElement;
+
+      render(<FormRenderer schema={schema} onSubmit={vi.fn()} />);
+
+      await user.type(screen.getByLabelText('Password'), 'abcdefgh1');
+      expect(status('At least 8 characters')).toHaveTextContent('(met)');
+      expect(status('Contains a number')).toHaveTextContent('(not checked yet)');
+      expect(status('Admins need 12 characters')).toHaveTextContent('(not checked yet)');
+
+      await user.tab();
+      expect(status('Contains a number')).toHaveTextContent('(met)');
+      expect(status('Admins need 12 characters')).toHaveTextContent('(not checked yet)');
+    });
+
+    it('should label rules without a message by what they require', async () => {
+      const user = userEvent.setup();
+      const schema: FormSchema = {
+        ...passwordSchema,
+        sections: [{
+          id: 'main',
+          fields: [{
+            id: 'password',
+            type: 'text',
+            label: 'Password',
+            validation: [
+              { type: 'minLength', value: 8 },
+              { type: 'pattern', value: '[0-9]' },
+            ],
+          }],
+        }],
+      };
+
+      render(<FormRenderer schema={schema} onSubmit={vi.fn()} />);
+
+      await user.type(screen.getByLabelText('Password'), 'abc');
+      expect(screen.getByText('At least 8 characters').parentElement).toHaveTextContent('(not met)');
+      expect(screen.getByText('Matches the required format').parentElement).toHaveTextContent('(not met)');
+      expect(screen.queryByText('minLength')).not.toBeInTheDocument();
+
+      await user.type(screen.getByLabelText('Password'), '12345');
+      expect(screen.getByText('At least 8 characters').parentElement).toHaveTextContent('(met)');
+      expect(screen.getByText('Matches the required format').parentElement).toHaveTextContent('(met)');
+    });
+
+    it('should take the mode from the field schema for every field type', () => {
+      const schema: FormSchema = {
+        id: 'modes',
+        title: 'Modes',
+        sections: [{
+          id: 'main',
+          fields: [{ id: 'quantity', type: 'number', label: 'Quantity', validationMode: 'allErrors' }],
+        }],
+      };
+
+      const { result } = renderHook(() => useFieldValidation({ fieldId: 'quantity' }), {
+        wrapper: ({ children }) => <FormProvider schema={schema}>{children}</FormProvider>,
+      });
+
+      expect(result.current.mode).toBe('allErrors');
+    });
+  });
+
   describe('Accessibility', () => {
     it('should have proper aria-describedby linking errors', async () => {
       const user = userEvent.setup();
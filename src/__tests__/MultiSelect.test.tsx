@@ -0,0 +1,98 @@
+/**
+ * MULTI-SELECT TESTS
+ *
+ * Tests select fields with `multiple: true`:
+ * - string[] values from the native multiple select
+ * - Removable tags, select all and clear
+ * - minItems/maxItems validation
+ * - Conditions on the selected values
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { FormRenderer } from '@/components/form';
+import type { FormSchema } from '@/schema/types';
+
+const languagesSchema: FormSchema = {
+  id: 'languages',
+  title: 'Languages',
+  sections: [
+    {
+      id: 'main',
+      fields: [
+        {
+          id: 'languages',
+          type: 'select',
+          label: 'Languages',
+          multiple: true,
+          options: [
+            { value: 'en', label: 'English' },
+            { value: 'fr', label: 'French' },
+            { value: 'de', label: 'German' },
+            { value: 'la', label: 'Latin', disabled: true },
+          ],
+          validation: [
+            { type: 'minItems', value: 2, message: 'Pick at least two' },
+            { type: 'maxItems', value: 2, message: 'Pick at most two' },
+          ],
+        },
+        {
+          id: 'frenchLevel',
+          type: 'text',
+          label: 'French level',
+          showWhen: { field: 'languages', operator: 'contains', value: 'fr' },
+        },
+      ],
+    },
+  ],
+};
+
+const tags = () =>
+  Array.from(screen.queryByRole('list', { name: 'Selected Languages' })?.querySelectorAll('li') ?? [])
+    .map(tag => tag.textContent?.replace('×', ''));
+
+describe('Multi-select', () => {
+  it('should store selections as an array and show them as removable tags', async () => {
+    const user = userEvent.setup();
+
+    render(<FormRenderer schema={languagesSchema} onSubmit={vi.fn()} />);
+
+    await user.selectOptions(screen.getByLabelText('Languages'), ['en', 'fr']);
+    expect(tags()).toEqual(['English', 'French']);
+    expect(screen.getByLabelText('French level')).toBeInTheDocument();
+
+    await user.click(screen.getByRole('button', { name: 'Remove French' }));
+    expect(tags()).toEqual(['English']);
+    expect(screen.queryByLabelText('French level')).not.toBeInTheDocument();
+
+    // Disabled options are never selected by "Select all"
+    await user.click(screen.getByRole('button', { name: 'Select all' }));
+    expect(tags()).toEqual(['English', 'French', 'German']);
+    expect(screen.getByRole('button', { name: 'Select all' })).toBeDisabled();
+
+    await user.click(screen.getByRole('button', { name: 'Clear' }));
+    expect(tags()).toEqual([]);
+  });
+
+  it('should validate the number of selected items', async () => {
+    const onSubmit = vi.fn();
+    const user = userEvent.setup();
+
+    render(<FormRenderer schema={languagesSchema} onSubmit={onSubmit} />);
+
+    await user.selectOptions(screen.getByLabelText('Languages'), ['en']);
+    await user.click(screen.getByRole('button', { name: /submit/i }));
+    expect(screen.getByText('Pick at least two')).toBeInTheDocument();
+
+    await user.click(screen.getByRole('button', { name: 'Select all' }));
+    expect(screen.getByText('Pick at most two')).toBeInTheDocument();
+
+    await user.click(screen.getByRole('button', { name: 'Remove German' }));
+    await user.click(screen.getByRole('button', { name: /submit/i }));
+
+    await waitFor(() => {
+      expect(onSubmit).toHaveBeenCalledWith({ languages: ['en', 'fr'] });
+    });
+  });
+});
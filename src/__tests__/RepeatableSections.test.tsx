@@ -0,0 +1,342 @@
+/**
+ * REPEATABLE SECTION TESTS
+ *
+ * Tests repeatable sections end to end:
+ * - Instance values are stored as a nested array under the section ID
+ * - Removing an instance re-indexes later instances and their field state
+ * - Submit validates every instance and submits the nested shape
+ * - Nested sections render inside each instance
+ * - Move, duplicate and insert keep values, field state and component state together
+ * - Section rules: item counts, unique-by-field and aggregates
+ * - Conditions scoped to an instance ($instance., ../) and wildcards
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, waitFor, within, fireEvent } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { FormRenderer } from '@/components/form';
+import { formReducer, createInitialState } from '@/state/reducer';
+import { formActions } from '@/state/actions';
+import { validateSectionRules } from '@/validation/pipeline';
+import { evaluateCondition, getConditionDependencies } from '@/schema/resolver';
+import type { FormSchema, SectionSchema } from '@/schema/types';
+
+const guestsSchema: FormSchema = {
+  id: 'guests',
+  title: 'Guests',
+  sections: [
+    {
+      id: 'guests',
+      title: 'Guests',
+      repeatable: true,
+      fields: [
+        {
+          id: 'name',
+          type: 'text',
+          label: 'Guest name',
+          validation: [{ type: 'required', message: 'Name is required' }],
+        },
+        { id: 'seats', type: 'number', label: 'Seats', defaultValue: 1 },
+      ],
+    },
+  ],
+};
+
+describe('Repeatable Sections', () => {
+  it('should submit instances as a nested array after removing one', async () => {
+    const onSubmit = vi.fn();
+    const user = userEvent.setup();
+
+    render(<FormRenderer schema={guestsSchema} onSubmit={onSubmit} />);
+
+    await user.click(screen.getByRole('button', { name: 'Add Guests' }));
+    await user.click(screen.getByRole('button', { name: 'Add Guests' }));
+
+    const [first, second] = screen.getAllByLabelText(/guest name/i);
+    await user.type(first!, 'Ada');
+    await user.type(second!, 'Grace');
+
+    await user.click(screen.getByRole('button', { name: 'Remove item 1' }));
+    expect(screen.getAllByLabelText(/guest name/i).map(input => (input as HTMLInputElement).value))
+      .toEqual(['Grace']);
+
+    await user.click(screen.getByRole('button', { name: /submit/i }));
+
+    await waitFor(() => {
+      expect(onSubmit).toHaveBeenCalledWith({ guests: [{ name: 'Grace', seats: 1 }] });
+    });
+  });
+
+  it('should validate every instance on submit', async () => {
+    const onSubmit = vi.fn();
+    const user = userEvent.setup();
+
+    render(<FormRenderer schema={guestsSchema} onSubmit={onSubmit} />);
+
+    await user.click(screen.getByRole('button', { name: 'Add Guests' }));
+    await user.click(screen.getByRole('button', { name: /submit/i }));
+
+    const instance = screen.getByText('Item 1').closest('div.relative') as HTMLElement;
+    expect(within(instance).getByText('Name is required')).toBeInTheDocument();
+    expect(document.getElementById('guests[0].name')).toHaveFocus();
+    expect(onSubmit).not.toHaveBeenCalled();
+  });
+
+  it('should render and validate nested sections inside each instance', async () => {
+    const onSubmit = vi.fn();
+    const user = userEvent.setup();
+    const schema: FormSchema = {
+      ...guestsSchema,
+      sections: [{
+        id: 'guests',
+        title: 'Guests',
+        repeatable: true,
+        fields: [{ id: 'name', type: 'text', label: 'Guest name' }],
+        sections: [{
+          id: 'addr',
+          title: 'Address',
+          fields: [{
+            id: 'street',
+            type: 'text',
+            label: 'Street',
+            validation: [{ type: 'required', message: 'Street is required' }],
+          }],
+        }],
+      }],
+    };
+
+    render(<FormRenderer schema={schema} onSubmit={onSubmit} />);
+
+    await user.click(screen.getByRole('button', { name: 'Add Guests' }));
+    const street = screen.getByLabelText(/^Street/);
+    expect(street).toHaveAttribute('id', 'guests[0].street');
+
+    await user.click(screen.getByRole('button', { name: /submit/i }));
+    expect(await screen.findByText('Street is required')).toBeInTheDocument();
+    expect(onSubmit).not.toHaveBeenCalled();
+
+    await user.type(street, 'Main St');
+    await user.click(screen.getByRole('button', { name: /submit/i }));
+
+    await waitFor(() => {
+      expect(onSubmit).toHaveBeenCalledWith({ guests: [{ street: 'Main St' }] });
+    });
+  });
+
+  it('should move field state along with shifted instances', () => {
+    let state = createInitialState();
+    state = formReducer(state, formActions.addSectionInstance('guests'));
+    state = formReducer(state, formActions.addSectionInstance('guests'));
+    state = formReducer(state, formActions.setFieldValue('guests[1].name', 'Grace'));
+    state = formReducer(state, formActions.setFieldError('guests[1].name', ['Already invited']));
+    state = formReducer(state, formActions.removeSectionInstance('guests', 0));
+
+    expect(state.values.guests).toEqual([{ name: 'Grace' }]);
+    expect(state.fields['guests[0].name']?.errors).toEqual(['Already invited']);
+    expect(state.fields['guests[1].name']).toBeUndefined();
+  });
+
+  describe('Reordering', () => {
+    const names = () =>
+      screen.getAllByLabelText(/guest name/i).map(input => (input as HTMLInputElement).value);
+
+    it('should move, drag and duplicate instances and announce moves', async () => {
+      const user = userEvent.setup();
+
+      render(<FormRenderer schema={guestsSchema} onSubmit={vi.fn()} />);
+
+      for (const name of ['Ada', 'Grace', 'Katherine']) {
+        await user.click(screen.getByRole('button', { name: 'Add Guests' }));
+        const inputs = screen.getAllByLabelText(/guest name/i);
+        await user.type(inputs[inputs.length - 1]!, name);
+      }
+
+      await user.click(screen.getByRole('button', { name: 'Move item 3 up' }));
+      expect(names()).toEqual(['Ada', 'Katherine', 'Grace']);
+      expect(screen.getByRole('button', { name: 'Move item 2 up' })).toHaveFocus();
+
+      await user.keyboard('{Enter}');
+      expect(names()).toEqual(['Katherine', 'Ada', 'Grace']);
+      await waitFor(() => {
+        expect(document.getElementById('sr-announcer')).toHaveTextContent('Item 2 moved to position 1');
+      });
+
+      const groups = screen.getAllByRole('group', { name: /^Item \d$/ });
+      fireEvent.dragStart(groups[2]!.querySelector('[draggable]')!);
+      fireEvent.drop(groups[0]!);
+      expect(names()).toEqual(['Grace', 'Katherine', 'Ada']);
+
+      await user.click(screen.getByRole('button', { name: 'Duplicate item 1' }));
+      expect(names()).toEqual(['Grace', 'Grace', 'Katherine', 'Ada']);
+    });
+
+    it('should keep component state with moved and inserted instances', async () => {
+      const user = userEvent.setup({ applyAccept: false });
+      const schema: FormSchema = {
+        ...guestsSchema,
+        sections: [{
+          id: 'guests',
+          title: 'Guests',
+          repeatable: true,
+          fields: [{ id: 'badge', type: 'file', label: 'Badge photo', accept: '.png' }],
+        }],
+      };
+
+      render(<FormRenderer schema={schema} onSubmit={vi.fn()} />);
+
+      await user.click(screen.getByRole('button', { name: 'Add Guests' }));
+      await user.click(screen.getByRole('button', { name: 'Add Guests' }));
+
+      // Rejections are local to the file field, not form state
+      await user.upload(screen.getAllByLabelText('Badge photo')[1]!, new File(['x'], 'badge.pdf'));
+      const rejection = 'badge.pdf is not an accepted file type';
+      const group = (name: string) => screen.getByRole('group', { name });
+
+      await user.click(screen.getByRole('button', { name: 'Move item 2 up' }));
+      expect(within(group('Item 1')).getByText(rejection)).toBeInTheDocument();
+      expect(within(group('Item 2')).queryByText(rejection)).not.toBeInTheDocument();
+
+      await user.click(screen.getByRole('button', { name: 'Insert item above item 1' }));
+      expect(screen.getAllByRole('group', { name: /^Item \d$/ })).toHaveLength(3);
+      expect(within(group('Item 2')).getByText(rejection)).toBeInTheDocument();
+      expect(within(group('Item 1')).queryByText(rejection)).not.toBeInTheDocument();
+    });
+
+    it('should keep field state with moved, duplicated and inserted instances', () => {
+      let state = createInitialState({ guests: [{ name: 'Ada' }, { name: '' }] });
+      state = formReducer(state, formActions.setFieldError('guests[1].name', ['Name is required']));
+
+      state = formReducer(state, formActions.moveSectionInstance('guests', 1, 0));
+      expect(state.values.guests).toEqual([{ name: '' }, { name: 'Ada' }]);
+      expect(state.fields['guests[0].name']?.errors).toEqual(['Name is required']);
+      expect(state.fields['guests[1].name']).toBeUndefined();
+
+      state = formReducer(state, formActions.duplicateSectionInstance('guests', 0));
+      expect(state.values.guests).toHaveLength(3);
+      expect(state.fields['guests[1].name']?.errors).toEqual(['Name is required']);
+
+      state = formReducer(state, formActions.insertSectionInstance('guests', 0, { name: 'Grace' }));
+      expect(state.values.guests).toEqual([{ name: 'Grace' }, { name: '' }, { name: '' }, { name: 'Ada' }]);
+      expect(state.fields['guests[0].name']).toBeUndefined();
+      expect(state.fields['guests[2].name']?.errors).toEqual(['Name is required']);
+    });
+  });
+
+  describe('Section Rules', () => {
+    const items: SectionSchema = {
+      id: 'items',
+      repeatable: true,
+      minInstances: 1,
+      validation: [
+        { type: 'uniqueBy', field: 'productId' },
+        { type: 'aggregate', aggregate: 'sum', expression: { ref: 'quantity' }, operator: 'lessThanOrEqual', value: 100 },
+      ],
+      fields: [
+        { id: 'productId', type: 'text', label: 'Product' },
+        { id: 'quantity', type: 'number', label: 'Quantity' },
+      ],
+    };
+
+    it('should check item counts, duplicates and aggregates', () => {
+      expect(validateSectionRules(items, { items: [] })).toEqual({
+        items: [{ message: 'Add at least 1 item' }],
+      });
+
+      expect(validateSectionRules(items, {
+        items: [
+          { productId: 'a', quantity: 60 },
+          { productId: 'b', quantity: 30 },
+          { productId: 'a', quantity: 20 },
+        ],
+      })).toEqual({
+        'items[2].productId': [{ message: 'Must be unique' }],
+        items: [{ message: 'Total must be at most 100' }],
+      });
+
+      expect(validateSectionRules(items, { items: [{ productId: 'a', quantity: 100 }] })).toEqual({});
+    });
+
+    it('should show section errors on submit and clear them as instances change', async () => {
+      const onSubmit = vi.fn();
+      const user = userEvent.setup();
+      const schema: FormSchema = {
+        ...guestsSchema,
+        sections: [{ ...guestsSchema.sections[0]!, validation: [{ type: 'minItems', value: 1, message: 'Add a guest' }] }],
+      };
+
+      render(<FormRenderer schema={schema} onSubmit={onSubmit} />);
+      await user.click(screen.getByRole('button', { name: /submit/i }));
+
+      expect(screen.getByText('Add a guest')).toBeInTheDocument();
+      expect(screen.getByRole('group', { name: 'Guests' })).toHaveFocus();
+      expect(onSubmit).not.toHaveBeenCalled();
+
+      await user.click(screen.getByRole('button', { name: 'Add Guests' }));
+      expect(screen.queryByText('Add a guest')).not.toBeInTheDocument();
+    });
+  });
+
+  describe('Scoped Conditions', () => {
+    const values = {
+      currency: 'EUR',
+      items: [
+        { type: 'gift', quantity: 2 },
+        { type: 'standard', quantity: 12 },
+      ],
+    };
+
+    it('should resolve instance-relative references against the scope', () => {
+      const isGift = { field: '$instance.type', operator: 'equals', value: 'gift' } as const;
+
+      expect(evaluateCondition(isGift, values, 'items[0]')).toBe(true);
+      expect(evaluateCondition(isGift, values, 'items[1]')).toBe(false);
+      expect(evaluateCondition({ ...isGift, field: '../type' }, values, 'items[0]')).toBe(true);
+      expect(evaluateCondition({ field: '../../currency', operator: 'equals', value: 'EUR' }, values, 'items[1]'))
+        .toBe(true);
+      // No instance to resolve against
+      expect(evaluateCondition(isGift, values)).toBe(false);
+    });
+
+    it('should match wildcard paths against any or all instances', () => {
+      const bulk = { field: 'items[*].quantity', operator: 'greaterThan', value: 10 } as const;
+
+      expect(evaluateCondition(bulk, values)).toBe(true);
+      expect(evaluateCondition({ ...bulk, match: 'all' }, values)).toBe(false);
+      expect(evaluateCondition({ ...bulk, value: 1, match: 'all' }, values)).toBe(true);
+      expect(evaluateCondition({ field: 'items[1].quantity', operator: 'equals', value: 12 }, values)).toBe(true);
+      expect(getConditionDependencies({ and: [bulk, { field: '../type', operator: 'isEmpty' }] }))
+        .toEqual(['quantity', 'type']);
+    });
+
+    it('should show a field based on a sibling in the same instance', async () => {
+      const user = userEvent.setup();
+      const schema: FormSchema = {
+        ...guestsSchema,
+        sections: [{
+          ...guestsSchema.sections[0]!,
+          fields: [
+            ...guestsSchema.sections[0]!.fields,
+            {
+              id: 'seatingNote',
+              type: 'text',
+              label: 'Seating note',
+              showWhen: { field: '$instance.seats', operator: 'greaterThan', value: 1 },
+            },
+          ],
+        }],
+      };
+
+      render(<FormRenderer schema={schema} onSubmit={vi.fn()} />);
+      await user.click(screen.getByRole('button', { name: 'Add Guests' }));
+      await user.click(screen.getByRole('button', { name: 'Add Guests' }));
+
+      const [, seats] = screen.getAllByLabelText(/seats/i);
+      await user.clear(seats!);
+      await user.type(seats!, '3');
+
+      const notes = screen.getAllByLabelText(/seating note/i);
+      expect(notes).toHaveLength(1);
+      expect(notes[0]).toHaveAttribute('id', 'guests[1].seatingNote');
+    });
+  });
+});
@@ -0,0 +1,194 @@
+/**
+ * SCHEMA LINTER UNIT TESTS
+ *
+ * Tests static checks on FormSchema:
+ * - Duplicate IDs, and instance fields shadowing top-level fields
+ * - Repeatable sections nested in repeatable sections
+ * - Dangling condition and dependsOn references
+ * - Visibility cycles
+ */
+
+import { describe, it, expect } from 'vitest';
+import { lintFormSchema, isLintClean } from '@/schema/linter';
+import { formatSchemaDiagnostic } from '@/schema/validator';
+import {
+  contactFormSchema,
+  registrationFormSchema,
+  orderFormSchema,
+  surveyFormSchema,
+} from '@/schema/examples';
+import type { FormSchema, SectionSchema } from '@/schema/types';
+
+function schemaWith(sections: SectionSchema[]): FormSchema {
+  return { id: 'lint-test', title: 'Lint Test', sections };
+}
+
+function lint(schema: FormSchema): string[] {
+  return lintFormSchema(schema).map(d => `[${d.rule}] ${formatSchemaDiagnostic(d)}`);
+}
+
+describe('lintFormSchema', () => {
+  it('reports nothing for the example schemas', () => {
+    for (const schema of [contactFormSchema, registrationFormSchema, orderFormSchema, surveyFormSchema]) {
+      expect(lint(schema)).toEqual([]);
+    }
+  });
+
+  it('reports duplicate field ids across sections', () => {
+    const schema = schemaWith([
+      { id: 'a', fields: [{ id: 'email', type: 'text', label: 'Email' }] },
+      {
+        id: 'b',
+        fields: [],
+        sections: [{ id: 'c', fields: [{ id: 'email', type: 'text', label: 'Work email' }] }],
+      },
+    ]);
+
+    expect(lint(schema)).toEqual([
+      '[duplicate-field-id] sections[1].sections[0].fields[0].id: duplicate field id "email" (first declared at sections[0].fields[0])',
+    ]);
+  });
+
+  it('reports instance fields shadowing top-level fields', () => {
+    const schema = schemaWith([
+      { id: 'order', fields: [{ id: 'currency', type: 'text', label: 'Currency' }] },
+      {
+        id: 'items',
+        repeatable: true,
+        fields: [
+          { id: 'currency', type: 'text', label: 'Item currency' },
+          { id: 'qty', type: 'number', label: 'Quantity' },
+        ],
+      },
+    ]);
+
+    expect(lint(schema)).toEqual([
+      '[shadowed-field-id] sections[1].fields[0].id: field id "currency" in repeatable section "items" shadows the top-level field (first declared at sections[0].fields[0])',
+    ]);
+  });
+
+  it('reports repeatable sections nested in repeatable sections', () => {
+    const schema = schemaWith([
+      {
+        id: 'people',
+        repeatable: true,
+        fields: [{ id: 'name', type: 'text', label: 'Name' }],
+        sections: [
+          { id: 'address', fields: [{ id: 'street', type: 'text', label: 'Street' }] },
+          { id: 'phones', repeatable: true, fields: [{ id: 'number', type: 'text', label: 'Number' }] },
+        ],
+      },
+    ]);
+
+    expect(lint(schema)).toEqual([
+      '[nested-repeatable] sections[0].sections[1].repeatable: repeatable section "phones" is nested in another repeatable section',
+    ]);
+  });
+
+  it('reports conditions referencing unknown fields', () => {
+    const schema = schemaWith([
+      {
+        id: 'main',
+        showWhen: { field: 'mode', operator: 'equals', value: 'advanced' },
+        fields: [
+          {
+            id: 'taxId',
+            type: 'text',
+            label: 'Tax ID',
+            showWhen: { and: [{ field: 'acountType', operator: 'equals', value: 'business' }] },
+          },
+        ],
+      },
+    ]);
+
+    expect(lint(schema)).toEqual([
+      '[unknown-condition-field] sections[0].showWhen: condition references unknown field "mode"',
+      '[unknown-condition-field] sections[0].fields[0].showWhen: condition references unknown field "acountType"',
+    ]);
+  });
+
+  it('reports cross-field rules referencing unknown fields', () => {
+    const schema = schemaWith([
+      {
+        id: 'main',
+        fields: [
+          { id: 'password', type: 'text', label: 'Password' },
+          {
+            id: 'confirm',
+            type: 'text',
+            label: 'Confirm',
+            validation: [
+              { type: 'matchesField', field: 'pasword' },
+              { type: 'requiredWhen', condition: { field: 'password', operator: 'isNotEmpty' } },
+            ],
+          },
+        ],
+      },
+    ]);
+
+    expect(lint(schema)).toEqual([
+      '[unknown-rule-field] sections[0].fields[1].validation[0]: rule "matchesField" references unknown field "pasword"',
+    ]);
+  });
+
+  it('reports missing and later asyncOptions dependencies', () => {
+    const schema = schemaWith([
+      {
+        id: 'main',
+        fields: [
+          { id: 'city', type: 'select', label: 'City', asyncOptions: { url: '/c', dependsOn: ['state', 'region'] } },
+          { id: 'state', type: 'select', label: 'State', asyncOptions: { url: '/s' } },
+        ],
+      },
+    ]);
+
+    const diagnostics = lintFormSchema(schema);
+    expect(lint(schema)).toEqual([
+      '[forward-dependency] sections[0].fields[0].asyncOptions.dependsOn[0]: depends on field "state" which appears later in the form',
+      '[unknown-dependency] sections[0].fields[0].asyncOptions.dependsOn[1]: depends on unknown field "region"',
+    ]);
+    expect(diagnostics.map(d => d.severity)).toEqual(['warning', 'error']);
+    expect(isLintClean(diagnostics)).toBe(false);
+  });
+
+  it('checks asyncOptions dependencies of every option field type', () => {
+    const schema = schemaWith([
+      {
+        id: 'main',
+        fields: [
+          { id: 'size', type: 'radio', label: 'Size', asyncOptions: { url: '/s', dependsOn: ['kind'] } },
+          { id: 'extras', type: 'checkboxGroup', label: 'Extras', asyncOptions: { url: '/e', dependsOn: ['base'] } },
+          { id: 'kind', type: 'combobox', label: 'Kind', asyncOptions: { url: '/k', dependsOn: ['brand'] } },
+        ],
+      },
+    ]);
+
+    expect(lint(schema)).toEqual([
+      '[forward-dependency] sections[0].fields[0].asyncOptions.dependsOn[0]: depends on field "kind" which appears later in the form',
+      '[unknown-dependency] sections[0].fields[1].asyncOptions.dependsOn[0]: depends on unknown field "base"',
+      '[unknown-dependency] sections[0].fields[2].asyncOptions.dependsOn[0]: depends on unknown field "brand"',
+    ]);
+  });
+
+  it('reports visibility cycles, including through section conditions', () => {
+    const schema = schemaWith([
+      {
+        id: 'main',
+        fields: [
+          { id: 'a', type: 'text', label: 'A', showWhen: { field: 'b', operator: 'isNotEmpty' } },
+          { id: 'self', type: 'text', label: 'Self', showWhen: { field: 'self', operator: 'isEmpty' } },
+        ],
+      },
+      {
+        id: 'gated',
+        showWhen: { field: 'a', operator: 'isNotEmpty' },
+        fields: [{ id: 'b', type: 'text', label: 'B' }],
+      },
+    ]);
+
+    expect(lint(schema)).toEqual([
+      '[visibility-cycle] sections[0].fields[0]: visibility of "a" depends on itself: a -> b -> a',
+      '[visibility-cycle] sections[0].fields[1]: visibility of "self" depends on itself: self -> self',
+    ]);
+  });
+});
@@ -0,0 +1,310 @@
+/**
+ * SCHEMA VALIDATOR UNIT TESTS
+ *
+ * Tests runtime validation of FormSchema JSON:
+ * - Example schemas are accepted
+ * - Diagnostics are path-addressed
+ * - loadFormSchema throws on invalid input
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  parseFormSchema,
+  loadFormSchema,
+  formatSchemaDiagnostic,
+  SchemaValidationError,
+} from '@/schema/validator';
+import {
+  contactFormSchema,
+  registrationFormSchema,
+  orderFormSchema,
+  surveyFormSchema,
+} from '@/schema/examples';
+import { registerValidator } from '@/validation/registry';
+import { registerUploadAdapter, createMemoryUploadAdapter } from '@/uploads';
+
+function messages(json: unknown): string[] {
+  const result = parseFormSchema(json);
+  return result.success ? [] : result.errors.map(formatSchemaDiagnostic);
+}
+
+const validField = { id: 'name', type: 'text', label: 'Name' };
+
+function schemaWithFields(fields: unknown[]) {
+  return {
+    id: 'test',
+    title: 'Test',
+    sections: [{ id: 'main', fields }],
+  };
+}
+
+describe('parseFormSchema', () => {
+  it('accepts the example schemas', () => {
+    for (const schema of [contactFormSchema, registrationFormSchema, orderFormSchema, surveyFormSchema]) {
+      expect(messages(schema)).toEqual([]);
+    }
+  });
+
+  it('parses JSON strings', () => {
+    const result = parseFormSchema(JSON.stringify(contactFormSchema));
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.schema.id).toBe('contact-form');
+    }
+  });
+
+  it('reports invalid JSON', () => {
+    expect(messages('{ not json')[0]).toMatch(/^invalid JSON/);
+  });
+
+  it('reports missing top-level properties', () => {
+    expect(messages({})).toEqual([
+      'id: is required',
+      'title: is required',
+      'sections: is required',
+    ]);
+  });
+
+  it('reports unknown rule types with their full path', () => {
+    const json = {
+      id: 'test',
+      title: 'Test',
+      sections: [
+        { id: 'a', fields: [] },
+        { id: 'b', fields: [] },
+        {
+          id: 'c',
+          fields: [{
+            ...validField,
+            validation: [{ type: 'required' }, { type: 'minLenght', value: 3 }],
+          }],
+        },
+      ],
+    };
+
+    expect(messages(json)).toEqual([
+      'sections[2].fields[0].validation[1]: unknown rule type "minLenght"',
+    ]);
+  });
+
+  it('reports unknown field types', () => {
+    expect(messages(schemaWithFields([{ id: 'x', type: 'dropdown', label: 'X' }]))).toEqual([
+      'sections[0].fields[0].type: unknown field type "dropdown"',
+    ]);
+  });
+
+  it('checks type-specific field properties', () => {
+    expect(messages(schemaWithFields([
+      { id: 'age', type: 'number', label: 'Age', min: '18' },
+      { id: 'agree', type: 'checkbox', label: 'Agree', defaultValue: 'yes' },
+    ]))).toEqual([
+      'sections[0].fields[0].min: expected number, got string',
+      'sections[0].fields[1].defaultValue: expected boolean, got string',
+    ]);
+  });
+
+  it('checks date fields and bounds', () => {
+    expect(messages(schemaWithFields([
+      { id: 'start', type: 'date', label: 'Start', min: 'today+30d', max: 'next week', defaultValue: '2024-03-01T09:00' },
+      { id: 'opens', type: 'time', label: 'Opens', min: '09:00', max: 'today' },
+      {
+        id: 'due',
+        type: 'datetime',
+        label: 'Due',
+        min: '09:00',
+        validation: [{ type: 'minDate', value: 'now+2h' }, { type: 'maxDate' }, { type: 'notWeekend' }],
+      },
+    ]))).toEqual([
+      'sections[0].fields[0].defaultValue: expected ISO date, got "2024-03-01T09:00"',
+      'sections[0].fields[0].max: expected ISO date or relative date like "today+30d", got "next week"',
+      'sections[0].fields[2].validation[1].value: is required',
+      'sections[0].fields[2].min: expected ISO datetime or relative date like "today+30d", got "09:00"',
+    ]);
+  });
+
+  it('checks rule parameters', () => {
+    expect(messages(schemaWithFields([{
+      ...validField,
+      validation: [
+        { type: 'minLength' },
+        { type: 'pattern', value: '[a-' },
+        { type: 'email', trigger: 'focus' },
+      ],
+    }]))).toEqual([
+      'sections[0].fields[0].validation[0].value: is required',
+      'sections[0].fields[0].validation[1].value: invalid regular expression "[a-"',
+      'sections[0].fields[0].validation[2].trigger: expected one of "change", "blur", "submit", got "focus"',
+    ]);
+  });
+
+  it('reports named validators that are not registered', () => {
+    const unregister = registerValidator('strongPassword', () => null);
+
+    expect(messages(schemaWithFields([{
+      ...validField,
+      validation: [
+        { type: 'custom', validator: 'strongPassword' },
+        { type: 'custom', validator: 'noSuchValidator' },
+        { type: 'async', validator: 'uniqueEmail' },
+        { type: 'async' },
+      ],
+    }]))).toEqual([
+      'sections[0].fields[0].validation[1].validator: validator "noSuchValidator" is not registered',
+      'sections[0].fields[0].validation[2].validator: validator "uniqueEmail" is not registered',
+      'sections[0].fields[0].validation[3]: async rule requires "url" or "validator"',
+    ]);
+
+    unregister();
+  });
+
+  it('checks file fields and their upload adapter', () => {
+    const unregister = registerUploadAdapter('resumes', createMemoryUploadAdapter());
+
+    expect(messages(schemaWithFields([
+      { id: 'resume', type: 'file', label: 'Resume', adapter: 'resumes', maxSizeBytes: '5MB' },
+      {
+        id: 'photos',
+        type: 'file',
+        label: 'Photos',
+        adapter: 'photos',
+        defaultValue: [{ id: 'p1', name: 'a.jpg', size: 10, type: 'image/jpeg' }, { name: 'b.jpg' }],
+      },
+    ]))).toEqual([
+      'sections[0].fields[0].maxSizeBytes: expected number, got string',
+      'sections[0].fields[1].defaultValue[1].id: is required',
+      'sections[0].fields[1].defaultValue[1].size: is required',
+      'sections[0].fields[1].defaultValue[1].type: is required',
+      'sections[0].fields[1].adapter: upload adapter "photos" is not registered',
+    ]);
+
+    unregister();
+  });
+
+  it('walks condition trees', () => {
+    expect(messages(schemaWithFields([{
+      ...validField,
+      showWhen: {
+        and: [
+          { field: 'country', operator: 'equals', value: 'us' },
+          { or: [{ field: 'age', operator: 'biggerThan', value: 18 }] },
+          { not: { field: 'role', operator: 'in', value: 'admin' } },
+          { foo: 'bar' },
+        ],
+      },
+    }]))).toEqual([
+      'sections[0].fields[0].showWhen.and[1].or[0].operator: unknown operator "biggerThan"',
+      'sections[0].fields[0].showWhen.and[2].not.value: operator "in" expects an array, got string',
+      'sections[0].fields[0].showWhen.and[3]: unrecognized condition: expected "field"/"operator", "and", "or" or "not"',
+    ]);
+  });
+
+  it('checks operator-specific condition values', () => {
+    expect(messages(schemaWithFields([{
+      ...validField,
+      showWhen: {
+        and: [
+          { field: 'age', operator: 'between', value: [18] },
+          { field: 'code', operator: 'matches', value: '(' },
+          { field: 'end', operator: 'dateAfter', valueFrom: 'start', value: '2024-01-01' },
+          { field: 'qty', operator: 'greaterThanOrEqual', valueFrom: 'min' },
+        ],
+      },
+    }]))).toEqual([
+      'sections[0].fields[0].showWhen.and[0].value: operator "between" expects [min, max], got 1 items',
+      'sections[0].fields[0].showWhen.and[1].value: invalid regular expression "("',
+      'sections[0].fields[0].showWhen.and[2]: condition takes either "value" or "valueFrom", not both',
+    ]);
+  });
+
+  it('checks effects blocks', () => {
+    expect(messages(schemaWithFields([{
+      ...validField,
+      effects: {
+        disabledWhen: { field: 'country', operator: 'isEmpty' },
+        setValueWhen: [{ when: { field: 'country', operator: 'isEmpty' } }],
+        clearOnChange: ['country', ''],
+      },
+    }]))).toEqual([
+      'sections[0].fields[0].effects.disabledWhen: unknown effect "disabledWhen"',
+      'sections[0].fields[0].effects.setValueWhen[0].value: is required',
+      'sections[0].fields[0].effects.clearOnChange[1]: expected field reference, got ""',
+    ]);
+  });
+
+  it('validates nested sections', () => {
+    const json = {
+      id: 'test',
+      title: 'Test',
+      sections: [{
+        id: 'outer',
+        fields: [],
+        sections: [{ id: 'inner', fields: [{ id: 'x', label: 'X' }] }],
+      }],
+    };
+
+    expect(messages(json)).toEqual(['sections[0].sections[0].fields[0].type: is required']);
+  });
+
+  it('checks section rules', () => {
+    const json = {
+      id: 'test',
+      title: 'Test',
+      sections: [{
+        id: 'items',
+        repeatable: true,
+        fields: [],
+        validation: [
+          { type: 'minItems', value: 1 },
+          { type: 'uniqueBy' },
+          { type: 'aggregate', aggregate: 'sum', expression: { ref: 'qty' }, operator: 'atMost', value: 100 },
+          { type: 'unique', field: 'sku' },
+        ],
+      }],
+    };
+
+    expect(messages(json)).toEqual([
+      'sections[0].validation[1].field: is required',
+      'sections[0].validation[2].operator: expected one of "equals", "notEquals", "greaterThan", "greaterThanOrEqual", "lessThan", "lessThanOrEqual", got "atMost"',
+      'sections[0].validation[3]: unknown section rule type "unique"',
+    ]);
+  });
+
+  it('walks computed expressions', () => {
+    expect(messages(schemaWithFields([{
+      ...validField,
+      computed: {
+        op: 'add',
+        args: [
+          { ref: '' },
+          { op: 'power', args: [] },
+          { if: { field: 'x', operator: 'isEmpty' } },
+          { aggregate: 'median', section: 'items', expression: { ref: 'qty' } },
+          [1, 2],
+        ],
+      },
+    }]))).toEqual([
+      'sections[0].fields[0].computed.args[0].ref: must not be empty',
+      'sections[0].fields[0].computed.args[1].op: unknown expression operator "power"',
+      'sections[0].fields[0].computed.args[2].then: is required',
+      'sections[0].fields[0].computed.args[3].aggregate: unknown aggregate "median"',
+      'sections[0].fields[0].computed.args[4]: expected expression, got array',
+    ]);
+  });
+});
+
+describe('loadFormSchema', () => {
+  it('returns the schema when valid', () => {
+    expect(loadFormSchema(contactFormSchema)).toBe(contactFormSchema);
+  });
+
+  it('throws SchemaValidationError with diagnostics when invalid', () => {
+    expect(() => loadFormSchema({ id: 'x' })).toThrow(SchemaValidationError);
+
+    try {
+      loadFormSchema({ id: 'x' });
+    } catch (error) {
+      expect((error as SchemaValidationError).diagnostics).toHaveLength(2);
+      expect((error as Error).message).toContain('title: is required');
+    }
+  });
+});
@@ -0,0 +1,432 @@
+/**
+ * VALIDATION PIPELINE UNIT TESTS
+ *
+ * Tests rule evaluation outside of FormRenderer:
+ * - Cross-field rules (matchesField, compareField, requiredWhen)
+ * - Rules gated by a `when` condition
+ * - Trigger context (change < blur < submit)
+ * - firstError vs allErrors validation modes
+ * - Named validators from the registry
+ * - Async error policies (fail open, fail closed, retry)
+ * - Dependent fields re-validated when a referenced field changes
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, act } from '@testing-library/react';
+import { FormProvider, useField } from '@/state';
+import { useFieldValidation } from '@/hooks';
+import {
+  validateFieldSync,
+  validateFormSync,
+  getDependentFields,
+  shouldRunRule,
+  runAsyncRule,
+  validateAsyncRule,
+  ASYNC_UNAVAILABLE_MESSAGE,
+} from '@/validation/pipeline';
+import { registerValidator, registerAsyncValidator, getCustomValidator } from '@/validation/registry';
+import { getFieldLabels } from '@/schema/traverse';
+import { deepGet } from '@/utils/deep-get-set';
+import type { AsyncRule, FieldSchema, FormSchema, ValidationRule } from '@/schema/types';
+
+function errorsFor(value: unknown, rule: ValidationRule, formValues: Record<string, unknown>) {
+  return validateFieldSync('field', value as never, [rule], formValues as never).errors;
+}
+
+describe('Validation Pipeline', () => {
+  describe('Cross-field Rules', () => {
+    it('should validate matchesField against the referenced value', () => {
+      const rule: ValidationRule = { type: 'matchesField', field: 'password' };
+
+      expect(errorsFor('secret1', rule, { password: 'secret' })).toEqual(['Fields do not match']);
+      expect(errorsFor('secret', rule, { password: 'secret' })).toEqual([]);
+      // Empty values are left to `required`
+      expect(errorsFor('', rule, { password: 'secret' })).toEqual([]);
+    });
+
+    it('should compare numbers numerically and ISO dates as strings', () => {
+      const after: ValidationRule = { type: 'compareField', field: 'startDate', operator: 'greaterThan' };
+      const atMost: ValidationRule = { type: 'compareField', field: 'max', operator: 'lessThanOrEqual' };
+
+      expect(errorsFor('2024-03-01', after, { startDate: '2024-03-05' })).toEqual(['Must be greater than startDate']);
+      expect(errorsFor('2024-03-09', after, { startDate: '2024-03-05' })).toEqual([]);
+      expect(errorsFor(10, atMost, { max: '9' })).toEqual(['Must be at most max']);
+      expect(errorsFor(9, atMost, { max: 10 })).toEqual([]);
+      expect(errorsFor(9, atMost, { max: '' })).toEqual([]);
+    });
+
+    it('should name the compared field by its label', () => {
+      const sections: FormSchema['sections'] = [{
+        id: 'trip',
+        fields: [
+          { id: 'startDate', type: 'date', label: 'Start date' },
+          {
+            id: 'endDate',
+            type: 'date',
+            label: 'End date',
+            validation: [{ type: 'compareField', field: 'startDate', operator: 'greaterThan' }],
+          },
+        ],
+      }];
+      const fields = sections[0]!.fields;
+
+      const result = validateFormSync(fields, { startDate: '2024-03-05', endDate: '2024-03-01' }, {
+        fieldLabels: getFieldLabels(sections),
+      });
+      expect(result.fieldErrors.endDate).toEqual(['Must be greater than Start date']);
+    });
+
+    it('should require a value only while the condition holds', () => {
+      const fields: FieldSchema[] = [
+        {
+          id: 'phone',
+          type: 'text',
+          label: 'Phone',
+          validation: [{
+            type: 'requiredWhen',
+            condition: { field: 'email', operator: 'isEmpty' },
+            message: 'Enter a phone number or email',
+          }],
+        },
+        { id: 'email', type: 'text', label: 'Email' },
+      ];
+
+      expect(validateFormSync(fields, { phone: '', email: '' }).fieldErrors).toEqual({
+        phone: ['Enter a phone number or email'],
+      });
+      expect(validateFormSync(fields, { phone: '', email: 'a@b.co' }).isValid).toBe(true);
+      expect(getDependentFields(fields, 'email').map(f => f.id)).toEqual(['phone']);
+    });
+
+    it('should read referenced fields from the same repeatable instance', () => {
+      const values = {
+        code: 'top-level',
+        items: [
+          { code: 'a1', confirm: 'a1', start: 5, end: 3, note: '' },
+          { code: 'b2', confirm: 'x', start: 1, end: 3, note: '' },
+        ],
+      };
+      const rules: ValidationRule[] = [
+        { type: 'matchesField', field: 'code' },
+        { type: 'compareField', field: '../start', operator: 'greaterThan' },
+        { type: 'requiredWhen', condition: { field: '$instance.confirm', operator: 'equals', value: 'x' } },
+      ];
+      const errors = (path: string, rule: ValidationRule) =>
+        validateFieldSync(path, deepGet(values, path) as never, [rule], values).errors;
+
+      expect(errors('items[0].confirm', rules[0]!)).toEqual([]);
+      expect(errors('items[1].confirm', rules[0]!)).toEqual(['Fields do not match']);
+      expect(errors('items[0].end', rules[1]!)).toHaveLength(1);
+      expect(errors('items[1].end', rules[1]!)).toEqual([]);
+      expect(errors('items[0].note', rules[2]!)).toEqual([]);
+      expect(errors('items[1].note', rules[2]!)).toEqual(['This field is required']);
+    });
+  });
+
+  describe('Conditional Rules', () => {
+    const fields: FieldSchema[] = [
+      { id: 'accountType', type: 'select', label: 'Account type', options: [] },
+      { id: 'hasParentalConsent', type: 'checkbox', label: 'Parental consent' },
+      {
+        id: 'taxId',
+        type: 'text',
+        label: 'Tax ID',
+        validation: [{
+          type: 'required',
+          message: 'Tax ID is required for businesses',
+          when: { field: 'accountType', operator: 'equals', value: 'business' },
+        }],
+      },
+      {
+        id: 'age',
+        type: 'number',
+        label: 'Age',
+        validation: [{
+          type: 'min',
+          value: 18,
+          message: 'You must be 18 or older',
+          when: { not: { field: 'hasParentalConsent', operator: 'equals', value: true } },
+        }],
+      },
+    ];
+
+    it('should apply a rule only while its when condition holds', () => {
+      expect(validateFormSync(fields, { accountType: 'personal', age: 20 }).isValid).toBe(true);
+      expect(validateFormSync(fields, { accountType: 'business', age: 20 }).fieldErrors).toEqual({
+        taxId: ['Tax ID is required for businesses'],
+      });
+
+      expect(validateFormSync(fields, { age: 16 }).fieldErrors).toEqual({
+        age: ['You must be 18 or older'],
+      });
+      expect(validateFormSync(fields, { age: 16, hasParentalConsent: true }).isValid).toBe(true);
+    });
+
+    it('should treat fields read by when as dependencies', () => {
+      expect(getDependentFields(fields, 'accountType').map(f => f.id)).toEqual(['taxId']);
+      expect(getDependentFields(fields, 'hasParentalConsent').map(f => f.id)).toEqual(['age']);
+    });
+  });
+
+  describe('Trigger Context', () => {
+    it('should run each rule for its own trigger and every later one', () => {
+      const rules: ValidationRule[] = [
+        { type: 'minLength', value: 3, message: 'change rule' },
+        { type: 'email', message: 'blur rule', trigger: 'blur' },
+        { type: 'pattern', value: '^x', message: 'submit rule', trigger: 'submit' },
+      ];
+      const run = (value: string, trigger: 'change' | 'blur' | 'submit') =>
+        validateFieldSync('field', value, rules, {}, trigger).errors;
+
+      expect(run('ab', 'change')).toEqual(['change rule']);
+      expect(run('abc', 'change')).toEqual([]);
+      expect(run('abc', 'blur')).toEqual(['blur rule']);
+      expect(run('a@b.co', 'blur')).toEqual([]);
+      expect(run('a@b.co', 'submit')).toEqual(['submit rule']);
+      expect(shouldRunRule({ type: 'async', url: '/check' }, 'change')).toBe(false);
+    });
+  });
+
+  describe('Validation Modes', () => {
+    const rules: ValidationRule[] = [
+      { type: 'minLength', value: 8, message: 'Too short' },
+      { type: 'pattern', value: '[0-9]', message: 'Needs a digit' },
+    ];
+
+    it('should collect every failure tagged with its rule in allErrors mode', () => {
+      expect(validateFieldSync('password', 'abc', rules, {}).errors).toEqual(['Too short']);
+
+      const result = validateFieldSync('password', 'abc', rules, {}, 'submit', 'allErrors');
+      expect(result.errors).toEqual(['Too short', 'Needs a digit']);
+      expect(result.failures.map(f => f.rule)).toEqual(rules);
+    });
+
+    it('should let a field override the form mode', () => {
+      const fields: FieldSchema[] = [
+        { id: 'password', type: 'text', label: 'Password', validation: rules },
+        { id: 'pin', type: 'text', label: 'PIN', validation: rules, validationMode: 'firstError' },
+      ];
+
+      const result = validateFormSync(fields, { password: 'abc', pin: 'abc' }, { mode: 'allErrors' });
+      expect(result.fieldErrors).toEqual({
+        password: ['Too short', 'Needs a digit'],
+        pin: ['Too short'],
+      });
+      expect(result.fieldFailures.pin?.[0]?.rule).toBe(rules[0]);
+    });
+  });
+
+  describe('Validator Registry', () => {
+    it('should call registered sync validators with value, params and form values', () => {
+      const validator = vi.fn((value: unknown, params?: Record<string, unknown>) =>
+        String(value).length < (params?.length as number) ? 'Too weak' : null
+      );
+      const unregister = registerValidator('strongPassword', validator);
+
+      const rule: ValidationRule = { type: 'custom', validator: 'strongPassword', params: { length: 8 } };
+      expect(errorsFor('short', rule, { username: 'ada' })).toEqual(['Too weak']);
+      expect(validator).toHaveBeenCalledWith('short', { length: 8 }, { username: 'ada' });
+
+      unregister();
+      expect(getCustomValidator('strongPassword')).toBeUndefined();
+    });
+
+    it('should run registered async validators by name', async () => {
+      const unregister = registerAsyncValidator('uniqueEmail', async (value) =>
+        value === 'taken@example.com' ? 'Email is already registered' : null
+      );
+      const rule: AsyncRule = { type: 'async', validator: 'uniqueEmail' };
+
+      await expect(runAsyncRule(rule, 'taken@example.com', {})).resolves.toBe('Email is already registered');
+      await expect(runAsyncRule(rule, 'new@example.com', {})).resolves.toBeNull();
+      await expect(runAsyncRule({ ...rule, message: 'Already used' }, 'taken@example.com', {}))
+        .resolves.toBe('Already used');
+
+      unregister();
+    });
+
+    it('should prefer the rule message for URL rules and pass the signal to named validators', async () => {
+      const fetchMock = vi.fn().mockResolvedValue({
+        ok: true,
+        json: async () => ({ valid: false, message: 'Taken' }),
+      });
+      vi.stubGlobal('fetch', fetchMock);
+      const urlRule: AsyncRule = { type: 'async', url: '/api/check-email' };
+
+      await expect(runAsyncRule(urlRule, 'a@b.co', {})).resolves.toBe('Taken');
+      await expect(runAsyncRule({ ...urlRule, message: 'Already used' }, 'a@b.co', {}))
+        .resolves.toBe('Already used');
+      vi.unstubAllGlobals();
+
+      const validator = vi.fn(async () => null);
+      const unregister = registerAsyncValidator('uniqueEmail', validator);
+      const controller = new AbortController();
+
+      await runAsyncRule({ type: 'async', validator: 'uniqueEmail' }, 'a@b.co', {}, controller.signal);
+      expect(validator).toHaveBeenCalledWith('a@b.co', {}, {}, controller.signal);
+
+      unregister();
+    });
+
+    it('should apply the async error policy when the validator throws', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      const flaky = vi.fn()
+        .mockRejectedValueOnce(new Error('offline'))
+        .mockResolvedValue('Email is already registered');
+      const unregister = registerAsyncValidator('flaky', flaky);
+      const rule: AsyncRule = { type: 'async', validator: 'flaky' };
+
+      await expect(validateAsyncRule(rule, 'a@b.co', {})).resolves.toBeNull();
+      flaky.mockRejectedValueOnce(new Error('offline'));
+      await expect(validateAsyncRule({ ...rule, onError: 'failClosed' }, 'a@b.co', {}))
+        .resolves.toBe(ASYNC_UNAVAILABLE_MESSAGE);
+      flaky.mockRejectedValueOnce(new Error('offline'));
+      await expect(validateAsyncRule({ ...rule, onError: 'retry' }, 'a@b.co', {}))
+        .resolves.toBe('Email is already registered');
+
+      unregister();
+      vi.restoreAllMocks();
+    });
+
+    it('should back off between retries and stop waiting once aborted', async () => {
+      vi.useFakeTimers();
+      const flaky = vi.fn()
+        .mockRejectedValueOnce(new Error('offline'))
+        .mockRejectedValueOnce(new Error('offline'))
+        .mockResolvedValue(null);
+      const unregister = registerAsyncValidator('flaky', flaky);
+      const rule: AsyncRule = { type: 'async', validator: 'flaky', onError: 'retry', retryDelayMs: 100 };
+
+      const result = validateAsyncRule(rule, 'a@b.co', {});
+      await vi.advanceTimersByTimeAsync(99);
+      expect(flaky).toHaveBeenCalledTimes(1);
+      await vi.advanceTimersByTimeAsync(1);
+      expect(flaky).toHaveBeenCalledTimes(2);
+      // The second wait is twice as long
+      await vi.advanceTimersByTimeAsync(199);
+      expect(flaky).toHaveBeenCalledTimes(2);
+      await vi.advanceTimersByTimeAsync(1);
+      await expect(result).resolves.toBeNull();
+
+      flaky.mockRejectedValueOnce(new Error('offline'));
+      const controller = new AbortController();
+      const aborted = validateAsyncRule(rule, 'a@b.co', {}, controller.signal);
+      const rejection = expect(aborted).rejects.toMatchObject({ name: 'AbortError' });
+      await vi.advanceTimersByTimeAsync(50);
+      controller.abort();
+      await rejection;
+      expect(flaky).toHaveBeenCalledTimes(4);
+
+      unregister();
+      vi.useRealTimers();
+    });
+  });
+
+  describe('Dependent Re-validation', () => {
+    const schema: FormSchema = {
+      id: 'dependents',
+      title: 'Dependents',
+      sections: [
+        {
+          id: 'main',
+          fields: [
+            { id: 'password', type: 'text', label: 'Password' },
+            {
+              id: 'confirm',
+              type: 'text',
+              label: 'Confirm',
+              validation: [{ type: 'matchesField', field: 'password', message: 'Passwords do not match' }],
+            },
+          ],
+        },
+      ],
+    };
+
+    const accountsSchema: FormSchema = {
+      id: 'accounts',
+      title: 'Accounts',
+      sections: [
+        {
+          id: 'acc',
+          repeatable: true,
+          fields: [
+            { id: 'pw', type: 'text', label: 'Password' },
+            {
+              id: 'confirm',
+              type: 'text',
+              label: 'Confirm',
+              validation: [{ type: 'matchesField', field: 'pw', message: 'Mismatch' }],
+            },
+          ],
+        },
+      ],
+    };
+
+    function Harness({
+      formSchema = schema,
+      passwordId = 'password',
+      confirmId = 'confirm',
+    }: { formSchema?: FormSchema; passwordId?: string; confirmId?: string }) {
+      const password = useField(passwordId);
+      const confirm = useField(confirmId);
+      const confirmRules = formSchema.sections[0]?.fields[1]?.validation;
+      const passwordValidation = useFieldValidation({ fieldId: passwordId });
+      const confirmValidation = useFieldValidation({ fieldId: confirmId, rules: confirmRules });
+
+      return (
+        <div>
+          <button onClick={() => {
+            password.setValue('secret');
+            void passwordValidation.validate('secret');
+          }}>
+            set password
+          </button>
+          <button onClick={() => {
+            confirm.setValue('secrets');
+            confirm.setTouched(true);
+            void confirmValidation.validate('secrets');
+          }}>
+            set confirm
+          </button>
+          <button onClick={() => {
+            password.setValue('secrets');
+            void passwordValidation.validate('secrets');
+          }}>
+            fix password
+          </button>
+          <output data-testid="confirm-error">{confirm.error ?? ''}</output>
+        </div>
+      );
+    }
+
+    it('should re-validate touched dependents when the referenced field changes', async () => {
+      render(
+        <FormProvider schema={schema}>
+          <Harness />
+        </FormProvider>
+      );
+
+      await act(async () => screen.getByText('set password').click());
+      await act(async () => screen.getByText('set confirm').click());
+      expect(screen.getByTestId('confirm-error')).toHaveTextContent('Passwords do not match');
+
+      await act(async () => screen.getByText('fix password').click());
+      expect(screen.getByTestId('confirm-error')).toHaveTextContent('');
+    });
+
+    it('should re-validate the dependent in the same repeatable instance', async () => {
+      render(
+        <FormProvider schema={accountsSchema}>
+          <Harness formSchema={accountsSchema} passwordId="acc[0].pw" confirmId="acc[0].confirm" />
+        </FormProvider>
+      );
+
+      await act(async () => screen.getByText('set password').click());
+      await act(async () => screen.getByText('set confirm').click());
+      expect(screen.getByTestId('confirm-error')).toHaveTextContent('Mismatch');
+
+      await act(async () => screen.getByText('fix password').click());
+      expect(screen.getByTestId('confirm-error')).toHaveTextContent('');
+    });
+  });
+});
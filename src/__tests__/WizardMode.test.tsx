@@ -0,0 +1,146 @@
+/**
+ * WIZARD MODE UNIT TESTS
+ * 
+ * Tests multi-step FormRenderer behavior:
+ * - Per-step validation blocks Next
+ * - Hidden sections are skipped
+ * - Step index restored from initialStep and reported to onAutosave
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { FormRenderer } from '@/components/form';
+import type { FormSchema } from '@/schema/types';
+
+const wizardSchema: FormSchema = {
+  id: 'wizard-test',
+  title: 'Onboarding',
+  sections: [
+    {
+      id: 'account',
+      title: 'Account',
+      fields: [
+        {
+          id: 'name',
+          type: 'text',
+          label: 'Name',
+          validation: [{ type: 'required', message: 'Name is required' }],
+        },
+        {
+          id: 'isBusiness',
+          type: 'checkbox',
+          label: 'Business account',
+        },
+      ],
+    },
+    {
+      id: 'business',
+      title: 'Business',
+      showWhen: { field: 'isBusiness', operator: 'equals', value: true },
+      fields: [
+        {
+          id: 'company',
+          type: 'text',
+          label: 'Company',
+          validation: [{ type: 'required', message: 'Company is required' }],
+        },
+      ],
+    },
+    {
+      id: 'finish',
+      title: 'Finish',
+      fields: [{ id: 'notes', type: 'textarea', label: 'Notes' }],
+    },
+  ],
+};
+
+describe('Wizard Mode', () => {
+  it('should block Next until the current step is valid', async () => {
+    const user = userEvent.setup();
+
+    render(<FormRenderer schema={wizardSchema} mode="wizard" />);
+
+    expect(screen.getByText('Step 1 of 2')).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: /submit/i })).not.toBeInTheDocument();
+
+    await user.click(screen.getByRole('button', { name: /next/i }));
+
+    await waitFor(() => {
+      expect(screen.getByText('Name is required')).toBeInTheDocument();
+    });
+    expect(screen.getByText('Step 1 of 2')).toBeInTheDocument();
+
+    await user.type(screen.getByLabelText(/name/i), 'Ada');
+    await user.click(screen.getByRole('button', { name: /next/i }));
+
+    expect(screen.getByText('Step 2 of 2')).toBeInTheDocument();
+    expect(screen.getByLabelText(/notes/i)).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: /submit/i })).toBeInTheDocument();
+  });
+
+  it('should include steps whose section condition holds', async () => {
+    const user = userEvent.setup();
+
+    render(<FormRenderer schema={wizardSchema} mode="wizard" />);
+
+    await user.type(screen.getByLabelText(/name/i), 'Ada');
+    await user.click(screen.getByLabelText(/business account/i));
+
+    expect(screen.getByText('Step 1 of 3')).toBeInTheDocument();
+
+    await user.click(screen.getByRole('button', { name: /next/i }));
+    expect(screen.getByLabelText(/company/i)).toBeInTheDocument();
+
+    await user.click(screen.getByRole('button', { name: /back/i }));
+    expect(screen.getByLabelText(/name/i)).toHaveValue('Ada');
+  });
+
+  it('should restore the step from initialStep and submit from the last step', async () => {
+    const onSubmit = vi.fn();
+    const user = userEvent.setup();
+
+    render(
+      <FormRenderer
+        schema={wizardSchema}
+        mode="wizard"
+        initialStep={2}
+        initialValues={{ name: 'Ada' }}
+        onSubmit={onSubmit}
+      />
+    );
+
+    expect(screen.getByLabelText(/notes/i)).toBeInTheDocument();
+
+    await user.click(screen.getByRole('button', { name: /submit/i }));
+
+    await waitFor(() => {
+      expect(onSubmit).toHaveBeenCalledWith(expect.objectContaining({ name: 'Ada' }));
+    });
+  });
+
+  it('should pass the current step to onAutosave', async () => {
+    const onAutosave = vi.fn().mockResolvedValue(undefined);
+    const user = userEvent.setup();
+
+    render(
+      <FormRenderer
+        schema={wizardSchema}
+        mode="wizard"
+        autosave
+        autosaveDelay={10}
+        onAutosave={onAutosave}
+      />
+    );
+
+    await user.type(screen.getByLabelText(/name/i), 'Ada');
+    await user.click(screen.getByRole('button', { name: /next/i }));
+
+    await waitFor(() => {
+      expect(onAutosave).toHaveBeenLastCalledWith(
+        expect.objectContaining({ name: 'Ada' }),
+        { currentStep: 2 }
+      );
+    });
+  });
+});
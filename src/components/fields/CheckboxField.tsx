@@ -7,6 +7,7 @@
  */
 
 import { useField } from '@/state';
+import { useFieldValidation } from '@/hooks';
 import { Checkbox, ErrorMessage } from '@/components/primitives';
 import type { CheckboxFieldSchema } from '@/schema/types';
 
@@ -32,6 +33,7 @@ export interface CheckboxFieldProps {
  */
 export function CheckboxField({ schema, isVisible = true }: CheckboxFieldProps) {
   const { value, error, touched, setValue, setTouched } = useField(schema.id);
+  const { validate } = useFieldValidation({ fieldId: schema.id, rules: schema.validation });
 
   if (!isVisible) return null;
 
@@ -41,9 +43,13 @@ export function CheckboxField({ schema, isVisible = true }: CheckboxFieldProps)
   // Handle checkbox-specific change
   const handleCheckboxChange = (checked: boolean) => {
     setValue(checked);
+    void validate(checked, 'change');
   };
   
-  const handleBlur = () => setTouched(true);
+  const handleBlur = () => {
+    setTouched(true);
+    void validate(value, 'blur');
+  };
 
   return (
     <div className="mb-4">
@@ -54,7 +60,7 @@ export function CheckboxField({ schema, isVisible = true }: CheckboxFieldProps)
         onChange={handleCheckboxChange}
         onBlur={handleBlur}
         label={schema.label}
-        disabled={schema.disabled}
+        disabled={schema.disabled || schema.readOnly || schema.computed !== undefined}
         hasError={!!showError}
         errorId={showError ? errorId : undefined}
       />
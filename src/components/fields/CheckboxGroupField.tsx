@@ -0,0 +1,93 @@
+/**
+ * CHECKBOX GROUP FIELD COMPONENT
+ *
+ * Schema-aware "select all that apply" group with:
+ * - Static or async options
+ * - string[] values (checked option values)
+ * - Group-level required/minSelected/maxSelected validation display
+ */
+
+import { useField } from '@/state';
+import { useFieldValidation, useFieldOptions } from '@/hooks';
+import { CheckboxGroup, ErrorMessage, HelperText } from '@/components/primitives';
+import type { CheckboxGroupFieldSchema } from '@/schema/types';
+
+export interface CheckboxGroupFieldProps {
+  /** Field schema from form definition */
+  schema: CheckboxGroupFieldSchema;
+  /** Whether field should be visible (from condition evaluation) */
+  isVisible?: boolean;
+}
+
+/**
+ * Checkbox group field connected to form state.
+ *
+ * @example
+ * <CheckboxGroupField
+ *   schema={{
+ *     id: 'interests',
+ *     type: 'checkboxGroup',
+ *     label: 'Interests',
+ *     options: [
+ *       { value: 'news', label: 'News' },
+ *       { value: 'events', label: 'Events' },
+ *     ],
+ *     validation: [{ type: 'required' }, { type: 'maxSelected', value: 2 }],
+ *   }}
+ * />
+ */
+export function CheckboxGroupField({ schema, isVisible = true }: CheckboxGroupFieldProps) {
+  const { value, error, touched, setValue, setTouched } = useField(schema.id);
+  const { validate } = useFieldValidation({ fieldId: schema.id, rules: schema.validation });
+  const { options, isLoading, error: loadError } = useFieldOptions(schema);
+
+  if (!isVisible) return null;
+
+  const isRequired = schema.validation?.some(rule => rule.type === 'required') ?? false;
+  const errorId = `${schema.id}-error`;
+  const helperId = `${schema.id}-helper`;
+  const showError = touched && error;
+  const helperText = isLoading ? 'Loading options...' : schema.helperText || schema.helpText;
+  const checked = Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+
+  // Handlers
+  const handleChange = (newValue: string[]) => {
+    setValue(newValue);
+    void validate(newValue, 'change');
+  };
+
+  const handleBlur = () => {
+    setTouched(true);
+    void validate(value, 'blur');
+  };
+
+  return (
+    <div className="mb-4">
+      <CheckboxGroup
+        id={schema.id}
+        legend={schema.label}
+        options={options}
+        value={checked}
+        onChange={handleChange}
+        onBlur={handleBlur}
+        required={isRequired}
+        disabled={schema.disabled || schema.readOnly || schema.computed !== undefined}
+        hasError={!!showError}
+        describedBy={showError ? errorId : helperText ? helperId : undefined}
+        inline={schema.inline}
+      />
+
+      {helperText && !showError && (
+        <HelperText id={helperId}>{helperText}</HelperText>
+      )}
+
+      {showError && (
+        <ErrorMessage id={errorId}>{error}</ErrorMessage>
+      )}
+
+      {loadError && !showError && (
+        <ErrorMessage id={`${schema.id}-load-error`}>{loadError}</ErrorMessage>
+      )}
+    </div>
+  );
+}
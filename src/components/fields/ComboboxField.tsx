@@ -0,0 +1,149 @@
+/**
+ * COMBOBOX FIELD COMPONENT
+ *
+ * Schema-aware searchable select with:
+ * - Local filtering of static options, or server search via
+ *   `asyncOptions.searchParam` (debounced, stale requests cancelled)
+ * - Highlighted matches and a "no results" message
+ * - Optional free text
+ *
+ * With server search, a value the user didn't pick in this session (initial
+ * values, restored drafts) shows as the raw value: the label is only known
+ * from search results, and there is no lookup by value.
+ */
+
+import { useMemo, useState } from 'react';
+import { useField } from '@/state';
+import { useFieldValidation, useFieldOptions } from '@/hooks';
+import {
+  Combobox,
+  Label,
+  ErrorMessage,
+  HelperText,
+  type SelectOption,
+} from '@/components/primitives';
+import type { ComboboxFieldSchema } from '@/schema/types';
+
+export interface ComboboxFieldProps {
+  /** Field schema from form definition */
+  schema: ComboboxFieldSchema;
+  /** Whether field should be visible (from condition evaluation) */
+  isVisible?: boolean;
+}
+
+/**
+ * Combobox field connected to form state.
+ *
+ * @example
+ * <ComboboxField
+ *   schema={{
+ *     id: 'city',
+ *     type: 'combobox',
+ *     label: 'City',
+ *     asyncOptions: { url: '/api/cities', searchParam: 'q' },
+ *     validation: [{ type: 'required' }],
+ *   }}
+ * />
+ */
+export function ComboboxField({ schema, isVisible = true }: ComboboxFieldProps) {
+  const { value, error, touched, setValue, setTouched } = useField(schema.id);
+  const { validate } = useFieldValidation({ fieldId: schema.id, rules: schema.validation });
+
+  // Text being typed; null while the input shows the selected option
+  const [query, setQuery] = useState<string | null>(null);
+  // Last picked option, so server results can be replaced without losing its label
+  const [picked, setPicked] = useState<SelectOption | null>(null);
+
+  const isServerSearch = !!schema.asyncOptions?.searchParam;
+  const { options, isLoading, error: loadError } = useFieldOptions(schema, query ?? '');
+  const maxResults = schema.maxResults ?? 50;
+
+  // Memoized so the listbox's active option survives unrelated re-renders
+  const results = useMemo(() => {
+    const text = (query ?? '').trim().toLowerCase();
+    const matches = isServerSearch || !text
+      ? options
+      : options.filter(option => option.label.toLowerCase().includes(text));
+    return matches.slice(0, maxResults);
+  }, [options, query, isServerSearch, maxResults]);
+
+  if (!isVisible) return null;
+
+  const isRequired = schema.validation?.some(rule => rule.type === 'required') ?? false;
+  const errorId = `${schema.id}-error`;
+  const helperId = `${schema.id}-helper`;
+  const showError = touched && error;
+  const helperText = schema.helperText || schema.helpText;
+
+  const selectedValue = typeof value === 'string' || typeof value === 'number' ? value : null;
+  const selectedOption = selectedValue === null || selectedValue === ''
+    ? undefined
+    : options.find(option => String(option.value) === String(selectedValue))
+      ?? (picked && String(picked.value) === String(selectedValue) ? picked : undefined);
+  const selectedLabel = selectedOption?.label ?? (selectedValue === null ? '' : String(selectedValue));
+
+  // Handlers
+  const handleInputChange = (text: string) => {
+    setQuery(text);
+    if (schema.allowFreeText) {
+      setValue(text);
+      void validate(text, 'change');
+    }
+  };
+
+  const handleSelect = (option: SelectOption) => {
+    setQuery(null);
+    setPicked(option);
+    setValue(option.value);
+    void validate(option.value, 'change');
+  };
+
+  const handleBlur = () => {
+    // Without free text, an emptied input clears the value; other text is discarded
+    const cleared = !schema.allowFreeText && query !== null && query.trim() === '';
+    if (cleared) setValue('');
+
+    setQuery(null);
+    setTouched(true);
+    void validate(cleared ? '' : value, 'blur');
+  };
+
+  return (
+    <div className="mb-4">
+      <Label htmlFor={schema.id} required={isRequired} className="mb-1">
+        {schema.label}
+      </Label>
+
+      <Combobox
+        id={schema.id}
+        inputValue={query ?? selectedLabel}
+        onInputChange={handleInputChange}
+        options={results}
+        onSelect={handleSelect}
+        onCommit={schema.allowFreeText ? () => setQuery(null) : undefined}
+        onBlur={handleBlur}
+        selectedValue={selectedValue}
+        listLabel={schema.label}
+        isLoading={isLoading}
+        noResultsText={schema.noResultsText}
+        placeholder={schema.placeholder}
+        disabled={schema.disabled}
+        readOnly={schema.readOnly || schema.computed !== undefined}
+        hasError={!!showError || !!loadError}
+        describedBy={showError ? errorId : helperText ? helperId : undefined}
+      />
+
+      {helperText && !showError && (
+        <HelperText id={helperId}>{helperText}</HelperText>
+      )}
+
+      {showError && (
+        <ErrorMessage id={errorId}>{error}</ErrorMessage>
+      )}
+
+      {loadError && !showError && (
+        <ErrorMessage id={`${schema.id}-load-error`}>{loadError}</ErrorMessage>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+/**
+ * DATE FIELD COMPONENT
+ *
+ * Schema-aware date, time and datetime input with:
+ * - Native pickers (date, time, datetime-local)
+ * - ISO string values, stored as the picker produces them
+ * - Absolute or relative min/max ('today', 'today+30d')
+ */
+
+import { useField } from '@/state';
+import { useFieldValidation } from '@/hooks';
+import { Input, Label, ErrorMessage, HelperText } from '@/components/primitives';
+import { resolveDateBound } from '@/utils/date';
+import type { DateFieldSchema } from '@/schema/types';
+
+export interface DateFieldProps {
+  /** Field schema from form definition */
+  schema: DateFieldSchema;
+  /** Whether field should be visible (from condition evaluation) */
+  isVisible?: boolean;
+}
+
+const inputTypes: Record<DateFieldSchema['type'], string> = {
+  date: 'date',
+  time: 'time',
+  datetime: 'datetime-local',
+};
+
+/**
+ * Date field connected to form state.
+ *
+ * @example
+ * <DateField
+ *   schema={{
+ *     id: 'startDate',
+ *     type: 'date',
+ *     label: 'Start date',
+ *     min: 'today',
+ *     max: 'today+30d',
+ *     validation: [{ type: 'required' }, { type: 'minDate', value: 'today' }],
+ *   }}
+ * />
+ */
+export function DateField({ schema, isVisible = true }: DateFieldProps) {
+  const { value, error, touched, setValue, setTouched } = useField(schema.id);
+  const { validate } = useFieldValidation({ fieldId: schema.id, rules: schema.validation });
+
+  if (!isVisible) return null;
+
+  const isRequired = schema.validation?.some(rule => rule.type === 'required') ?? false;
+  const errorId = `${schema.id}-error`;
+  const helperId = `${schema.id}-helper`;
+  const showError = touched && error;
+  const helperText = schema.helperText || schema.helpText;
+
+  // Relative bounds are resolved on render, so 'today' follows the clock
+  const min = schema.min ? resolveDateBound(schema.min, schema.type) ?? undefined : undefined;
+  const max = schema.max ? resolveDateBound(schema.max, schema.type) ?? undefined : undefined;
+
+  // Handlers
+  const handleChange = (newValue: string) => {
+    setValue(newValue);
+    void validate(newValue, 'change');
+  };
+
+  const handleBlur = () => {
+    setTouched(true);
+    void validate(value, 'blur');
+  };
+
+  return (
+    <div className="mb-4">
+      <Label htmlFor={schema.id} required={isRequired} className="mb-1">
+        {schema.label}
+      </Label>
+
+      <Input
+        id={schema.id}
+        name={schema.id}
+        type={inputTypes[schema.type]}
+        value={typeof value === 'string' ? value : ''}
+        onChange={handleChange}
+        onBlur={handleBlur}
+        placeholder={schema.placeholder}
+        disabled={schema.disabled}
+        readOnly={schema.readOnly || schema.computed !== undefined}
+        hasError={!!showError}
+        errorId={showError ? errorId : undefined}
+        aria-describedby={showError ? errorId : helperText ? helperId : undefined}
+        min={min}
+        max={max}
+        step={schema.step}
+      />
+
+      {helperText && !showError && (
+        <HelperText id={helperId}>{helperText}</HelperText>
+      )}
+
+      {showError && (
+        <ErrorMessage id={errorId}>{error}</ErrorMessage>
+      )}
+    </div>
+  );
+}
@@ -6,14 +6,24 @@
  * 
  * This is the central dispatch for field rendering -
  * it examines field.type and renders the correct component.
+ * Effects (disableWhen, readOnlyWhen, requireWhen) are folded into the
+ * schema here, so field components only read disabled/readOnly/validation.
  */
 
+import { useMemo } from 'react';
+import { useFieldEffects } from '@/hooks';
+import type { FieldEffectState } from '@/schema/resolver';
 import type { FieldSchema } from '@/schema/types';
 import { TextField } from './TextField';
 import { NumberField } from './NumberField';
 import { SelectField } from './SelectField';
 import { CheckboxField } from './CheckboxField';
+import { RadioField } from './RadioField';
+import { CheckboxGroupField } from './CheckboxGroupField';
+import { ComboboxField } from './ComboboxField';
 import { TextareaField } from './TextareaField';
+import { DateField } from './DateField';
+import { FileField } from './FileField';
 
 export interface FieldRendererProps {
   /** Field schema to render */
@@ -32,7 +42,10 @@ export interface FieldRendererProps {
  *   isVisible={true}
  * />
  */
-export function FieldRenderer({ schema, isVisible = true }: FieldRendererProps) {
+export function FieldRenderer({ schema: baseSchema, isVisible = true }: FieldRendererProps) {
+  const effects = useFieldEffects(baseSchema);
+  const schema = useMemo(() => withEffects(baseSchema, effects), [baseSchema, effects]);
+
   // Don't render if not visible
   if (!isVisible) return null;
 
@@ -50,9 +63,26 @@ export function FieldRenderer({ schema, isVisible = true }: FieldRendererProps)
     case 'checkbox':
       return <CheckboxField schema={schema} isVisible={isVisible} />;
     
+    case 'radio':
+      return <RadioField schema={schema} isVisible={isVisible} />;
+    
+    case 'checkboxGroup':
+      return <CheckboxGroupField schema={schema} isVisible={isVisible} />;
+    
+    case 'combobox':
+      return <ComboboxField schema={schema} isVisible={isVisible} />;
+    
     case 'textarea':
       return <TextareaField schema={schema} isVisible={isVisible} />;
     
+    case 'date':
+    case 'time':
+    case 'datetime':
+      return <DateField schema={schema} isVisible={isVisible} />;
+    
+    case 'file':
+      return <FileField schema={schema} isVisible={isVisible} />;
+    
     default: {
       // TypeScript exhaustiveness check
       // This ensures we handle all field types
@@ -62,3 +92,22 @@ export function FieldRenderer({ schema, isVisible = true }: FieldRendererProps)
     }
   }
 }
+
+/**
+ * The schema with effect-driven flags applied. An active requireWhen adds
+ * an unconditional `required` rule, so the label marker and live
+ * validation follow the condition.
+ */
+function withEffects(schema: FieldSchema, { disabled, readOnly, required }: FieldEffectState): FieldSchema {
+  if (!disabled && !readOnly && !required) return schema;
+
+  const validation = schema.validation ?? [];
+  const isRequired = validation.some(rule => rule.type === 'required' && !rule.when);
+
+  return {
+    ...schema,
+    disabled: schema.disabled || disabled,
+    readOnly: schema.readOnly || readOnly,
+    validation: required && !isRequired ? [{ type: 'required' }, ...validation] : schema.validation,
+  };
+}
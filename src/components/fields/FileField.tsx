@@ -0,0 +1,251 @@
+/**
+ * FILE FIELD COMPONENT
+ *
+ * Schema-aware file upload with:
+ * - Picking or drag-and-drop, checked against accept/maxSizeBytes/maxFiles
+ * - Immediate upload through a registered adapter (progress, cancel, retry)
+ * - Uploaded file references as the value, so drafts stay serializable
+ * - Uploads in progress reported to form state, so submit waits for them
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { useField, useFormDispatch } from '@/state';
+import { formActions } from '@/state/actions';
+import { useFieldValidation, useFileUploads, type PendingUpload } from '@/hooks';
+import { FileDropzone, Button, Label, ErrorMessage, HelperText } from '@/components/primitives';
+import { matchesAccept, formatBytes } from '@/uploads';
+import { announce } from '@/utils/a11y';
+import type { FieldValue, FileFieldSchema, UploadedFile } from '@/schema/types';
+
+export interface FileFieldProps {
+  /** Field schema from form definition */
+  schema: FileFieldSchema;
+  /** Whether field should be visible (from condition evaluation) */
+  isVisible?: boolean;
+}
+
+/**
+ * File field connected to form state.
+ *
+ * @example
+ * <FileField
+ *   schema={{
+ *     id: 'resume',
+ *     type: 'file',
+ *     label: 'Resume',
+ *     accept: '.pdf,.docx',
+ *     maxSizeBytes: 5 * 1024 * 1024,
+ *     validation: [{ type: 'required' }],
+ *   }}
+ * />
+ */
+export function FileField({ schema, isVisible = true }: FileFieldProps) {
+  const { value, error, touched, setValue, setTouched, clearError } = useField(schema.id);
+  const dispatch = useFormDispatch();
+  const { validate } = useFieldValidation({ fieldId: schema.id, rules: schema.validation });
+  const [rejections, setRejections] = useState<string[]>([]);
+
+  const files = toUploadedFiles(value);
+  // Latest list, so uploads finishing together don't overwrite each other
+  const filesRef = useRef(files);
+  filesRef.current = files;
+
+  const changeFiles = (next: UploadedFile[]) => {
+    filesRef.current = next;
+    setValue(next);
+    void validate(next, 'change');
+  };
+
+  const { uploads, upload, cancel, retry } = useFileUploads({
+    adapter: schema.adapter,
+    onUploaded: file => {
+      changeFiles([...filesRef.current, file]);
+      announce(`${file.name} uploaded`);
+    },
+  });
+
+  // Submit is blocked while uploads are running (uploads abort on unmount)
+  const uploadingCount = uploads.filter(item => item.status === 'uploading').length;
+  useEffect(() => {
+    dispatch(formActions.setFieldPendingUploads(schema.id, uploadingCount));
+  }, [dispatch, schema.id, uploadingCount]);
+  useEffect(() => () => {
+    dispatch(formActions.setFieldPendingUploads(schema.id, 0));
+  }, [dispatch, schema.id]);
+
+  if (!isVisible) return null;
+
+  const isRequired = schema.validation?.some(rule => rule.type === 'required') ?? false;
+  const errorId = `${schema.id}-error`;
+  const helperId = `${schema.id}-helper`;
+  const showError = touched && error;
+  const helperText = schema.helperText || schema.helpText;
+  const isDisabled = schema.disabled || schema.readOnly || schema.computed !== undefined;
+
+  const maxFiles = schema.maxFiles ?? 1;
+  const room = maxFiles - files.length - uploads.length;
+  const hint = [
+    schema.accept?.split(',').map(type => type.trim()).join(', '),
+    schema.maxSizeBytes !== undefined ? `up to ${formatBytes(schema.maxSizeBytes)}` : undefined,
+    maxFiles > 1 ? `${maxFiles} files max` : undefined,
+  ].filter(Boolean).join(' · ');
+
+  // Handlers
+  const handleFiles = (picked: File[]) => {
+    const problems: string[] = [];
+    let remaining = room;
+
+    const accepted = picked.filter(file => {
+      if (schema.accept && !matchesAccept(file, schema.accept)) {
+        problems.push(`${file.name} is not an accepted file type`);
+      } else if (schema.maxSizeBytes !== undefined && file.size > schema.maxSizeBytes) {
+        problems.push(`${file.name} is larger than ${formatBytes(schema.maxSizeBytes)}`);
+      } else if (remaining <= 0) {
+        problems.push(`${file.name} was not added: at most ${maxFiles} file${maxFiles === 1 ? '' : 's'} allowed`);
+      } else {
+        remaining--;
+        return true;
+      }
+      return false;
+    });
+
+    setRejections(problems);
+    if (accepted.length > 0) {
+      // A "required" error from before no longer applies
+      clearError();
+      upload(accepted);
+    }
+  };
+
+  const handleRemove = (file: UploadedFile) => {
+    setRejections([]);
+    changeFiles(files.filter(item => item.id !== file.id));
+  };
+
+  const handleBlur = () => {
+    setTouched(true);
+    // Finished uploads validate the field; until then it isn't empty, just pending
+    if (uploadingCount === 0) void validate(value, 'blur');
+  };
+
+  return (
+    <div className="mb-4">
+      <Label htmlFor={schema.id} required={isRequired} className="mb-1">
+        {schema.label}
+      </Label>
+
+      <FileDropzone
+        id={schema.id}
+        onFiles={handleFiles}
+        accept={schema.accept}
+        multiple={maxFiles > 1}
+        onBlur={handleBlur}
+        hint={hint || undefined}
+        disabled={isDisabled || room <= 0}
+        hasError={!!showError}
+        describedBy={showError ? errorId : helperText ? helperId : undefined}
+      />
+
+      {(files.length > 0 || uploads.length > 0) && (
+        <ul aria-label={`${schema.label} files`} className="mt-2 space-y-2">
+          {files.map(file => (
+            <li key={file.id} className="flex items-center gap-2 text-sm text-gray-900">
+              <span className="flex-1 truncate">{file.name}</span>
+              <span className="text-gray-500">{formatBytes(file.size)}</span>
+              {!isDisabled && (
+                <Button variant="ghost" size="sm" onClick={() => handleRemove(file)} aria-label={`Remove ${file.name}`}>
+                  Remove
+                </Button>
+              )}
+            </li>
+          ))}
+
+          {uploads.map(item => (
+            <PendingUploadItem
+              key={item.key}
+              item={item}
+              onCancel={() => cancel(item.key)}
+              onRetry={() => retry(item.key)}
+            />
+          ))}
+        </ul>
+      )}
+
+      {helperText && !showError && (
+        <HelperText id={helperId}>{helperText}</HelperText>
+      )}
+
+      {showError && (
+        <ErrorMessage id={errorId}>{error}</ErrorMessage>
+      )}
+
+      {rejections.map((message, index) => (
+        <ErrorMessage key={message} id={`${schema.id}-rejected-${index}`}>{message}</ErrorMessage>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Row of an upload in progress (progress bar, cancel) or a failed one
+ * (error, retry).
+ */
+function PendingUploadItem({
+  item,
+  onCancel,
+  onRetry,
+}: {
+  item: PendingUpload;
+  onCancel: () => void;
+  onRetry: () => void;
+}) {
+  const { file, status, progress, error } = item;
+  const percent = Math.round(progress * 100);
+
+  return (
+    <li className="text-sm text-gray-900">
+      <div className="flex items-center gap-2">
+        <span className="flex-1 truncate">{file.name}</span>
+        {status === 'failed' && (
+          <Button variant="ghost" size="sm" onClick={onRetry} aria-label={`Retry ${file.name}`}>
+            Retry
+          </Button>
+        )}
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onCancel}
+          aria-label={status === 'uploading' ? `Cancel upload of ${file.name}` : `Remove ${file.name}`}
+        >
+          {status === 'uploading' ? 'Cancel' : 'Remove'}
+        </Button>
+      </div>
+
+      {status === 'uploading' ? (
+        <div
+          role="progressbar"
+          aria-label={`Uploading ${file.name}`}
+          aria-valuemin={0}
+          aria-valuemax={100}
+          aria-valuenow={percent}
+          className="mt-1 h-1.5 w-full overflow-hidden rounded-full bg-gray-200"
+        >
+          <div className="h-full bg-blue-500 transition-all duration-150" style={{ width: `${percent}%` }} />
+        </div>
+      ) : (
+        <p role="alert" className="mt-1 text-error-600">
+          {error}
+        </p>
+      )}
+    </li>
+  );
+}
+
+/**
+ * File references in a field value (anything else is ignored).
+ */
+function toUploadedFiles(value: FieldValue): UploadedFile[] {
+  if (!Array.isArray(value)) return [];
+  return (value as unknown[]).filter((item): item is UploadedFile =>
+    typeof item === 'object' && item !== null && typeof (item as UploadedFile).id === 'string');
+}
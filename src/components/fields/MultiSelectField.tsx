@@ -0,0 +1,133 @@
+/**
+ * MULTI-SELECT FIELD COMPONENT
+ *
+ * Schema-aware select for `multiple: true` with:
+ * - string[] values
+ * - Selected values shown as removable tags
+ * - Select all / clear actions
+ * - Static or async options (via useFieldOptions)
+ */
+
+import { useField } from '@/state';
+import { useFieldValidation, useFieldOptions } from '@/hooks';
+import {
+  Select,
+  TagList,
+  Button,
+  Label,
+  ErrorMessage,
+  HelperText,
+  type SelectOption,
+} from '@/components/primitives';
+import type { SelectFieldProps } from './SelectField';
+
+/**
+ * Multi-select field connected to form state.
+ * Rendered by SelectField when the schema sets `multiple`.
+ *
+ * @example
+ * <MultiSelectField
+ *   schema={{
+ *     id: 'languages',
+ *     type: 'select',
+ *     label: 'Languages',
+ *     multiple: true,
+ *     options: [
+ *       { value: 'en', label: 'English' },
+ *       { value: 'fr', label: 'French' },
+ *     ],
+ *     validation: [{ type: 'minItems', value: 1 }],
+ *   }}
+ * />
+ */
+export function MultiSelectField({ schema, isVisible = true }: SelectFieldProps) {
+  const { value, error, touched, setValue, setTouched } = useField(schema.id);
+  const { validate } = useFieldValidation({ fieldId: schema.id, rules: schema.validation });
+  const { options, isLoading, error: loadError } = useFieldOptions(schema);
+
+  if (!isVisible) return null;
+
+  const isRequired = schema.validation?.some(rule => rule.type === 'required') ?? false;
+  const errorId = `${schema.id}-error`;
+  const helperId = `${schema.id}-helper`;
+  const showError = touched && error;
+  const helperText = isLoading ? 'Loading options...' : schema.helperText || schema.helpText;
+  const isDisabled = schema.disabled || schema.readOnly || schema.computed !== undefined || isLoading;
+
+  // Values not among the options (e.g. before async options load) keep their raw label
+  const selected = Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+  const selectedOptions: SelectOption[] = selected.map(item =>
+    options.find(option => String(option.value) === item) ?? { value: item, label: item });
+  const selectable = options.filter(option => !option.disabled).map(option => String(option.value));
+  const allSelected = selectable.every(item => selected.includes(item));
+
+  // Handlers
+  const handleChange = (newValue: string[]) => {
+    setValue(newValue);
+    void validate(newValue, 'change');
+  };
+
+  const handleBlur = () => {
+    setTouched(true);
+    void validate(value, 'blur');
+  };
+
+  const handleRemove = (removed: SelectOption['value']) => {
+    handleChange(selected.filter(item => item !== String(removed)));
+  };
+
+  const handleSelectAll = () => {
+    handleChange([...selected, ...selectable.filter(item => !selected.includes(item))]);
+  };
+
+  return (
+    <div className="mb-4">
+      <Label htmlFor={schema.id} required={isRequired} className="mb-1">
+        {schema.label}
+      </Label>
+
+      <Select
+        id={schema.id}
+        name={schema.id}
+        multiple
+        value={selected}
+        onChange={handleChange}
+        onBlur={handleBlur}
+        options={options}
+        size={Math.min(Math.max(options.length, 2), 6)}
+        disabled={isDisabled}
+        hasError={!!showError || !!loadError}
+        errorId={showError ? errorId : undefined}
+        aria-describedby={showError ? errorId : helperText ? helperId : undefined}
+      />
+
+      <div className="mt-2 flex flex-wrap items-center gap-2">
+        <TagList
+          aria-label={`Selected ${schema.label}`}
+          items={selectedOptions}
+          onRemove={handleRemove}
+          disabled={isDisabled}
+        />
+
+        <Button variant="ghost" size="sm" onClick={handleSelectAll} disabled={isDisabled || allSelected}>
+          Select all
+        </Button>
+        <Button variant="ghost" size="sm" onClick={() => handleChange([])} disabled={isDisabled || selected.length === 0}>
+          Clear
+        </Button>
+      </div>
+
+      {helperText && !showError && (
+        <HelperText id={helperId}>{helperText}</HelperText>
+      )}
+
+      {showError && (
+        <ErrorMessage id={errorId}>{error}</ErrorMessage>
+      )}
+
+      {loadError && !showError && (
+        <ErrorMessage id={`${schema.id}-load-error`}>{loadError}</ErrorMessage>
+      )}
+    </div>
+  );
+}
@@ -8,6 +8,7 @@
  */
 
 import { useField } from '@/state';
+import { useFieldValidation } from '@/hooks';
 import { Input, Label, ErrorMessage, HelperText } from '@/components/primitives';
 import type { NumberFieldSchema } from '@/schema/types';
 
@@ -35,6 +36,7 @@ export interface NumberFieldProps {
  */
 export function NumberField({ schema, isVisible = true }: NumberFieldProps) {
   const { value, error, touched, setValue, setTouched } = useField(schema.id);
+  const { validate } = useFieldValidation({ fieldId: schema.id, rules: schema.validation });
 
   if (!isVisible) return null;
 
@@ -45,13 +47,17 @@ export function NumberField({ schema, isVisible = true }: NumberFieldProps) {
   const helperText = schema.helpText;
 
   // Handlers
-  const handleBlur = () => setTouched(true);
+  const handleBlur = () => {
+    setTouched(true);
+    void validate(value, 'blur');
+  };
 
   // Handle number-specific change
   const handleNumberChange = (stringValue: string) => {
     // Allow empty string
     if (stringValue === '') {
       setValue('');
+      void validate('', 'change');
       return;
     }
     
@@ -59,6 +65,7 @@ export function NumberField({ schema, isVisible = true }: NumberFieldProps) {
     const numValue = parseFloat(stringValue);
     if (!isNaN(numValue)) {
       setValue(numValue);
+      void validate(numValue, 'change');
     }
   };
 
@@ -77,6 +84,7 @@ export function NumberField({ schema, isVisible = true }: NumberFieldProps) {
         onBlur={handleBlur}
         placeholder={schema.placeholder}
         disabled={schema.disabled}
+        readOnly={schema.readOnly || schema.computed !== undefined}
         hasError={!!showError}
         errorId={showError ? errorId : undefined}
         aria-describedby={helperText ? helperId : undefined}
@@ -0,0 +1,92 @@
+/**
+ * RADIO FIELD COMPONENT
+ *
+ * Schema-aware radio group with:
+ * - Static or async options
+ * - Fieldset/legend grouping and arrow-key navigation
+ * - Group-level validation display
+ */
+
+import { useField } from '@/state';
+import { useFieldValidation, useFieldOptions } from '@/hooks';
+import { RadioGroup, ErrorMessage, HelperText } from '@/components/primitives';
+import type { RadioFieldSchema } from '@/schema/types';
+
+export interface RadioFieldProps {
+  /** Field schema from form definition */
+  schema: RadioFieldSchema;
+  /** Whether field should be visible (from condition evaluation) */
+  isVisible?: boolean;
+}
+
+/**
+ * Radio field connected to form state.
+ *
+ * @example
+ * <RadioField
+ *   schema={{
+ *     id: 'plan',
+ *     type: 'radio',
+ *     label: 'Plan',
+ *     options: [
+ *       { value: 'free', label: 'Free' },
+ *       { value: 'pro', label: 'Pro' },
+ *     ],
+ *     validation: [{ type: 'required' }],
+ *   }}
+ * />
+ */
+export function RadioField({ schema, isVisible = true }: RadioFieldProps) {
+  const { value, error, touched, setValue, setTouched } = useField(schema.id);
+  const { validate } = useFieldValidation({ fieldId: schema.id, rules: schema.validation });
+  const { options, isLoading, error: loadError } = useFieldOptions(schema);
+
+  if (!isVisible) return null;
+
+  const isRequired = schema.validation?.some(rule => rule.type === 'required') ?? false;
+  const errorId = `${schema.id}-error`;
+  const helperId = `${schema.id}-helper`;
+  const showError = touched && error;
+  const helperText = isLoading ? 'Loading options...' : schema.helperText || schema.helpText;
+
+  // Handlers
+  const handleChange = (newValue: string | number) => {
+    setValue(newValue);
+    void validate(newValue, 'change');
+  };
+
+  const handleBlur = () => {
+    setTouched(true);
+    void validate(value, 'blur');
+  };
+
+  return (
+    <div className="mb-4">
+      <RadioGroup
+        id={schema.id}
+        legend={schema.label}
+        options={options}
+        value={typeof value === 'string' || typeof value === 'number' ? value : null}
+        onChange={handleChange}
+        onBlur={handleBlur}
+        required={isRequired}
+        disabled={schema.disabled || schema.readOnly || schema.computed !== undefined}
+        hasError={!!showError}
+        describedBy={showError ? errorId : helperText ? helperId : undefined}
+        inline={schema.inline}
+      />
+
+      {helperText && !showError && (
+        <HelperText id={helperId}>{helperText}</HelperText>
+      )}
+
+      {showError && (
+        <ErrorMessage id={errorId}>{error}</ErrorMessage>
+      )}
+
+      {loadError && !showError && (
+        <ErrorMessage id={`${schema.id}-load-error`}>{loadError}</ErrorMessage>
+      )}
+    </div>
+  );
+}
@@ -5,12 +5,15 @@
  * - Static or async options
  * - Dependent dropdowns support
  * - Loading state for async options
+ * - Multiple selection (`multiple: true`, see MultiSelectField)
  */
 
 import { useEffect, useState, useCallback } from 'react';
 import { useField, useFormContext } from '@/state';
+import { useFieldValidation } from '@/hooks';
 import { Select, Label, ErrorMessage, HelperText, type SelectOption } from '@/components/primitives';
 import type { SelectFieldSchema } from '@/schema/types';
+import { MultiSelectField } from './MultiSelectField';
 
 export interface SelectFieldProps {
   /** Field schema from form definition */
@@ -21,7 +24,8 @@ export interface SelectFieldProps {
 
 /**
  * Select field connected to form state.
- * Supports both static options and async fetching.
+ * Supports both static options and async fetching; with `multiple`
+ * the value is a string[].
  * 
  * @example
  * <SelectField
@@ -36,8 +40,15 @@ export interface SelectFieldProps {
  *   }}
  * />
  */
-export function SelectField({ schema, isVisible = true }: SelectFieldProps) {
+export function SelectField(props: SelectFieldProps) {
+  return props.schema.multiple
+    ? <MultiSelectField {...props} />
+    : <SingleSelectField {...props} />;
+}
+
+function SingleSelectField({ schema, isVisible = true }: SelectFieldProps) {
   const { value, error, touched, setValue, setTouched } = useField(schema.id);
+  const { validate } = useFieldValidation({ fieldId: schema.id, rules: schema.validation });
   const { state } = useFormContext();
   
   // State for async options
@@ -113,8 +124,14 @@ export function SelectField({ schema, isVisible = true }: SelectFieldProps) {
   const helperText = schema.helperText || schema.helpText;
 
   // Handlers
-  const handleChange = (newValue: string | number) => setValue(newValue as any);
-  const handleBlur = () => setTouched(true);
+  const handleChange = (newValue: string | number) => {
+    setValue(newValue as any);
+    void validate(newValue, 'change');
+  };
+  const handleBlur = () => {
+    setTouched(true);
+    void validate(value, 'blur');
+  };
 
   // Use async options if available, otherwise static options
   const options: SelectOption[] = hasAsyncOptions 
@@ -140,7 +157,7 @@ export function SelectField({ schema, isVisible = true }: SelectFieldProps) {
         onBlur={handleBlur}
         options={options}
         placeholder={placeholder}
-        disabled={schema.disabled || isLoading}
+        disabled={schema.disabled || schema.readOnly || schema.computed !== undefined || isLoading}
         hasError={!!showError || !!loadError}
         errorId={showError ? errorId : undefined}
         aria-describedby={helperText ? helperId : undefined}
@@ -5,12 +5,22 @@
  * - Connects to FormContext via useField hook
  * - Renders Label + Input + ErrorMessage
  * - Handles validation display
+ * - Renders a rule checklist in allErrors mode
  * - Supports conditional visibility
  */
 
 import { useField } from '@/state';
-import { Input, Label, ErrorMessage, HelperText } from '@/components/primitives';
-import type { TextFieldSchema } from '@/schema/types';
+import { useFieldValidation } from '@/hooks';
+import {
+  Input,
+  Label,
+  ErrorMessage,
+  HelperText,
+  ValidationChecklist,
+  type ChecklistItem,
+} from '@/components/primitives';
+import type { FieldValue, TextFieldSchema, ValidationRule } from '@/schema/types';
+import type { ValidationFailure } from '@/validation/types';
 
 export interface TextFieldProps {
   /** Field schema from form definition */
@@ -35,7 +45,8 @@ export interface TextFieldProps {
  */
 export function TextField({ schema, isVisible = true }: TextFieldProps) {
   // Connect to form state
-  const { value, error, touched, setValue, setTouched } = useField(schema.id);
+  const { value, error, failures, checkedRules, touched, setValue, setTouched } = useField(schema.id);
+  const { validate, mode } = useFieldValidation({ fieldId: schema.id, rules: schema.validation });
 
   // Don't render if not visible
   if (!isVisible) return null;
@@ -46,16 +57,31 @@ export function TextField({ schema, isVisible = true }: TextFieldProps) {
   // ID for error message (for aria-describedby)
   const errorId = `${schema.id}-error`;
   const helperId = `${schema.id}-helper`;
+  const checklistId = `${schema.id}-checklist`;
+
+  // In allErrors mode, rule failures are listed in the checklist and the
+  // error message only covers what the checklist doesn't (required, async)
+  const checklistRules = mode === 'allErrors' ? getChecklistRules(schema.validation) : [];
+  const checklistItems = buildChecklist(checklistRules, failures, checkedRules, value);
+  const visibleError = checklistRules.length > 0
+    ? failures.find(failure => !failure.rule || !checklistRules.includes(failure.rule))?.message
+    : error;
 
   // Show error only if touched
-  const showError = touched && error;
+  const showError = touched && visibleError;
   
   // Helper text from either property
   const helperText = schema.helperText || schema.helpText;
 
   // Handlers
-  const handleChange = (newValue: string) => setValue(newValue);
-  const handleBlur = () => setTouched(true);
+  const handleChange = (newValue: string) => {
+    setValue(newValue);
+    void validate(newValue, 'change');
+  };
+  const handleBlur = () => {
+    setTouched(true);
+    void validate(value, 'blur');
+  };
 
   return (
     <div className="mb-4">
@@ -74,9 +100,13 @@ export function TextField({ schema, isVisible = true }: TextFieldProps) {
         onBlur={handleBlur}
         placeholder={schema.placeholder}
         disabled={schema.disabled}
+        readOnly={schema.readOnly || schema.computed !== undefined}
         hasError={!!showError}
         errorId={showError ? errorId : undefined}
-        aria-describedby={helperText ? helperId : undefined}
+        aria-describedby={[
+          showError ? errorId : helperText ? helperId : null,
+          checklistItems.length > 0 ? checklistId : null,
+        ].filter(Boolean).join(' ') || undefined}
       />
 
       {/* Helper text (shown when no error) */}
@@ -84,10 +114,69 @@ export function TextField({ schema, isVisible = true }: TextFieldProps) {
         <HelperText id={helperId}>{helperText}</HelperText>
       )}
 
+      {/* Rule checklist (allErrors mode) */}
+      <ValidationChecklist id={checklistId} items={checklistItems} />
+
       {/* Error message */}
       {showError && (
-        <ErrorMessage id={errorId}>{error}</ErrorMessage>
+        <ErrorMessage id={errorId}>{visibleError}</ErrorMessage>
       )}
     </div>
   );
 }
+
+// ============================================================================
+// CHECKLIST
+// ============================================================================
+
+/** Rules worth listing as requirements; required and async read better as a plain error */
+function getChecklistRules(rules: ValidationRule[] = []): ValidationRule[] {
+  return rules.filter(rule => rule.type !== 'required' && rule.type !== 'async');
+}
+
+/**
+ * Only rules that actually ran count as met; those not reached yet (trigger,
+ * `when` gate) stay "not checked yet", as do rules on an empty value.
+ */
+function buildChecklist(
+  rules: ValidationRule[],
+  failures: ValidationFailure[],
+  checkedRules: ValidationRule[],
+  value: FieldValue
+): ChecklistItem[] {
+  const isEmpty = value === null || value === undefined || value === '';
+
+  return rules.map((rule, index) => {
+    const failure = failures.find(f => f.rule === rule);
+    const isChecked = checkedRules.includes(rule);
+    return {
+      id: `${rule.type}-${index}`,
+      label: rule.message ?? getDefaultRuleLabel(rule) ?? failure?.message ?? 'Meets this requirement',
+      status: failure ? 'unmet' : !isChecked || isEmpty ? 'pending' : 'met',
+    };
+  });
+}
+
+/** Readable label for a rule without a message; undefined when it has no natural wording */
+function getDefaultRuleLabel(rule: ValidationRule): string | undefined {
+  switch (rule.type) {
+    case 'minLength':
+      return `At least ${rule.value} characters`;
+    case 'maxLength':
+      return `At most ${rule.value} characters`;
+    case 'pattern':
+      return 'Matches the required format';
+    case 'min':
+      return `At least ${rule.value}`;
+    case 'max':
+      return `At most ${rule.value}`;
+    case 'email':
+      return 'A valid email address';
+    case 'url':
+      return 'A valid URL';
+    case 'phone':
+      return 'A valid phone number';
+    default:
+      return undefined;
+  }
+}
@@ -8,6 +8,7 @@
  */
 
 import { useField } from '@/state';
+import { useFieldValidation } from '@/hooks';
 import { Textarea, Label, ErrorMessage, HelperText } from '@/components/primitives';
 import type { TextareaFieldSchema } from '@/schema/types';
 
@@ -37,6 +38,7 @@ export interface TextareaFieldProps {
  */
 export function TextareaField({ schema, isVisible = true }: TextareaFieldProps) {
   const { value, error, touched, setValue, setTouched } = useField(schema.id);
+  const { validate } = useFieldValidation({ fieldId: schema.id, rules: schema.validation });
 
   if (!isVisible) return null;
 
@@ -47,8 +49,14 @@ export function TextareaField({ schema, isVisible = true }: TextareaFieldProps)
   const helperText = schema.helpText;
 
   // Handlers
-  const handleChange = (newValue: string) => setValue(newValue);
-  const handleBlur = () => setTouched(true);
+  const handleChange = (newValue: string) => {
+    setValue(newValue);
+    void validate(newValue, 'change');
+  };
+  const handleBlur = () => {
+    setTouched(true);
+    void validate(value, 'blur');
+  };
 
   // Get max length for character count
   const maxLengthRule = schema.validation?.find(rule => rule.type === 'maxLength');
@@ -81,6 +89,7 @@ export function TextareaField({ schema, isVisible = true }: TextareaFieldProps)
         onBlur={handleBlur}
         placeholder={schema.placeholder}
         disabled={schema.disabled}
+        readOnly={schema.readOnly || schema.computed !== undefined}
         hasError={!!showError}
         errorId={showError ? errorId : undefined}
         aria-describedby={helperText ? helperId : undefined}
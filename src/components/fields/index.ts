@@ -2,6 +2,12 @@
 export { TextField, type TextFieldProps } from './TextField';
 export { NumberField, type NumberFieldProps } from './NumberField';
 export { SelectField, type SelectFieldProps } from './SelectField';
+export { MultiSelectField } from './MultiSelectField';
 export { CheckboxField, type CheckboxFieldProps } from './CheckboxField';
+export { RadioField, type RadioFieldProps } from './RadioField';
+export { CheckboxGroupField, type CheckboxGroupFieldProps } from './CheckboxGroupField';
+export { ComboboxField, type ComboboxFieldProps } from './ComboboxField';
 export { TextareaField, type TextareaFieldProps } from './TextareaField';
+export { DateField, type DateFieldProps } from './DateField';
+export { FileField, type FileFieldProps } from './FileField';
 export { FieldRenderer, type FieldRendererProps } from './FieldRenderer';
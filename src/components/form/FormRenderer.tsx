@@ -4,39 +4,81 @@
  * Top-level component that:
  * - Provides FormContext to children
  * - Renders sections and fields from schema
- * - Handles form submission
+ * - Handles form submission (status, loading label, double-submit guard)
  * - Manages autosave (optional)
+ * - Pages sections as wizard steps (optional)
  * - Shows global validation errors
+ * - Maps submission errors ({ fieldErrors, formError }) back onto fields
  */
 
-import { useCallback, useMemo, useEffect } from 'react';
-import { FormProvider, useFormContext, useFormActions, useFormDispatch } from '@/state';
+import { useCallback, useMemo, useEffect, useRef } from 'react';
+import { FormProvider, useFormContext, useFormActions, useFormDispatch, usePendingValidations } from '@/state';
 import { formActions } from '@/state/actions';
-import { validateFormSync } from '@/validation/pipeline';
+import { validateFormSync, validateFormAsync, validateSections } from '@/validation/pipeline';
+import { collectFields, expandRepeatableFields, getFieldLabels, type FieldEntry } from '@/schema/traverse';
+import { getDisabledFields, getHiddenFields, getHiddenValuePaths } from '@/schema/resolver';
+import { useWizard } from '@/hooks/useWizard';
+import { announce } from '@/utils/a11y';
+import { deepDelete } from '@/utils/deep-get-set';
 import { Button } from '@/components/primitives';
 import { FormSection } from './FormSection';
 import { RepeatableSection } from './RepeatableSection';
-import type { FormSchema, FormValues, SectionSchema } from '@/schema/types';
+import { StepIndicator } from './StepIndicator';
+import type { FormSchema, FormValues, HiddenValuePolicy, SectionSchema } from '@/schema/types';
 
 export interface FormRendererProps {
   /** Form schema definition */
   schema: FormSchema;
   /** Initial form values */
   initialValues?: FormValues;
-  /** Submit handler - receives validated values */
-  onSubmit?: (values: FormValues) => void | Promise<void>;
+  /**
+   * Submit handler - receives validated values.
+   * Return or throw SubmitErrors to show server-side errors.
+   */
+  onSubmit?: SubmitHandler;
   /** Change handler - called on every value change */
   onChange?: (values: FormValues) => void;
   /** Enable autosave */
   autosave?: boolean;
   /** Autosave debounce delay (ms) */
   autosaveDelay?: number;
-  /** Autosave handler */
-  onAutosave?: (values: FormValues) => Promise<void>;
+  /** Autosave handler - also receives the active wizard step so drafts can restore it */
+  onAutosave?: (values: FormValues, meta: AutosaveMeta) => Promise<void>;
+  /**
+   * Layout mode:
+   * - 'single': all sections on one page (default)
+   * - 'wizard': one top-level section per step with Next/Back navigation
+   */
+  mode?: 'single' | 'wizard';
+  /** Initial wizard step (index into schema.sections), e.g. from a restored draft */
+  initialStep?: number;
   /** Additional CSS classes */
   className?: string;
 }
 
+/**
+ * Errors a submit handler can return or throw, e.g. from server-side validation.
+ * Keys of fieldErrors are field IDs, or scoped IDs like `items[0]` in
+ * repeatable sections.
+ */
+export interface SubmitErrors {
+  fieldErrors: Record<string, string[]>;
+  /** Error not tied to a field, shown in a banner above the form */
+  formError?: string;
+}
+
+export type SubmitHandler = (
+  values: FormValues
+) => void | SubmitErrors | Promise<void | SubmitErrors>;
+
+/**
+ * Extra state passed to onAutosave alongside the values.
+ */
+export interface AutosaveMeta {
+  /** Active wizard step (index into schema.sections) */
+  currentStep: number;
+}
+
 /**
  * Renders a complete form from schema.
  * 
@@ -57,10 +99,12 @@ export function FormRenderer({
   autosave = false,
   autosaveDelay = 2000,
   onAutosave,
+  mode = 'single',
+  initialStep = 0,
   className = '',
 }: FormRendererProps) {
   return (
-    <FormProvider schema={schema} initialValues={initialValues}>
+    <FormProvider schema={schema} initialValues={initialValues} initialStep={initialStep}>
       <FormRendererInner
         schema={schema}
         onSubmit={onSubmit}
@@ -68,6 +112,7 @@ export function FormRenderer({
         autosave={autosave}
         autosaveDelay={autosaveDelay}
         onAutosave={onAutosave}
+        mode={mode}
         className={className}
       />
     </FormProvider>
@@ -79,14 +124,34 @@ export function FormRenderer({
  */
 interface FormRendererInnerProps {
   schema: FormSchema;
-  onSubmit?: (values: FormValues) => void | Promise<void>;
+  onSubmit?: SubmitHandler;
   onChange?: (values: FormValues) => void;
   autosave?: boolean;
   autosaveDelay?: number;
-  onAutosave?: (values: FormValues) => Promise<void>;
+  onAutosave?: (values: FormValues, meta: AutosaveMeta) => Promise<void>;
+  mode: 'single' | 'wizard';
   className?: string;
 }
 
+/**
+ * Renders a top-level section, picking the repeatable variant when needed.
+ */
+function renderSection(section: SectionSchema) {
+  return section.repeatable ? (
+    <RepeatableSection
+      key={section.id}
+      schema={section}
+      maxInstances={section.maxInstances}
+      minInstances={section.minInstances}
+    />
+  ) : (
+    <FormSection
+      key={section.id}
+      schema={section}
+    />
+  );
+}
+
 function FormRendererInner({
   schema,
   onSubmit,
@@ -94,11 +159,15 @@ function FormRendererInner({
   autosave,
   autosaveDelay,
   onAutosave,
+  mode,
   className,
 }: FormRendererInnerProps) {
   const { state } = useFormContext();
   const { resetForm, isDirty } = useFormActions();
   const dispatch = useFormDispatch();
+  const pendingValidations = usePendingValidations();
+  const wizard = useWizard({ sections: schema.sections });
+  const isWizard = mode === 'wizard';
 
   // Track changes
   useEffect(() => {
@@ -113,72 +182,173 @@ function FormRendererInner({
 
     const timeoutId = setTimeout(async () => {
       try {
-        await onAutosave(state.values);
+        await onAutosave(state.values, { currentStep: state.currentStep });
       } catch (error) {
         console.error('Autosave failed:', error);
       }
     }, autosaveDelay);
 
     return () => clearTimeout(timeoutId);
-  }, [autosave, autosaveDelay, onAutosave, state.values, isDirty]);
-
-  // Get all fields for validation
-  const allFields = useMemo(() => {
-    const fields: Array<{ id: string; validation?: unknown[] }> = [];
-    
-    for (const section of schema.sections) {
-      for (const field of section.fields) {
-        fields.push(field);
-      }
-    }
-    
-    return fields;
-  }, [schema.sections]);
+  }, [autosave, autosaveDelay, onAutosave, state.values, state.currentStep, isDirty]);
+
+  // Get all fields for validation (including nested sections)
+  const fieldEntries = useMemo(() => collectFields(schema.sections), [schema.sections]);
+  const fieldLabels = useMemo(() => getFieldLabels(schema.sections), [schema.sections]);
 
   // Handle form submission
-  const handleSubmit = useCallback(async (e: React.FormEvent) => {
-    e.preventDefault();
+  const formErrorId = `${schema.id}-form-error`;
+
+  // Map submission errors onto fields, then focus and announce them
+  const showSubmitErrors = useCallback(({ fieldErrors, formError }: SubmitErrors) => {
+    dispatch(formActions.setFormErrors(fieldErrors, formError));
+
+    const errorKeys = Object.keys(fieldErrors).filter(key => fieldErrors[key]?.length);
+    const firstErrorField = expandRepeatableFields(fieldEntries, state.values)
+      .find(({ field }) => errorKeys.includes(field.id))?.field.id ?? errorKeys[0];
+
+    // Focus after render so the banner exists
+    setTimeout(() => {
+      document.getElementById(firstErrorField ?? formErrorId)?.focus();
+    });
+
+    const fieldCount = errorKeys.length;
+    announce(
+      formError ??
+        `Submission failed: ${fieldCount} ${fieldCount === 1 ? 'field has' : 'fields have'} errors`,
+      'assertive'
+    );
+  }, [fieldEntries, state.values, formErrorId, dispatch]);
+
+  // Guards against double submission before isSubmitting has re-rendered
+  const submittingRef = useRef(false);
+
+  // Validates and submits; resolves to whether the submission succeeded
+  const submitForm = useCallback(async (): Promise<boolean> => {
+    // Field validations still debouncing or in flight would land after
+    // (and overwrite) submit's results; submit validates every field anyway
+    pendingValidations.cancelAll();
+
+    // Every repeatable instance is validated, addressed by its value path
+    const entries = expandRepeatableFields(fieldEntries, state.values);
+    const fields = entries.map(entry => entry.field);
 
     // Mark all fields as touched and validate
-    for (const field of allFields) {
+    for (const field of fields) {
       dispatch(formActions.setFieldTouched(field.id, true));
     }
 
-    // Validate all fields
-    const touchedFields = new Set(allFields.map(f => f.id));
+    // Validate all visible, enabled fields (hidden sections hide their nested fields)
+    const touchedFields = new Set(fields.map(f => f.id));
+    const hiddenFields = getHiddenFields(entries, state.values);
+    for (const id of getDisabledFields(entries, state.values)) hiddenFields.add(id);
     const validationResult = validateFormSync(
-      allFields as any,
+      fields,
       state.values,
-      { touchedFields }
+      { touchedFields, hiddenFields, trigger: 'submit', mode: schema.validationMode, fieldLabels }
     );
 
-    if (!validationResult.isValid) {
-      // Dispatch errors for each invalid field
-      for (const [fieldId, errors] of Object.entries(validationResult.fieldErrors)) {
-        dispatch(formActions.setFieldError(fieldId, errors));
-      }
-      
-      // Focus first error field
-      const firstErrorField = Object.keys(validationResult.fieldErrors)[0];
-      if (firstErrorField) {
-        const element = document.getElementById(firstErrorField);
-        element?.focus();
-      }
-      return;
+    // Await async rules too: the user may never have blurred those fields
+    const asyncFailures = await validateFormAsync(fields, state.values, {
+      hiddenFields,
+      skipFields: new Set(Object.keys(validationResult.fieldFailures)),
+      mode: schema.validationMode,
+      onFieldValidating: (fieldId, validating) =>
+        dispatch(formActions.setFieldValidating(fieldId, validating)),
+    });
+    const fieldFailures = { ...validationResult.fieldFailures, ...asyncFailures };
+
+    // Section rules (item counts, uniqueness, aggregates) of repeatable sections
+    const sectionFailures = validateSections(schema.sections, state.values);
+    for (const [key, failures] of Object.entries(sectionFailures)) {
+      fieldFailures[key] = [...(fieldFailures[key] ?? []), ...failures];
+      dispatch(formActions.setFieldTouched(key, true));
+    }
+
+    // Files still uploading aren't in the value yet: block instead of
+    // submitting without them (or reporting the field as empty)
+    for (const field of fields) {
+      const pending = state.fields[field.id]?.pendingUploads ?? 0;
+      if (pending === 0 || hiddenFields.has(field.id)) continue;
+      fieldFailures[field.id] = [{
+        message: `Wait for ${pending === 1 ? 'the upload' : `${pending} uploads`} to finish`,
+      }];
+    }
+
+    // Dispatch errors for each validated or invalid field (with the rules
+    // that ran, so checklists know what passed)
+    const { fieldCheckedRules } = validationResult;
+    for (const fieldId of new Set([...Object.keys(fieldCheckedRules), ...Object.keys(fieldFailures)])) {
+      dispatch(formActions.setFieldError(fieldId, fieldFailures[fieldId] ?? [], undefined, fieldCheckedRules[fieldId]));
+    }
+
+    // Focus first error field in form order, else the first failing section
+    const firstErrorField =
+      fields.find(field => fieldFailures[field.id])?.id ?? Object.keys(sectionFailures)[0];
+    if (firstErrorField) {
+      const element = document.getElementById(firstErrorField);
+      element?.focus();
+      return false;
     }
 
     // Clear all errors before submitting
     dispatch(formActions.clearAllErrors());
 
+    if (!onSubmit) return true;
+
     // Call submit handler
-    if (onSubmit) {
-      try {
-        await onSubmit(state.values);
-      } catch (error) {
+    let result: unknown;
+    try {
+      result = await onSubmit(getSubmitValues(fieldEntries, state.values, schema.hiddenValuePolicy));
+    } catch (error) {
+      if (!isSubmitErrors(error)) {
         console.error('Form submission failed:', error);
+        return false;
       }
+      result = error;
+    }
+
+    if (isSubmitErrors(result)) {
+      showSubmitErrors(result);
+      return false;
+    }
+    return true;
+  }, [
+    state.values,
+    state.fields,
+    fieldEntries,
+    fieldLabels,
+    schema.sections,
+    schema.validationMode,
+    schema.hiddenValuePolicy,
+    onSubmit,
+    dispatch,
+    pendingValidations,
+    showSubmitErrors,
+  ]);
+
+  const handleSubmit = useCallback(async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    // In wizard mode, Enter on an intermediate step advances instead of submitting
+    if (isWizard && !wizard.isLastStep) {
+      wizard.goNext();
+      return;
     }
-  }, [state.values, allFields, onSubmit, dispatch]);
+
+    if (submittingRef.current) return;
+    submittingRef.current = true;
+    dispatch(formActions.setSubmitting(true));
+
+    try {
+      dispatch(formActions.setSubmitResult(await submitForm()));
+    } catch (error) {
+      // E.g. a custom validator threw: end the submission instead of staying busy
+      console.error('Form submission failed:', error);
+      dispatch(formActions.setSubmitResult(false));
+    } finally {
+      submittingRef.current = false;
+    }
+  }, [submitForm, dispatch, isWizard, wizard]);
 
   // Handle reset
   const handleReset = useCallback(() => {
@@ -208,31 +378,62 @@ function FormRendererInner({
         </div>
       )}
 
-      {/* Sections */}
-      {schema.sections.map((section: SectionSchema) => (
-        section.repeatable ? (
-          <RepeatableSection
-            key={section.id}
-            schema={section}
-            maxInstances={section.maxInstances}
-            minInstances={section.minInstances}
-          />
-        ) : (
-          <FormSection
-            key={section.id}
-            schema={section}
+      {/* Form-level error from the last submission */}
+      {state.formError && (
+        <div
+          id={formErrorId}
+          role="alert"
+          tabIndex={-1}
+          className="mb-6 rounded-md border border-error-500 bg-error-50 p-4 text-sm text-error-700"
+        >
+          {state.formError}
+        </div>
+      )}
+
+      {/* Sections (all at once, or the active wizard step) */}
+      {isWizard ? (
+        <>
+          <StepIndicator
+            steps={wizard.steps}
+            currentIndex={wizard.stepIndex}
+            onStepClick={wizard.goToStep}
           />
-        )
-      ))}
+          {wizard.currentSection && renderSection(wizard.currentSection)}
+        </>
+      ) : (
+        schema.sections.map(renderSection)
+      )}
 
       {/* Form actions */}
       <div className="flex gap-3 mt-6 pt-6 border-t border-gray-200">
-        <Button
-          type="submit"
-          variant="primary"
-        >
-          {schema.submit?.label || 'Submit'}
-        </Button>
+        {isWizard && (
+          <Button
+            variant="outline"
+            onClick={wizard.goBack}
+            disabled={wizard.isFirstStep}
+          >
+            Back
+          </Button>
+        )}
+
+        {isWizard && !wizard.isLastStep ? (
+          <Button
+            variant="primary"
+            onClick={wizard.goNext}
+          >
+            Next
+          </Button>
+        ) : (
+          <Button
+            type="submit"
+            variant="primary"
+            loading={state.isSubmitting}
+          >
+            {state.isSubmitting && schema.submit?.loadingLabel
+              ? schema.submit.loadingLabel
+              : schema.submit?.label || 'Submit'}
+          </Button>
+        )}
         
         <Button
           type="reset"
@@ -244,3 +445,24 @@ function FormRendererInner({
     </form>
   );
 }
+
+function isSubmitErrors(value: unknown): value is SubmitErrors {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as SubmitErrors).fieldErrors === 'object' &&
+    (value as SubmitErrors).fieldErrors !== null
+  );
+}
+
+/**
+ * Values to submit: hidden fields with the 'excludeOnSubmit' policy are left out.
+ */
+function getSubmitValues(
+  entries: FieldEntry[],
+  values: FormValues,
+  formPolicy: HiddenValuePolicy | undefined
+): FormValues {
+  return getHiddenValuePaths(entries, values, 'excludeOnSubmit', formPolicy)
+    .reduce((result, path) => deepDelete(result, path), values);
+}
@@ -9,6 +9,7 @@ import { useMemo } from 'react';
 import { useFormContext } from '@/state';
 import { evaluateCondition } from '@/schema/resolver';
 import { FieldRenderer } from '@/components/fields';
+import { RepeatableSection } from './RepeatableSection';
 import type { SectionSchema, FieldSchema } from '@/schema/types';
 
 export interface FormSectionProps {
@@ -16,10 +17,13 @@ export interface FormSectionProps {
   schema: SectionSchema;
   /** Override visibility (for nested conditions) */
   forceVisible?: boolean;
+  /** Heading level for the section title (3 for top-level, +1 per nesting level, max 6) */
+  headingLevel?: number;
 }
 
 /**
  * Renders a form section with its fields.
+ * Nested sections are rendered recursively; a hidden parent hides its children.
  * 
  * @example
  * <FormSection
@@ -33,7 +37,7 @@ export interface FormSectionProps {
  *   }}
  * />
  */
-export function FormSection({ schema, forceVisible }: FormSectionProps) {
+export function FormSection({ schema, forceVisible, headingLevel = 3 }: FormSectionProps) {
   const { state } = useFormContext();
 
   // Evaluate section visibility
@@ -43,9 +47,6 @@ export function FormSection({ schema, forceVisible }: FormSectionProps) {
     return evaluateCondition(schema.showWhen, state.values);
   }, [schema.showWhen, state.values, forceVisible]);
 
-  // Don't render if section is not visible
-  if (!isSectionVisible) return null;
-
   // Compute field visibility
   const fieldVisibility = useMemo(() => {
     const visibility: Record<string, boolean> = {};
@@ -61,14 +62,23 @@ export function FormSection({ schema, forceVisible }: FormSectionProps) {
     return visibility;
   }, [schema.fields, state.values]);
 
+  // Don't render if section is not visible (hooks above must always run)
+  if (!isSectionVisible) return null;
+
+  const level = Math.min(headingLevel, 6);
+  const Heading = `h${level}` as 'h3' | 'h4' | 'h5' | 'h6';
+  const nestedLevel = Math.min(level + 1, 6);
+
   return (
     <fieldset className="mb-6">
       {/* Section header */}
       {(schema.title || schema.description) && (
         <div className="mb-4">
           {schema.title && (
-            <legend className="text-lg font-semibold text-gray-900">
-              {schema.title}
+            <legend>
+              <Heading className="text-lg font-semibold text-gray-900">
+                {schema.title}
+              </Heading>
             </legend>
           )}
           {schema.description && (
@@ -94,10 +104,21 @@ export function FormSection({ schema, forceVisible }: FormSectionProps) {
       {schema.sections && schema.sections.length > 0 && (
         <div className="mt-6 pl-4 border-l-2 border-gray-200">
           {schema.sections.map((nestedSection) => (
-            <FormSection
-              key={nestedSection.id}
-              schema={nestedSection}
-            />
+            nestedSection.repeatable ? (
+              <RepeatableSection
+                key={nestedSection.id}
+                schema={nestedSection}
+                maxInstances={nestedSection.maxInstances}
+                minInstances={nestedSection.minInstances}
+                headingLevel={nestedLevel}
+              />
+            ) : (
+              <FormSection
+                key={nestedSection.id}
+                schema={nestedSection}
+                headingLevel={nestedLevel}
+              />
+            )
           ))}
         </div>
       )}
@@ -4,15 +4,29 @@
  * Renders a section that can be added/removed multiple times.
  * Common use cases: order items, attendees, addresses.
  * 
- * Each instance has a unique key and scoped field IDs.
+ * Instance values are stored as an array under the section ID
+ * (`items: [{ productId, quantity }]`); each instance's fields are
+ * rendered with their value path as ID, e.g. `items[0].productId`.
+ * 
+ * Instances can be reordered with Move up/down buttons or drag and drop,
+ * duplicated, or inserted above another; moves are announced to screen
+ * readers. Instances are keyed by a stable key from form state, so
+ * component state (pending uploads, picked options) moves with them.
+ * 
+ * Section-level errors (item counts, aggregates) are keyed by the section ID
+ * and shown under the header; once shown they update as instances change.
  */
 
-import { useMemo, useCallback } from 'react';
-import { useFormContext, useRepeatableSection } from '@/state';
+import { useMemo, useCallback, useEffect, useRef } from 'react';
+import { useFormContext, useFormDispatch, useRepeatableSection } from '@/state';
+import { formActions } from '@/state/actions';
 import { evaluateCondition } from '@/schema/resolver';
+import { getInstanceFieldPath, getInstancePath } from '@/schema/traverse';
+import { validateSectionRules } from '@/validation/pipeline';
 import { FieldRenderer } from '@/components/fields';
-import { Button } from '@/components/primitives';
-import type { SectionSchema, FieldSchema, FormValues } from '@/schema/types';
+import { Button, ErrorMessage } from '@/components/primitives';
+import { announce } from '@/utils/a11y';
+import type { SectionSchema, FieldSchema, FieldValue, FormValues } from '@/schema/types';
 
 export interface RepeatableSectionProps {
   /** Section schema (with repeatable: true) */
@@ -21,6 +35,8 @@ export interface RepeatableSectionProps {
   maxInstances?: number;
   /** Minimum instances required */
   minInstances?: number;
+  /** Heading level for the section title (defaults to 3) */
+  headingLevel?: number;
 }
 
 /**
@@ -45,40 +61,64 @@ export function RepeatableSection({
   schema,
   maxInstances = 10,
   minInstances = 0,
+  headingLevel = 3,
 }: RepeatableSectionProps) {
   const { state } = useFormContext();
-  const { instances, addInstance, removeInstance } = useRepeatableSection(schema.id);
+  const dispatch = useFormDispatch();
+  const {
+    instances,
+    instanceKeys,
+    addInstance,
+    removeInstance,
+    moveInstance,
+    duplicateInstance,
+    insertInstance,
+  } = useRepeatableSection(schema.id);
 
-  // Get section instances from state (array of instance objects)
-  const sectionInstances = instances || [];
+  // Instance values from state (values[schema.id])
+  const sectionInstances = instances;
   const instanceCount = sectionInstances.length;
 
+  const Heading = `h${Math.min(headingLevel, 6)}` as 'h3' | 'h4' | 'h5' | 'h6';
+
   // Can add/remove checks
   const canAdd = instanceCount < maxInstances;
   const canRemove = instanceCount > minInstances;
 
-  // Create scoped field ID for a specific instance
+  // Create scoped field ID (the field's value path) for a specific instance
   const getScopedFieldId = useCallback((instanceIndex: number, fieldId: string) => {
-    // Matches reducer key format: `${fieldId}[${instanceIndex}]`
-    return `${fieldId}[${instanceIndex}]`;
-  }, []);
+    return getInstanceFieldPath(schema.id, instanceIndex, fieldId);
+  }, [schema.id]);
 
-  // Get scoped values for an instance
+  // Form values with an instance's values on top, so conditions can
+  // refer to sibling fields by their plain ID
   const getInstanceValues = useCallback((instanceIndex: number): FormValues => {
-    const scopedValues: FormValues = {};
+    return { ...state.values, ...sectionInstances[instanceIndex] };
+  }, [state.values, sectionInstances]);
+
+  // Field defaults for new instances
+  const instanceDefaults = useMemo(() => {
+    const defaults: Record<string, FieldValue> = {};
     for (const field of schema.fields) {
-      const scopedId = getScopedFieldId(instanceIndex, field.id);
-      scopedValues[field.id] = state.values[scopedId];
+      if (field.defaultValue !== undefined) defaults[field.id] = field.defaultValue;
     }
-    return scopedValues;
-  }, [schema.fields, state.values, getScopedFieldId]);
+    return defaults;
+  }, [schema.fields]);
 
-  // Handle add instance
+  // Handle add instance, seeding field defaults
   const handleAdd = useCallback(() => {
     if (canAdd) {
-      addInstance();
+      addInstance(instanceDefaults);
+    }
+  }, [canAdd, addInstance, instanceDefaults]);
+
+  // Handle insert instance (a new one above the given instance)
+  const handleInsert = useCallback((instanceIndex: number) => {
+    if (canAdd) {
+      insertInstance(instanceIndex, instanceDefaults);
+      announce(`Item added at position ${instanceIndex + 1}`);
     }
-  }, [canAdd, addInstance]);
+  }, [canAdd, insertInstance, instanceDefaults]);
 
   // Handle remove instance
   const handleRemove = useCallback((instanceIndex: number) => {
@@ -87,15 +127,71 @@ export function RepeatableSection({
     }
   }, [canRemove, removeInstance]);
 
+  // Control to focus once a moved instance re-renders at its new position
+  const pendingFocusRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (!pendingFocusRef.current) return;
+    document.getElementById(pendingFocusRef.current)?.focus();
+    pendingFocusRef.current = null;
+  });
+
+  // Handle reorder (buttons and drag and drop)
+  const handleMove = useCallback((fromIndex: number, toIndex: number, control?: 'up' | 'down') => {
+    if (toIndex < 0 || toIndex >= instanceCount || fromIndex === toIndex) return;
+
+    moveInstance(fromIndex, toIndex);
+    announce(`Item ${fromIndex + 1} moved to position ${toIndex + 1}`);
+
+    // Keep focus on the control that was used, unless it is now disabled
+    const isEdge = control === 'up' ? toIndex === 0 : toIndex === instanceCount - 1;
+    pendingFocusRef.current = control && !isEdge
+      ? getInstanceControlId(schema.id, toIndex, control)
+      : getInstanceControlId(schema.id, toIndex, 'group');
+  }, [instanceCount, moveInstance, schema.id]);
+
+  // Handle duplicate instance (inserted right after the original)
+  const handleDuplicate = useCallback((instanceIndex: number) => {
+    if (canAdd) {
+      duplicateInstance(instanceIndex);
+      announce(`Item ${instanceIndex + 1} duplicated as item ${instanceIndex + 2}`);
+    }
+  }, [canAdd, duplicateInstance]);
+
+  // Index of the instance being dragged, if any
+  const dragIndexRef = useRef<number | null>(null);
+
+  // Section-level errors, set on submit (or when leaving a wizard step)
+  const sectionState = state.fields[schema.id];
+  const sectionError = sectionState?.touched ? sectionState.errors[0] : undefined;
+  const errorId = `${schema.id}-error`;
+
+  // Re-check section-level rules as instances change, once they have been shown
+  useEffect(() => {
+    if (!sectionState?.touched) return;
+
+    const failures = validateSectionRules(schema, state.values)[schema.id] ?? [];
+    const messages = failures.map(failure => failure.message);
+    if (messages.join('\n') !== sectionState.errors.join('\n')) {
+      dispatch(formActions.setFieldError(schema.id, failures));
+    }
+  }, [schema, state.values, sectionState, dispatch]);
+
   return (
-    <div className="mb-6">
+    <div
+      id={schema.id}
+      role="group"
+      aria-label={schema.title}
+      aria-describedby={sectionError ? errorId : undefined}
+      tabIndex={-1}
+      className="mb-6"
+    >
       {/* Section header */}
       {schema.title && (
         <div className="flex justify-between items-center mb-4">
           <div>
-            <h3 className="text-lg font-semibold text-gray-900">
+            <Heading className="text-lg font-semibold text-gray-900">
               {schema.title}
-            </h3>
+            </Heading>
             {schema.description && (
               <p className="mt-1 text-sm text-gray-600">
                 {schema.description}
@@ -119,6 +215,12 @@ export function RepeatableSection({
         </div>
       )}
 
+      {sectionError && (
+        <ErrorMessage id={errorId} className="mb-3">
+          {sectionError}
+        </ErrorMessage>
+      )}
+
       {/* Instances */}
       {sectionInstances.length === 0 ? (
         <div className="text-center py-8 text-gray-500 bg-gray-50 rounded-lg border-2 border-dashed border-gray-200">
@@ -137,11 +239,21 @@ export function RepeatableSection({
         <div className="space-y-4">
           {sectionInstances.map((_, index) => (
             <RepeatableSectionInstance
-              key={index}
+              key={instanceKeys[index]}
               schema={schema}
               instanceIndex={index}
+              instanceCount={instanceCount}
               canRemove={canRemove}
+              canDuplicate={canAdd}
               onRemove={() => handleRemove(index)}
+              onInsert={() => handleInsert(index)}
+              onMove={(toIndex, control) => handleMove(index, toIndex, control)}
+              onDuplicate={() => handleDuplicate(index)}
+              onDragStart={() => { dragIndexRef.current = index; }}
+              onDrop={() => {
+                if (dragIndexRef.current !== null) handleMove(dragIndexRef.current, index);
+                dragIndexRef.current = null;
+              }}
               getScopedFieldId={getScopedFieldId}
               formValues={getInstanceValues(index)}
             />
@@ -152,82 +264,247 @@ export function RepeatableSection({
   );
 }
 
+/**
+ * DOM ID of an instance's container or one of its controls.
+ */
+function getInstanceControlId(sectionId: string, instanceIndex: number, control: 'group' | 'up' | 'down') {
+  return `${sectionId}-item-${instanceIndex}-${control}`;
+}
+
 /**
  * Individual instance of a repeatable section.
  */
 interface RepeatableSectionInstanceProps {
   schema: SectionSchema;
   instanceIndex: number;
+  instanceCount: number;
   canRemove: boolean;
+  canDuplicate: boolean;
   onRemove: () => void;
+  onMove: (toIndex: number, control: 'up' | 'down') => void;
+  onDuplicate: () => void;
+  onInsert: () => void;
+  onDragStart: () => void;
+  onDrop: () => void;
   getScopedFieldId: (instanceIndex: number, fieldId: string) => string;
   formValues: FormValues;
 }
 
+const controlClasses = 'text-gray-400 hover:text-gray-700 disabled:opacity-40 disabled:cursor-not-allowed transition-colors';
+
 function RepeatableSectionInstance({
   schema,
   instanceIndex,
+  instanceCount,
   canRemove,
+  canDuplicate,
   onRemove,
+  onMove,
+  onDuplicate,
+  onInsert,
+  onDragStart,
+  onDrop,
   getScopedFieldId,
   formValues,
 }: RepeatableSectionInstanceProps) {
-  // Compute field visibility for this instance
-  const fieldVisibility = useMemo(() => {
-    const visibility: Record<string, boolean> = {};
-    
-    for (const field of schema.fields) {
-      if (!field.showWhen) {
-        visibility[field.id] = true;
-      } else {
-        // TODO: Need to scope condition evaluation to instance values
-        visibility[field.id] = evaluateCondition(field.showWhen, formValues);
-      }
-    }
-    
-    return visibility;
-  }, [schema.fields, formValues]);
+  const itemLabel = `item ${instanceIndex + 1}`;
+  const scope = getInstancePath(schema.id, instanceIndex);
 
   return (
-    <div className="relative p-4 bg-gray-50 rounded-lg border border-gray-200">
+    <div
+      id={getInstanceControlId(schema.id, instanceIndex, 'group')}
+      role="group"
+      aria-label={`Item ${instanceIndex + 1}`}
+      tabIndex={-1}
+      className="relative p-4 bg-gray-50 rounded-lg border border-gray-200"
+      onDragOver={e => e.preventDefault()}
+      onDrop={e => {
+        e.preventDefault();
+        onDrop();
+      }}
+    >
       {/* Instance header */}
       <div className="flex justify-between items-start mb-3">
-        <span className="text-sm font-medium text-gray-500">
-          Item {instanceIndex + 1}
-        </span>
+        <div className="flex items-center gap-2">
+          {/* Drag handle (keyboard users use the move buttons) */}
+          <span
+            draggable
+            onDragStart={onDragStart}
+            className="cursor-grab text-gray-400"
+            aria-hidden="true"
+            title={`Drag to reorder ${itemLabel}`}
+          >
+            <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24">
+              <path d="M9 5a1 1 0 11-2 0 1 1 0 012 0zm0 7a1 1 0 11-2 0 1 1 0 012 0zm0 7a1 1 0 11-2 0 1 1 0 012 0zm8-14a1 1 0 11-2 0 1 1 0 012 0zm0 7a1 1 0 11-2 0 1 1 0 012 0zm0 7a1 1 0 11-2 0 1 1 0 012 0z" />
+            </svg>
+          </span>
+          <span className="text-sm font-medium text-gray-500">
+            Item {instanceIndex + 1}
+          </span>
+        </div>
         
-        {canRemove && (
+        <div className="flex items-center gap-1">
           <button
+            id={getInstanceControlId(schema.id, instanceIndex, 'up')}
             type="button"
-            onClick={onRemove}
-            className="text-gray-400 hover:text-error-600 transition-colors"
-            aria-label={`Remove item ${instanceIndex + 1}`}
+            onClick={() => onMove(instanceIndex - 1, 'up')}
+            disabled={instanceIndex === 0}
+            className={controlClasses}
+            aria-label={`Move ${itemLabel} up`}
           >
             <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 15l7-7 7 7" />
             </svg>
           </button>
-        )}
+          <button
+            id={getInstanceControlId(schema.id, instanceIndex, 'down')}
+            type="button"
+            onClick={() => onMove(instanceIndex + 1, 'down')}
+            disabled={instanceIndex === instanceCount - 1}
+            className={controlClasses}
+            aria-label={`Move ${itemLabel} down`}
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+            </svg>
+          </button>
+          <button
+            type="button"
+            onClick={onDuplicate}
+            disabled={!canDuplicate}
+            className={controlClasses}
+            aria-label={`Duplicate ${itemLabel}`}
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
+            </svg>
+          </button>
+          <button
+            type="button"
+            onClick={onInsert}
+            disabled={!canDuplicate}
+            className={controlClasses}
+            aria-label={`Insert item above ${itemLabel}`}
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+            </svg>
+          </button>
+          
+          {canRemove && (
+            <button
+              type="button"
+              onClick={onRemove}
+              className="text-gray-400 hover:text-error-600 transition-colors"
+              aria-label={`Remove ${itemLabel}`}
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          )}
+        </div>
       </div>
 
-      {/* Instance fields */}
-      <div className="space-y-3">
-        {schema.fields.map((field: FieldSchema) => {
-          // Create scoped schema with unique ID for this instance
-          const scopedSchema = {
-            ...field,
-            id: getScopedFieldId(instanceIndex, field.id),
-          };
-
-          return (
-            <FieldRenderer
-              key={scopedSchema.id}
-              schema={scopedSchema}
-              isVisible={fieldVisibility[field.id]}
-            />
-          );
-        })}
-      </div>
+      {/* Instance fields, then nested sections (their fields belong to the instance too) */}
+      <InstanceFields
+        fields={schema.fields}
+        scope={scope}
+        formValues={formValues}
+        getScopedId={fieldId => getScopedFieldId(instanceIndex, fieldId)}
+      />
+      {getInstanceSections(schema).map(nestedSection => (
+        <InstanceNestedSection
+          key={nestedSection.id}
+          schema={nestedSection}
+          scope={scope}
+          formValues={formValues}
+          getScopedId={fieldId => getScopedFieldId(instanceIndex, fieldId)}
+          headingLevel={4}
+        />
+      ))}
     </div>
   );
 }
+
+interface InstanceFieldsProps {
+  fields: FieldSchema[];
+  /** Instance value path, e.g. `items[0]` */
+  scope: string;
+  formValues: FormValues;
+  getScopedId: (fieldId: string) => string;
+}
+
+/**
+ * Fields of a repeatable instance, with instance-scoped IDs and conditions
+ * evaluated in the instance scope.
+ */
+function InstanceFields({ fields, scope, formValues, getScopedId }: InstanceFieldsProps) {
+  const fieldVisibility = useMemo(() => {
+    const visibility: Record<string, boolean> = {};
+    
+    for (const field of fields) {
+      visibility[field.id] = !field.showWhen || evaluateCondition(field.showWhen, formValues, scope);
+    }
+    
+    return visibility;
+  }, [fields, scope, formValues]);
+
+  return (
+    <div className="space-y-3">
+      {fields.map((field: FieldSchema) => (
+        // Keyed by plain ID: the scoped ID changes when the instance moves
+        <FieldRenderer
+          key={field.id}
+          schema={{ ...field, id: getScopedId(field.id) }}
+          isVisible={fieldVisibility[field.id]}
+        />
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Section nested inside a repeatable instance. Its values live in the
+ * instance like the instance's own fields (validation expands them the
+ * same way); a hidden nested section hides its children.
+ */
+function InstanceNestedSection({
+  schema,
+  headingLevel,
+  ...fieldProps
+}: Omit<InstanceFieldsProps, 'fields'> & { schema: SectionSchema; headingLevel: number }) {
+  const isVisible = !schema.showWhen ||
+    evaluateCondition(schema.showWhen, fieldProps.formValues, fieldProps.scope);
+  if (!isVisible) return null;
+
+  const level = Math.min(headingLevel, 6);
+  const Heading = `h${level}` as 'h4' | 'h5' | 'h6';
+
+  return (
+    <fieldset className="mt-4 pl-4 border-l-2 border-gray-200">
+      {schema.title && (
+        <legend>
+          <Heading className="text-sm font-semibold text-gray-900 mb-2">{schema.title}</Heading>
+        </legend>
+      )}
+      <InstanceFields fields={schema.fields} {...fieldProps} />
+      {getInstanceSections(schema).map(nestedSection => (
+        <InstanceNestedSection
+          key={nestedSection.id}
+          schema={nestedSection}
+          headingLevel={level + 1}
+          {...fieldProps}
+        />
+      ))}
+    </fieldset>
+  );
+}
+
+/**
+ * Nested sections rendered inside an instance. Repeatable sections can't
+ * nest in a repeatable one (the linter reports them), so they are left out.
+ */
+function getInstanceSections(schema: SectionSchema): SectionSchema[] {
+  return (schema.sections ?? []).filter(section => !section.repeatable);
+}
@@ -0,0 +1,70 @@
+/**
+ * STEP INDICATOR COMPONENT
+ *
+ * Progress display for wizard-mode forms.
+ * Completed steps can be revisited; upcoming steps are not clickable
+ * because forward jumps would skip step validation.
+ */
+
+import type { SectionSchema } from '@/schema/types';
+
+export interface StepIndicatorProps {
+  /** Visible wizard steps */
+  steps: SectionSchema[];
+  /** Position of the active step within `steps` */
+  currentIndex: number;
+  /** Called when a completed step is clicked */
+  onStepClick?: (index: number) => void;
+}
+
+/**
+ * Ordered list of steps with aria-current on the active one.
+ *
+ * @example
+ * <StepIndicator steps={steps} currentIndex={1} onStepClick={goToStep} />
+ */
+export function StepIndicator({ steps, currentIndex, onStepClick }: StepIndicatorProps) {
+  return (
+    <nav aria-label="Form progress" className="mb-6">
+      <p className="text-sm text-gray-600 mb-2">
+        Step {currentIndex + 1} of {steps.length}
+      </p>
+
+      <ol className="flex flex-wrap gap-2">
+        {steps.map((step, index) => {
+          const isCurrent = index === currentIndex;
+          const isComplete = index < currentIndex;
+          const label = step.title || `Step ${index + 1}`;
+
+          const stateClasses = isCurrent
+            ? 'bg-blue-600 text-white'
+            : isComplete
+              ? 'bg-blue-50 text-blue-700 hover:bg-blue-100'
+              : 'bg-gray-100 text-gray-500';
+
+          return (
+            <li key={step.id}>
+              {isComplete && onStepClick ? (
+                <button
+                  type="button"
+                  onClick={() => onStepClick(index)}
+                  className={`px-3 py-1 rounded-full text-sm transition-colors ${stateClasses}`}
+                >
+                  {label}
+                  <span className="sr-only"> (completed)</span>
+                </button>
+              ) : (
+                <span
+                  aria-current={isCurrent ? 'step' : undefined}
+                  className={`inline-block px-3 py-1 rounded-full text-sm ${stateClasses}`}
+                >
+                  {label}
+                </span>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+    </nav>
+  );
+}
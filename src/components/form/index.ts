@@ -1,4 +1,11 @@
 // Form component exports
-export { FormRenderer, type FormRendererProps } from './FormRenderer';
+export {
+  FormRenderer,
+  type FormRendererProps,
+  type AutosaveMeta,
+  type SubmitErrors,
+  type SubmitHandler,
+} from './FormRenderer';
 export { FormSection, type FormSectionProps } from './FormSection';
 export { RepeatableSection, type RepeatableSectionProps } from './RepeatableSection';
+export { StepIndicator, type StepIndicatorProps } from './StepIndicator';
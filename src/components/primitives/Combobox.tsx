@@ -0,0 +1,271 @@
+/**
+ * COMBOBOX PRIMITIVE
+ *
+ * Text input with a popup listbox of suggestions, following the ARIA 1.2
+ * combobox pattern (list autocomplete).
+ *
+ * Design Decisions:
+ * 1. Focus stays in the input; the active option is conveyed with
+ *    aria-activedescendant, so typing and arrowing never fight over focus
+ * 2. Controlled text and options: filtering and fetching belong to the
+ *    caller, which knows whether matches come from memory or a server
+ * 3. Keyboard: ArrowDown/ArrowUp open and move, Enter picks, Escape
+ *    closes (or clears when already closed), Tab leaves
+ */
+
+import { useEffect, useState, type ChangeEvent, type KeyboardEvent, type ReactNode } from 'react';
+import type { SelectOption } from './Select';
+
+export interface ComboboxProps {
+  /** Input ID; the listbox is `${id}-listbox` */
+  id: string;
+  /** Text in the input */
+  inputValue: string;
+  /** Called as the user types */
+  onInputChange: (text: string) => void;
+  /** Suggestions to list (already filtered) */
+  options: SelectOption[];
+  /** Called when an option is picked */
+  onSelect: (option: SelectOption) => void;
+  /** Called on Enter when no option is active, e.g. to accept free text */
+  onCommit?: () => void;
+  /** Called when the input loses focus */
+  onBlur?: () => void;
+  /** Value of the selected option, marked aria-selected */
+  selectedValue?: string | number | null;
+  /** Accessible name of the listbox */
+  listLabel?: string;
+  /** Show a loading status instead of "no results" */
+  isLoading?: boolean;
+  /** Shown when there are no options */
+  noResultsText?: string;
+  placeholder?: string;
+  disabled?: boolean;
+  readOnly?: boolean;
+  /** Whether combobox has validation error */
+  hasError?: boolean;
+  /** IDs of helper/error elements describing the input */
+  describedBy?: string;
+  /** Additional CSS classes for the wrapper */
+  className?: string;
+}
+
+/**
+ * Accessible combobox primitive.
+ *
+ * @example
+ * <Combobox
+ *   id="city"
+ *   inputValue={text}
+ *   onInputChange={setText}
+ *   options={matches}
+ *   onSelect={option => setCity(option.value)}
+ * />
+ */
+export function Combobox({
+  id,
+  inputValue,
+  onInputChange,
+  options,
+  onSelect,
+  onCommit,
+  onBlur,
+  selectedValue,
+  listLabel,
+  isLoading = false,
+  noResultsText = 'No results',
+  placeholder,
+  disabled = false,
+  readOnly = false,
+  hasError = false,
+  describedBy,
+  className = '',
+}: ComboboxProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+
+  const listboxId = `${id}-listbox`;
+  const optionId = (index: number) => `${id}-option-${index}`;
+  const active = isOpen && activeIndex < options.length ? activeIndex : -1;
+  const isEditable = !disabled && !readOnly;
+
+  // Keep the active option in view while arrowing through a long list
+  useEffect(() => {
+    if (active >= 0) {
+      document.getElementById(optionId(active))?.scrollIntoView?.({ block: 'nearest' });
+    }
+  });
+
+  const close = () => {
+    setIsOpen(false);
+    setActiveIndex(-1);
+  };
+
+  const pick = (option: SelectOption) => {
+    if (option.disabled) return;
+    onSelect(option);
+    close();
+  };
+
+  /** Next enabled option from `from` in direction `step`, wrapping around */
+  const findEnabled = (from: number, step: 1 | -1): number => {
+    for (let i = 1; i <= options.length; i++) {
+      const index = (from + step * i + options.length) % options.length;
+      if (!options[index]?.disabled) return index;
+    }
+    return -1;
+  };
+
+  const handleChange = (e: ChangeEvent<HTMLInputElement>) => {
+    onInputChange(e.target.value);
+    setIsOpen(true);
+    setActiveIndex(-1);
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (!isEditable) return;
+
+    switch (e.key) {
+      case 'ArrowDown':
+      case 'ArrowUp': {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setIsOpen(true);
+        // Alt+ArrowDown only opens the list
+        if (!e.altKey) {
+          // With nothing active, start before the first / after the last option
+          const from = active !== -1 ? active : step === 1 ? -1 : options.length;
+          setActiveIndex(findEnabled(from, step));
+        }
+        break;
+      }
+
+      case 'Enter': {
+        if (!isOpen) break;
+        // Don't submit the form while the list is open
+        e.preventDefault();
+        const option = active >= 0 ? options[active] : undefined;
+        if (option) {
+          pick(option);
+        } else {
+          onCommit?.();
+          close();
+        }
+        break;
+      }
+
+      case 'Escape':
+        if (isOpen) {
+          e.preventDefault();
+          close();
+        } else if (inputValue !== '') {
+          onInputChange('');
+        }
+        break;
+
+      case 'Tab':
+        close();
+        break;
+    }
+  };
+
+  const handleBlur = () => {
+    close();
+    onBlur?.();
+  };
+
+  const showStatus = isOpen && (isLoading || options.length === 0);
+
+  return (
+    <div className={`relative ${className}`}>
+      <input
+        id={id}
+        type="text"
+        role="combobox"
+        autoComplete="off"
+        aria-autocomplete="list"
+        aria-expanded={isOpen && options.length > 0}
+        aria-controls={listboxId}
+        aria-activedescendant={active >= 0 ? optionId(active) : undefined}
+        aria-invalid={hasError ? 'true' : undefined}
+        aria-describedby={describedBy}
+        value={inputValue}
+        onChange={handleChange}
+        onKeyDown={handleKeyDown}
+        onBlur={handleBlur}
+        placeholder={placeholder}
+        disabled={disabled}
+        readOnly={readOnly}
+        className={[
+          'block w-full px-3 py-2 rounded-md border text-sm text-gray-900 placeholder:text-gray-400',
+          'focus:outline-none focus:ring-2 focus:ring-offset-0 transition-colors duration-150',
+          hasError
+            ? 'border-error-500 focus:border-error-500 focus:ring-error-500/20'
+            : 'border-gray-300 focus:border-blue-500 focus:ring-blue-500/20',
+          disabled ? 'bg-gray-100 cursor-not-allowed opacity-60' : 'bg-white',
+        ].join(' ')}
+      />
+
+      <ul
+        id={listboxId}
+        role="listbox"
+        aria-label={listLabel}
+        hidden={!isOpen || options.length === 0}
+        className="absolute z-10 mt-1 max-h-60 w-full overflow-auto rounded-md border border-gray-200 bg-white py-1 text-sm shadow-lg"
+      >
+        {options.map((option, index) => {
+          const isSelected = selectedValue !== null && selectedValue !== undefined
+            && String(selectedValue) === String(option.value);
+
+          return (
+            <li
+              key={String(option.value)}
+              id={optionId(index)}
+              role="option"
+              aria-selected={isSelected}
+              aria-disabled={option.disabled || undefined}
+              // Keep focus in the input when clicking an option
+              onMouseDown={e => e.preventDefault()}
+              onClick={() => pick(option)}
+              className={[
+                'cursor-pointer px-3 py-2',
+                index === active ? 'bg-blue-50' : '',
+                isSelected ? 'font-medium' : '',
+                option.disabled ? 'cursor-not-allowed text-gray-400' : 'text-gray-900',
+              ].join(' ')}
+            >
+              {highlightMatch(option.label, inputValue)}
+            </li>
+          );
+        })}
+      </ul>
+
+      {showStatus && (
+        <div
+          role="status"
+          className="absolute z-10 mt-1 w-full rounded-md border border-gray-200 bg-white px-3 py-2 text-sm text-gray-500 shadow-lg"
+        >
+          {isLoading ? 'Loading...' : noResultsText}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Wraps the first case-insensitive occurrence of `query` in <mark>.
+ */
+function highlightMatch(label: string, query: string): ReactNode {
+  const text = query.trim();
+  const index = text ? label.toLowerCase().indexOf(text.toLowerCase()) : -1;
+  if (index === -1) return label;
+
+  const end = index + text.length;
+  return (
+    <>
+      {label.slice(0, index)}
+      <mark className="bg-yellow-100 text-inherit">{label.slice(index, end)}</mark>
+      {label.slice(end)}
+    </>
+  );
+}
@@ -0,0 +1,120 @@
+/**
+ * FILE DROPZONE PRIMITIVE
+ *
+ * Native file input inside an area files can be dropped on.
+ *
+ * Design Decisions:
+ * 1. The native input stays visible and focusable, so keyboard and
+ *    screen reader users pick files the usual way; dropping is an extra
+ * 2. Reports File[] and resets the input, so picking the same file twice
+ *    (e.g. after removing it) still fires a change
+ * 3. No filtering here: dropped files bypass `accept`, so callers check
+ *    every file themselves
+ */
+
+import { useState, type ChangeEvent, type DragEvent } from 'react';
+
+export interface FileDropzoneProps {
+  /** Input ID (for label association) */
+  id: string;
+  /** Called with picked or dropped files */
+  onFiles: (files: File[]) => void;
+  /** Passed to the native input, e.g. '.pdf,.docx' */
+  accept?: string;
+  /** Allow picking several files at once */
+  multiple?: boolean;
+  /** Called when the input loses focus */
+  onBlur?: () => void;
+  /** Short hint shown in the drop area, e.g. accepted types and size */
+  hint?: string;
+  disabled?: boolean;
+  /** Whether dropzone has validation error */
+  hasError?: boolean;
+  /** IDs of helper/error elements describing the input */
+  describedBy?: string;
+  /** Additional CSS classes */
+  className?: string;
+}
+
+/**
+ * Accessible file input with drag-and-drop.
+ *
+ * @example
+ * <FileDropzone id="resume" accept=".pdf" onFiles={uploadFiles} hint="PDF, up to 5 MB" />
+ */
+export function FileDropzone({
+  id,
+  onFiles,
+  accept,
+  multiple = false,
+  onBlur,
+  hint,
+  disabled = false,
+  hasError = false,
+  describedBy,
+  className = '',
+}: FileDropzoneProps) {
+  const [isDragging, setIsDragging] = useState(false);
+
+  const handleChange = (e: ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    if (files.length > 0) onFiles(files);
+  };
+
+  const handleDragOver = (e: DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    if (!disabled) setIsDragging(true);
+  };
+
+  const handleDragLeave = (e: DragEvent<HTMLDivElement>) => {
+    // Moving between children fires dragleave on the container too
+    if (!e.currentTarget.contains(e.relatedTarget as Node | null)) {
+      setIsDragging(false);
+    }
+  };
+
+  const handleDrop = (e: DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    if (disabled) return;
+
+    const files = Array.from(e.dataTransfer.files);
+    if (files.length > 0) onFiles(multiple ? files : files.slice(0, 1));
+  };
+
+  return (
+    <div
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+      data-dragging={isDragging || undefined}
+      className={[
+        'rounded-md border-2 border-dashed px-4 py-4 text-sm transition-colors duration-150',
+        isDragging
+          ? 'border-blue-500 bg-blue-50'
+          : hasError
+            ? 'border-error-500'
+            : 'border-gray-300',
+        disabled ? 'bg-gray-100 opacity-60' : '',
+        className,
+      ].join(' ')}
+    >
+      <input
+        id={id}
+        type="file"
+        accept={accept}
+        multiple={multiple}
+        onChange={handleChange}
+        onBlur={onBlur}
+        disabled={disabled}
+        aria-invalid={hasError ? 'true' : undefined}
+        aria-describedby={describedBy}
+        className="block w-full text-sm text-gray-700 file:mr-3 file:rounded-md file:border-0 file:bg-blue-50 file:px-3 file:py-1.5 file:text-sm file:font-medium file:text-blue-700 hover:file:bg-blue-100 disabled:cursor-not-allowed"
+      />
+      <p className="mt-2 text-gray-500">
+        or drag and drop {multiple ? 'files' : 'a file'} here{hint ? ` · ${hint}` : ''}
+      </p>
+    </div>
+  );
+}
@@ -9,6 +9,8 @@
  * - Works with screen readers without extra work
  * - Mobile-friendly with native picker
  * - Keyboard navigation built-in
+ * 
+ * With `multiple`, value and onChange use a string[] of selected values.
  */
 
 import { forwardRef, type SelectHTMLAttributes, type ChangeEvent } from 'react';
@@ -25,10 +27,12 @@ export interface SelectOption {
 export interface SelectProps extends Omit<SelectHTMLAttributes<HTMLSelectElement>, 'onChange'> {
   /** Unique identifier for the select */
   id: string;
-  /** Current value */
+  /** Current value (string[] when multiple) */
   value: any;
-  /** Change handler receiving the new value */
+  /** Change handler receiving the new value (string[] when multiple) */
   onChange: (value: any) => void;
+  /** Allow selecting several options */
+  multiple?: boolean;
   /** Array of options to display */
   options: SelectOption[];
   /** Placeholder text (first disabled option) */
@@ -64,6 +68,7 @@ export const Select = forwardRef<HTMLSelectElement, SelectProps>(
       onChange,
       options,
       placeholder,
+      multiple = false,
       hasError = false,
       errorId,
       className = '',
@@ -74,6 +79,11 @@ export const Select = forwardRef<HTMLSelectElement, SelectProps>(
   ) {
     // Handle change event
     const handleChange = (e: ChangeEvent<HTMLSelectElement>) => {
+      if (multiple) {
+        onChange(Array.from(e.target.selectedOptions, option => option.value));
+        return;
+      }
+
       const str = e.target.value;
       // Try to map back to original option types (number|string)
       const found = options.find((o) => String(o.value) === str);
@@ -121,8 +131,10 @@ export const Select = forwardRef<HTMLSelectElement, SelectProps>(
       backgroundSize: '1.5rem 1.5rem',
     };
 
-    // Convert null/undefined to empty string to avoid React warning
-    const safeValue = value ?? '';
+    // Convert null/undefined to empty string (or list) to avoid React warning
+    const safeValue = multiple
+      ? (Array.isArray(value) ? value.map(String) : [])
+      : value ?? '';
 
     return (
       <select
@@ -130,15 +142,16 @@ export const Select = forwardRef<HTMLSelectElement, SelectProps>(
         id={id}
         value={safeValue}
         onChange={handleChange}
+        multiple={multiple}
         disabled={disabled}
         aria-invalid={hasError ? 'true' : undefined}
         aria-describedby={hasError && errorId ? errorId : undefined}
         className={combinedClasses}
-        style={arrowStyle}
+        style={multiple ? undefined : arrowStyle}
         {...rest}
       >
         {/* Placeholder option */}
-        {placeholder && (
+        {placeholder && !multiple && (
           <option value="" disabled>
             {placeholder}
           </option>
@@ -0,0 +1,64 @@
+/**
+ * TAG LIST PRIMITIVE
+ *
+ * Selected values shown as removable chips (multi-select).
+ * Each chip's remove button is labelled with the value it removes.
+ */
+
+import type { HTMLAttributes } from 'react';
+import type { SelectOption } from './Select';
+
+export interface TagListProps extends Omit<HTMLAttributes<HTMLUListElement>, 'onChange'> {
+  /** Tags to display */
+  items: SelectOption[];
+  /** Called with the value of a removed tag; omit for read-only tags */
+  onRemove?: (value: SelectOption['value']) => void;
+  /** Disable the remove buttons */
+  disabled?: boolean;
+  /** Additional CSS classes */
+  className?: string;
+}
+
+/**
+ * Accessible list of removable tags.
+ *
+ * @example
+ * <TagList
+ *   aria-label="Selected languages"
+ *   items={[{ value: 'en', label: 'English' }]}
+ *   onRemove={removeLanguage}
+ * />
+ */
+export function TagList({
+  items,
+  onRemove,
+  disabled = false,
+  className = '',
+  ...rest
+}: TagListProps) {
+  if (items.length === 0) return null;
+
+  return (
+    <ul className={`flex flex-wrap gap-1 ${className}`} {...rest}>
+      {items.map(item => (
+        <li
+          key={String(item.value)}
+          className="inline-flex items-center gap-1 rounded-full bg-blue-50 px-2 py-0.5 text-xs font-medium text-blue-700"
+        >
+          {item.label}
+          {onRemove && (
+            <button
+              type="button"
+              onClick={() => onRemove(item.value)}
+              disabled={disabled}
+              aria-label={`Remove ${item.label}`}
+              className="rounded-full leading-none hover:text-blue-900 disabled:cursor-not-allowed disabled:opacity-60 focus:outline-none focus:ring-2 focus:ring-blue-500/20"
+            >
+              <span aria-hidden="true">×</span>
+            </button>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,68 @@
+/**
+ * VALIDATION CHECKLIST PRIMITIVE
+ * 
+ * Lists requirements with met/unmet status, e.g. password rules.
+ * Status is conveyed by text for screen readers, not only by color/icon.
+ */
+
+import type { HTMLAttributes } from 'react';
+
+export type ChecklistStatus = 'met' | 'unmet' | 'pending';
+
+export interface ChecklistItem {
+  /** Stable key */
+  id: string;
+  /** Requirement text */
+  label: string;
+  status: ChecklistStatus;
+}
+
+export interface ValidationChecklistProps extends HTMLAttributes<HTMLUListElement> {
+  /** Unique ID (used for aria-describedby on inputs) */
+  id: string;
+  items: ChecklistItem[];
+  /** Additional CSS classes */
+  className?: string;
+}
+
+const statusStyles: Record<ChecklistStatus, { icon: string; text: string; className: string }> = {
+  met: { icon: '✓', text: 'met', className: 'text-success-600' },
+  unmet: { icon: '✗', text: 'not met', className: 'text-error-600' },
+  pending: { icon: '•', text: 'not checked yet', className: 'text-gray-500' },
+};
+
+/**
+ * Requirement checklist.
+ * 
+ * @example
+ * <ValidationChecklist
+ *   id="password-checklist"
+ *   items={[
+ *     { id: 'length', label: 'At least 8 characters', status: 'met' },
+ *     { id: 'digit', label: 'Contains a number', status: 'unmet' },
+ *   ]}
+ * />
+ */
+export function ValidationChecklist({
+  id,
+  items,
+  className = '',
+  ...rest
+}: ValidationChecklistProps) {
+  if (items.length === 0) return null;
+
+  return (
+    <ul id={id} className={`mt-1 space-y-0.5 text-sm ${className}`} {...rest}>
+      {items.map(item => {
+        const style = statusStyles[item.status];
+        return (
+          <li key={item.id} className={`flex items-center gap-1.5 ${style.className}`}>
+            <span aria-hidden="true">{style.icon}</span>
+            <span>{item.label}</span>
+            <span className="sr-only">({style.text})</span>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
@@ -2,7 +2,17 @@
 export { Input, type InputProps } from './Input';
 export { Select, type SelectProps, type SelectOption } from './Select';
 export { Checkbox, type CheckboxProps } from './Checkbox';
+export { TagList, type TagListProps } from './TagList';
+export { Combobox, type ComboboxProps } from './Combobox';
+export { FileDropzone, type FileDropzoneProps } from './FileDropzone';
+export { RadioGroup, CheckboxGroup, type RadioGroupProps, type CheckboxGroupProps } from './ChoiceGroup';
 export { Textarea, type TextareaProps } from './Textarea';
 export { Button, type ButtonProps, type ButtonVariant, type ButtonSize } from './Button';
 export { Label, type LabelProps } from './Label';
 export { ErrorMessage, HelperText, type ErrorMessageProps, type HelperTextProps } from './ErrorMessage';
+export {
+  ValidationChecklist,
+  type ValidationChecklistProps,
+  type ChecklistItem,
+  type ChecklistStatus,
+} from './ValidationChecklist';
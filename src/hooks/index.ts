@@ -3,3 +3,7 @@ export { useConditional, type UseConditionalOptions, type UseConditionalResult }
 export { useFieldValidation, type UseFieldValidationOptions, type UseFieldValidationResult } from './useValidation';
 export { useAutosave, type UseAutosaveOptions, type AutosaveState, type UseAutosaveResult } from './useAutosave';
 export { useAsyncOptions, type UseAsyncOptionsConfig, type UseAsyncOptionsResult } from './useAsyncOptions';
+export { useFieldOptions, type FieldOptionsSource, type UseFieldOptionsResult } from './useFieldOptions';
+export { useFileUploads, type PendingUpload, type UseFileUploadsOptions, type UseFileUploadsResult } from './useFileUploads';
+export { useWizard, type UseWizardOptions, type UseWizardResult } from './useWizard';
+export { useFieldEffects } from './useFieldEffects';
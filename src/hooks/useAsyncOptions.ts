@@ -2,7 +2,8 @@
  * useAsyncOptions Hook
  * 
  * Fetches options for select fields asynchronously.
- * Supports dependent dropdowns (options based on another field's value).
+ * Supports dependent dropdowns (options based on another field's value)
+ * and server-side search (options for what the user typed).
  */
 
 import { useState, useCallback, useEffect, useRef } from 'react';
@@ -19,6 +20,12 @@ export interface UseAsyncOptionsConfig {
   mapResponse?: (data: unknown) => SelectOption[];
   /** Enable fetching */
   enabled?: boolean;
+  /** Search text; sent as `searchParam` once typing pauses */
+  search?: string;
+  /** Query parameter for the search text; enables server-side search */
+  searchParam?: string;
+  /** Delay after the last search change before fetching, in ms */
+  debounceMs?: number;
 }
 
 export interface UseAsyncOptionsResult {
@@ -41,6 +48,10 @@ export interface UseAsyncOptionsResult {
  *   dependsOn: 'country',
  *   dependencyValue: selectedCountry,
  * });
+ * 
+ * @example
+ * // Server-side search: GET /api/products?q=<search>
+ * const { options } = useAsyncOptions({ url: '/api/products', searchParam: 'q', search });
  */
 export function useAsyncOptions({
   url,
@@ -48,6 +59,9 @@ export function useAsyncOptions({
   dependencyValue,
   mapResponse,
   enabled = true,
+  search = '',
+  searchParam,
+  debounceMs = 300,
 }: UseAsyncOptionsConfig): UseAsyncOptionsResult {
   const [options, setOptions] = useState<SelectOption[]>([]);
   const [isLoading, setIsLoading] = useState(false);
@@ -78,10 +92,18 @@ export function useAsyncOptions({
       return;
     }
 
+    // Nothing to search for yet
+    if (searchParam && search.trim() === '') {
+      setOptions([]);
+      setIsLoading(false);
+      return;
+    }
+
     setIsLoading(true);
     setError(null);
 
-    abortControllerRef.current = new AbortController();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
 
     try {
       // Replace {value} placeholder with dependency value
@@ -89,9 +111,13 @@ export function useAsyncOptions({
       if (dependsOn && dependencyValue) {
         fetchUrl = url.replace('{value}', encodeURIComponent(String(dependencyValue)));
       }
+      if (searchParam) {
+        const separator = fetchUrl.includes('?') ? '&' : '?';
+        fetchUrl += `${separator}${encodeURIComponent(searchParam)}=${encodeURIComponent(search.trim())}`;
+      }
 
       const response = await fetch(fetchUrl, {
-        signal: abortControllerRef.current.signal,
+        signal: controller.signal,
       });
 
       if (!response.ok) {
@@ -111,22 +137,31 @@ export function useAsyncOptions({
       setError('Failed to load options');
       setOptions([]);
     } finally {
-      setIsLoading(false);
+      // A cancelled request's replacement owns the loading flag
+      if (!controller.signal.aborted) setIsLoading(false);
     }
-  }, [url, dependsOn, dependencyValue, mapResponse]);
+  }, [url, dependsOn, dependencyValue, mapResponse, search, searchParam]);
 
-  // Fetch on mount and when dependencies change
+  // Fetch on mount and when dependencies change. Searches wait until
+  // typing pauses; a newer search cancels the pending or in-flight one.
   useEffect(() => {
-    if (enabled) {
+    if (!enabled) return;
+
+    const delay = searchParam ? debounceMs : 0;
+    // Loading while the search waits too, so "no results" doesn't flash first
+    if (delay > 0 && search.trim() !== '') setIsLoading(true);
+    const timer = delay > 0 ? setTimeout(() => void fetchOptions(), delay) : undefined;
+    if (delay === 0) {
       fetchOptions();
     }
 
     return () => {
+      clearTimeout(timer);
       if (abortControllerRef.current) {
         abortControllerRef.current.abort();
       }
     };
-  }, [enabled, fetchOptions]);
+  }, [enabled, fetchOptions, search, searchParam, debounceMs]);
 
   // Clear options when dependency clears
   useEffect(() => {
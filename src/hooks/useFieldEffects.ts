@@ -0,0 +1,34 @@
+/**
+ * useFieldEffects Hook
+ * 
+ * Resolves a field's disable/readOnly/require effects (and those of its
+ * enclosing sections) against current form values.
+ */
+
+import { useMemo } from 'react';
+import { useFormContext } from '@/state';
+import { resolveFieldEffects, type FieldEffectState } from '@/schema/resolver';
+import { collectFields, getFieldIdFromPath, getScopeFromPath } from '@/schema/traverse';
+import type { FieldSchema } from '@/schema/types';
+
+/**
+ * Hook to evaluate a field's effects. Works for fields inside repeatable
+ * instances too, whose ID is their value path (`items[0].quantity`).
+ * 
+ * @example
+ * const { disabled, readOnly, required } = useFieldEffects(schema);
+ */
+export function useFieldEffects(field: FieldSchema): FieldEffectState {
+  const { state, schema } = useFormContext();
+
+  const fieldId = getFieldIdFromPath(field.id);
+  const sections = useMemo(
+    () => collectFields(schema.sections).find(entry => entry.field.id === fieldId)?.sections ?? [],
+    [schema.sections, fieldId]
+  );
+
+  return useMemo(
+    () => resolveFieldEffects(field, sections, state.values, getScopeFromPath(field.id)),
+    [field, sections, state.values]
+  );
+}
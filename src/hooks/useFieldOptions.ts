@@ -0,0 +1,71 @@
+/**
+ * useFieldOptions Hook
+ *
+ * Resolves the options of an option-based field (radio, checkbox group,
+ * combobox): static `options`, or `asyncOptions` fetched through
+ * useAsyncOptions.
+ */
+
+import { useCallback } from 'react';
+import { useFormContext } from '@/state';
+import { deepGet } from '@/utils/deep-get-set';
+import type { SelectOption } from '@/components/primitives';
+import type { AsyncOptionsConfig } from '@/schema/types';
+import { useAsyncOptions } from './useAsyncOptions';
+
+export interface FieldOptionsSource {
+  options?: SelectOption[];
+  asyncOptions?: AsyncOptionsConfig;
+}
+
+export interface UseFieldOptionsResult {
+  options: SelectOption[];
+  isLoading: boolean;
+  /** Message when async options failed to load */
+  error: string | null;
+}
+
+/**
+ * Hook to get a field's options. Async responses are mapped with the
+ * config's responsePath, labelKey and valueKey; the first `dependsOn`
+ * field fills the `{value}` placeholder of the URL. With a `searchParam`,
+ * `search` is sent to the server (static options are not filtered here).
+ *
+ * @example
+ * const { options, isLoading } = useFieldOptions(schema);
+ */
+export function useFieldOptions(
+  { options, asyncOptions }: FieldOptionsSource,
+  search?: string
+): UseFieldOptionsResult {
+  const { state } = useFormContext();
+  const dependsOn = asyncOptions?.dependsOn?.[0];
+  const { responsePath, labelKey = 'label', valueKey = 'value' } = asyncOptions ?? {};
+
+  // Memoized so useAsyncOptions doesn't refetch on every render
+  const mapResponse = useCallback((data: unknown): SelectOption[] => {
+    const items = responsePath ? deepGet(data as Record<string, unknown>, responsePath) : data;
+    if (!Array.isArray(items)) return [];
+
+    return items.map((item: Record<string, unknown>) => ({
+      value: String(item[valueKey] ?? item.id ?? ''),
+      label: String(item[labelKey] ?? item.name ?? ''),
+    }));
+  }, [responsePath, labelKey, valueKey]);
+
+  const async = useAsyncOptions({
+    url: asyncOptions?.url ?? '',
+    dependsOn,
+    dependencyValue: dependsOn ? deepGet(state.values, dependsOn) : undefined,
+    mapResponse,
+    enabled: asyncOptions !== undefined,
+    // Only searches refetch as the text changes
+    search: asyncOptions?.searchParam ? search : undefined,
+    searchParam: asyncOptions?.searchParam,
+    debounceMs: asyncOptions?.debounceMs,
+  });
+
+  return asyncOptions
+    ? { options: async.options, isLoading: async.isLoading, error: async.error }
+    : { options: options ?? [], isLoading: false, error: null };
+}
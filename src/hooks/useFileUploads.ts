@@ -0,0 +1,134 @@
+/**
+ * useFileUploads Hook
+ *
+ * Runs uploads through a registered upload adapter, tracking progress and
+ * supporting cancel and retry. Completed uploads are handed to the caller
+ * and leave the pending list.
+ */
+
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { getUploadAdapter, DEFAULT_UPLOAD_ADAPTER, type UploadedFile } from '@/uploads';
+
+export interface PendingUpload {
+  /** Stable key for rendering and cancel/retry */
+  key: string;
+  file: File;
+  status: 'uploading' | 'failed';
+  /** Fraction uploaded, 0 to 1 */
+  progress: number;
+  /** Message of the last failure */
+  error: string | null;
+}
+
+export interface UseFileUploadsOptions {
+  /** Name of the registered upload adapter (default 'default') */
+  adapter?: string;
+  /** Called with the reference of each completed upload */
+  onUploaded: (file: UploadedFile) => void;
+}
+
+export interface UseFileUploadsResult {
+  /** Uploads in progress or failed */
+  uploads: PendingUpload[];
+  /** Starts uploading files */
+  upload: (files: File[]) => void;
+  /** Cancels an upload in progress, or dismisses a failed one */
+  cancel: (key: string) => void;
+  /** Starts a failed upload again */
+  retry: (key: string) => void;
+}
+
+/**
+ * Hook to upload files with progress, cancel and retry.
+ *
+ * @example
+ * const { uploads, upload, cancel, retry } = useFileUploads({
+ *   adapter: 'resumes',
+ *   onUploaded: file => setValue([...files, file]),
+ * });
+ */
+export function useFileUploads({
+  adapter: adapterName = DEFAULT_UPLOAD_ADAPTER,
+  onUploaded,
+}: UseFileUploadsOptions): UseFileUploadsResult {
+  const [uploads, setUploads] = useState<PendingUpload[]>([]);
+  const controllersRef = useRef(new Map<string, AbortController>());
+  const nextKeyRef = useRef(0);
+
+  // Latest callback, so completions that outlive a render report correctly
+  const onUploadedRef = useRef(onUploaded);
+  onUploadedRef.current = onUploaded;
+
+  const update = useCallback((key: string, changes: Partial<PendingUpload>) => {
+    setUploads(current => current.map(item => (item.key === key ? { ...item, ...changes } : item)));
+  }, []);
+
+  const start = useCallback((key: string, file: File) => {
+    const adapter = getUploadAdapter(adapterName);
+    if (!adapter) {
+      update(key, { status: 'failed', error: `Upload adapter "${adapterName}" is not registered` });
+      return;
+    }
+
+    const controller = new AbortController();
+    controllersRef.current.set(key, controller);
+    update(key, { status: 'uploading', progress: 0, error: null });
+
+    adapter
+      .upload(file, {
+        signal: controller.signal,
+        onProgress: fraction => {
+          if (!controller.signal.aborted) {
+            update(key, { progress: Math.min(Math.max(fraction, 0), 1) });
+          }
+        },
+      })
+      .then(uploaded => {
+        if (controller.signal.aborted) return;
+        controllersRef.current.delete(key);
+        setUploads(current => current.filter(item => item.key !== key));
+        onUploadedRef.current(uploaded);
+      })
+      .catch((err: unknown) => {
+        // Cancelled uploads are already gone from the list
+        if (controller.signal.aborted) return;
+        controllersRef.current.delete(key);
+        update(key, { status: 'failed', error: err instanceof Error ? err.message : 'Upload failed' });
+      });
+  }, [adapterName, update]);
+
+  const upload = useCallback((files: File[]) => {
+    const added = files.map((file): PendingUpload => ({
+      key: `upload-${nextKeyRef.current++}`,
+      file,
+      status: 'uploading',
+      progress: 0,
+      error: null,
+    }));
+
+    setUploads(current => [...current, ...added]);
+    added.forEach(item => start(item.key, item.file));
+  }, [start]);
+
+  const cancel = useCallback((key: string) => {
+    controllersRef.current.get(key)?.abort();
+    controllersRef.current.delete(key);
+    setUploads(current => current.filter(item => item.key !== key));
+  }, []);
+
+  const retry = useCallback((key: string) => {
+    const item = uploads.find(candidate => candidate.key === key);
+    if (item?.status === 'failed') start(key, item.file);
+  }, [uploads, start]);
+
+  // Abort uploads still running when the field unmounts
+  useEffect(() => {
+    const controllers = controllersRef.current;
+    return () => {
+      controllers.forEach(controller => controller.abort());
+      controllers.clear();
+    };
+  }, []);
+
+  return { uploads, upload, cancel, retry };
+}
@@ -3,13 +3,41 @@
  * 
  * Provides field-level and form-level validation.
  * Handles both sync and async validation with debouncing.
+ * Fields with cross-field rules that reference this field
+ * (matchesField, compareField, requiredWhen) are re-validated too.
  */
 
-import { useState, useCallback, useRef, useEffect } from 'react';
-import { useFormContext, useFormDispatch } from '@/state';
+import { useCallback, useRef, useEffect, useMemo } from 'react';
+import { useFormContext, useFormDispatch, usePendingValidations } from '@/state';
 import { formActions } from '@/state/actions';
-import { validateFieldSync } from '@/validation/pipeline';
-import type { ValidationRule, FieldValue } from '@/schema/types';
+import {
+  collectFields,
+  findField,
+  getFieldIdFromPath,
+  getFieldLabels,
+  getInstanceFieldPath,
+  getScopeFromPath,
+  getSectionInstances,
+  type FieldEntry,
+} from '@/schema/traverse';
+import { deepGet, deepSet } from '@/utils/deep-get-set';
+import { isRuleActive } from '@/schema/resolver';
+import {
+  validateFieldSync,
+  getDependentFields,
+  getFieldRules,
+  getRuleContext,
+  shouldRunRule,
+  validateAsyncRule,
+} from '@/validation/pipeline';
+import type {
+  ValidationRule,
+  ValidationTrigger,
+  ValidationMode,
+  AsyncRule,
+  FieldValue,
+  FormValues,
+} from '@/schema/types';
 
 export interface UseFieldValidationOptions {
   /** Field ID */
@@ -18,6 +46,8 @@ export interface UseFieldValidationOptions {
   rules?: ValidationRule[];
   /** Debounce delay for async validation (ms) */
   debounceMs?: number;
+  /** Defaults to the field's own validationMode, then the form schema's */
+  validationMode?: ValidationMode;
 }
 
 export interface UseFieldValidationResult {
@@ -25,8 +55,13 @@ export interface UseFieldValidationResult {
   error: string | null;
   /** Whether async validation is in progress */
   isValidating: boolean;
-  /** Validate the current value */
-  validate: (value: FieldValue) => Promise<string | null>;
+  /** Effective validation mode for this field */
+  mode: ValidationMode;
+  /**
+   * Validate a value. Only rules whose trigger has been reached run:
+   * 'change' (default) while typing, 'blur' on focus loss, 'submit' on submit.
+   */
+  validate: (value: FieldValue, trigger?: ValidationTrigger) => Promise<string | null>;
   /** Clear validation error */
   clearError: () => void;
 }
@@ -39,16 +74,37 @@ export interface UseFieldValidationResult {
  *   fieldId: 'email',
  *   rules: [{ type: 'required' }, { type: 'email' }],
  * });
+ *
+ * <input onChange={e => validate(e.target.value)} onBlur={() => validate(value, 'blur')} />
  */
 export function useFieldValidation({
   fieldId,
   rules = [],
   debounceMs = 300,
+  validationMode,
 }: UseFieldValidationOptions): UseFieldValidationResult {
-  const { state } = useFormContext();
+  const { state, schema } = useFormContext();
   const dispatch = useFormDispatch();
+  const pendingValidations = usePendingValidations();
   
-  const [isValidating, setIsValidating] = useState(false);
+  // Every field type honors its schema's validationMode without passing it in
+  const fieldSchema = useMemo(
+    () => findField(schema.sections, getFieldIdFromPath(fieldId)),
+    [schema, fieldId]
+  );
+  const mode = validationMode ?? fieldSchema?.validationMode ?? schema.validationMode ?? 'firstError';
+  const fieldLabels = useMemo(() => getFieldLabels(schema.sections), [schema]);
+  
+  // Fields whose rules read this field's value (rules reference plain IDs)
+  const dependents = useMemo(() => {
+    const entries = collectFields(schema.sections);
+    const fields = new Set(
+      getDependentFields(entries.map(entry => entry.field), getFieldIdFromPath(fieldId))
+    );
+    return entries.filter(entry => fields.has(entry.field));
+  }, [schema, fieldId]);
+  
+  const isValidating = state.fields[fieldId]?.validating ?? false;
   const abortControllerRef = useRef<AbortController | null>(null);
   const timeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
@@ -64,70 +120,107 @@ export function useFieldValidation({
     };
   }, []);
 
+  // Re-validate dependents the user has already interacted with,
+  // so e.g. a stale "passwords do not match" clears when password changes
+  const revalidateDependents = useCallback((values: FormValues, trigger: ValidationTrigger) => {
+    for (const entry of dependents) {
+      const dependent = entry.field;
+
+      for (const path of getDependentPaths(entry, fieldId, values)) {
+        if (!state.fields[path]?.touched) continue;
+
+        const result = validateFieldSync(
+          path,
+          deepGet<FieldValue>(values, path),
+          getFieldRules(dependent),
+          values,
+          trigger,
+          dependent.validationMode ?? schema.validationMode,
+          fieldLabels
+        );
+        dispatch(formActions.setFieldError(path, result.failures, undefined, result.checkedRules));
+      }
+    }
+  }, [dependents, fieldId, state.fields, schema.validationMode, fieldLabels, dispatch]);
+
   // Validate function
-  const validate = useCallback(async (value: FieldValue): Promise<string | null> => {
+  const validate = useCallback(async (
+    value: FieldValue,
+    trigger: ValidationTrigger = 'change'
+  ): Promise<string | null> => {
     // Cancel previous async validation
     if (timeoutRef.current) clearTimeout(timeoutRef.current);
     if (abortControllerRef.current) abortControllerRef.current.abort();
 
+    // The value being validated may not be in state yet
+    const values: FormValues = deepSet(state.values, fieldId, value);
+
+    revalidateDependents(values, trigger);
+
     // Run sync validation first
-    const syncResult = validateFieldSync(fieldId, value, rules, state.values);
+    const syncResult = validateFieldSync(fieldId, value, rules, values, trigger, mode, fieldLabels);
     
     if (!syncResult.isValid) {
-      const errorMessage = syncResult.errors[0] ?? null;
-      dispatch(formActions.setFieldError(fieldId, errorMessage ? [errorMessage] : []));
-      return errorMessage;
+      dispatch(formActions.setFieldValidating(fieldId, false));
+      dispatch(formActions.setFieldError(fieldId, syncResult.failures, undefined, syncResult.checkedRules));
+      return syncResult.errors[0] ?? null;
     }
 
     // Check for async rules
-    const asyncRule = rules.find(r => r.type === 'async');
+    const context = getRuleContext(fieldId, values);
+    const asyncRule = rules.find((r): r is AsyncRule =>
+      r.type === 'async' && shouldRunRule(r, trigger) && isRuleActive(r, context.values, context.scope)
+    );
     
     if (!asyncRule) {
-      dispatch(formActions.setFieldError(fieldId, []));
+      dispatch(formActions.setFieldValidating(fieldId, false));
+      dispatch(formActions.setFieldError(fieldId, [], undefined, syncResult.checkedRules));
       return null;
     }
 
     // Run async validation with debounce
     return new Promise((resolve) => {
-      setIsValidating(true);
+      dispatch(formActions.setFieldValidating(fieldId, true));
       abortControllerRef.current = new AbortController();
       
-      timeoutRef.current = setTimeout(async () => {
+      const controller = abortControllerRef.current;
+      
+      // Submit cancels this, then validates the field itself
+      const untrack = pendingValidations.track(fieldId, () => {
+        clearTimeout(timeout);
+        controller.abort();
+        dispatch(formActions.setFieldValidating(fieldId, false));
+        resolve(null);
+      });
+      
+      const timeout = setTimeout(async () => {
         try {
-          const url = (asyncRule as { url?: string }).url;
-          if (!url) {
-            setIsValidating(false);
+          const errorMessage = await validateAsyncRule(asyncRule, value, context.values, controller.signal);
+
+          // A newer validation superseded this one (validators may ignore the signal)
+          if (controller.signal.aborted) {
             resolve(null);
             return;
           }
-
-          const response = await fetch(url, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ value }),
-            signal: abortControllerRef.current?.signal,
-          });
-
-          if (!response.ok) throw new Error('Validation request failed');
-
-          const result = await response.json();
-          const errorMessage = result.valid ? null : result.message;
           
-          dispatch(formActions.setFieldError(fieldId, errorMessage ? [errorMessage] : []));
-          setIsValidating(false);
+          dispatch(formActions.setFieldError(
+            fieldId,
+            errorMessage ? [{ message: errorMessage, rule: asyncRule }] : [],
+            undefined,
+            syncResult.checkedRules
+          ));
+          dispatch(formActions.setFieldValidating(fieldId, false));
           resolve(errorMessage);
-        } catch (err) {
-          if ((err as Error).name === 'AbortError') {
-            resolve(null);
-            return;
-          }
-          console.error('Async validation error:', err);
-          setIsValidating(false);
+        } catch {
+          // Aborted: a newer validation owns the validating flag
           resolve(null);
+        } finally {
+          untrack();
         }
-      }, debounceMs);
+      }, asyncRule.debounceMs ?? debounceMs);
+      timeoutRef.current = timeout;
     });
-  }, [fieldId, rules, state.values, dispatch, debounceMs]);
+  }, [fieldId, rules, mode, fieldLabels, state.values, dispatch, pendingValidations, debounceMs, revalidateDependents]);
 
   // Clear error function
   const clearError = useCallback(() => {
@@ -137,7 +230,25 @@ export function useFieldValidation({
   return {
     error,
     isValidating,
+    mode,
     validate,
     clearError,
   };
 }
+
+/**
+ * Value paths of a dependent field: its plain ID outside repeatable sections,
+ * the changed field's instance when both share one, otherwise every instance.
+ */
+function getDependentPaths(entry: FieldEntry, fieldId: string, values: FormValues): string[] {
+  const { field } = entry;
+  const repeatable = [...entry.sections].reverse().find(section => section.repeatable);
+  if (!repeatable) return [field.id];
+
+  const scope = getScopeFromPath(fieldId);
+  if (scope?.startsWith(`${repeatable.id}[`)) return [`${scope}.${field.id}`];
+
+  return getSectionInstances(values, repeatable.id).map((_, index) =>
+    getInstanceFieldPath(repeatable.id, index, field.id)
+  );
+}
@@ -0,0 +1,163 @@
+/**
+ * useWizard Hook
+ *
+ * Drives multi-step (wizard) forms where each top-level section is a step.
+ * - Steps whose section showWhen is false are skipped
+ * - Next validates only the current step's fields
+ * - The active step lives in form state, so it survives autosave/draft restore
+ */
+
+import { useMemo, useCallback } from 'react';
+import { useFormContext, useFormDispatch } from '@/state';
+import { formActions } from '@/state/actions';
+import { evaluateCondition, getDisabledFields, getHiddenFields } from '@/schema/resolver';
+import { collectFields, expandRepeatableFields, getFieldLabels } from '@/schema/traverse';
+import { validateFormSync, validateSections } from '@/validation/pipeline';
+import { announce } from '@/utils/a11y';
+import type { SectionSchema } from '@/schema/types';
+
+export interface UseWizardOptions {
+  /** Sections to page through (usually schema.sections) */
+  sections: SectionSchema[];
+}
+
+export interface UseWizardResult {
+  /** Visible steps, in order */
+  steps: SectionSchema[];
+  /** Position of the active step within `steps` */
+  stepIndex: number;
+  /** Section rendered for the active step */
+  currentSection: SectionSchema | undefined;
+  isFirstStep: boolean;
+  isLastStep: boolean;
+  /** Validate the active step; marks its fields touched and shows errors */
+  validateStep: () => boolean;
+  /** Validate the active step and advance if valid. Returns whether it advanced. */
+  goNext: () => boolean;
+  /** Go to the previous visible step (no validation) */
+  goBack: () => void;
+  /** Jump to an earlier visible step by its position in `steps` */
+  goToStep: (stepIndex: number) => void;
+}
+
+/**
+ * Hook for wizard navigation.
+ *
+ * @example
+ * const { currentSection, goNext, goBack, isLastStep } = useWizard({
+ *   sections: schema.sections,
+ * });
+ */
+export function useWizard({ sections }: UseWizardOptions): UseWizardResult {
+  const { state, schema } = useFormContext();
+  const dispatch = useFormDispatch();
+
+  // Absolute section indices of visible steps
+  const visibleIndices = useMemo(() => {
+    return sections
+      .map((section, index) => ({ section, index }))
+      .filter(({ section }) => !section.showWhen || evaluateCondition(section.showWhen, state.values))
+      .map(({ index }) => index);
+  }, [sections, state.values]);
+
+  // If the stored step is hidden (or out of range), fall forward to the
+  // next visible step, or back to the last one
+  const stepIndex = useMemo(() => {
+    if (visibleIndices.length === 0) return 0;
+    const next = visibleIndices.findIndex(index => index >= state.currentStep);
+    return next === -1 ? visibleIndices.length - 1 : next;
+  }, [visibleIndices, state.currentStep]);
+
+  const steps = useMemo(
+    () => visibleIndices.map(index => sections[index] as SectionSchema),
+    [visibleIndices, sections]
+  );
+
+  const currentSection = steps[stepIndex];
+  const isFirstStep = stepIndex === 0;
+  const isLastStep = stepIndex >= steps.length - 1;
+
+  const moveTo = useCallback((targetIndex: number) => {
+    const sectionIndex = visibleIndices[targetIndex];
+    if (sectionIndex === undefined) return;
+
+    dispatch(formActions.setCurrentStep(sectionIndex));
+
+    const section = sections[sectionIndex];
+    announce(
+      `Step ${targetIndex + 1} of ${visibleIndices.length}${section?.title ? `: ${section.title}` : ''}`
+    );
+  }, [visibleIndices, sections, dispatch]);
+
+  const validateStep = useCallback((): boolean => {
+    if (!currentSection) return true;
+
+    const entries = expandRepeatableFields(collectFields([currentSection]), state.values);
+    const fields = entries.map(entry => entry.field);
+
+    for (const field of fields) {
+      dispatch(formActions.setFieldTouched(field.id, true));
+    }
+
+    const hiddenFields = getHiddenFields(entries, state.values);
+    for (const id of getDisabledFields(entries, state.values)) hiddenFields.add(id);
+
+    const result = validateFormSync(fields, state.values, {
+      hiddenFields,
+      // Leaving a step runs the same rules as submitting it
+      trigger: 'submit',
+      mode: schema.validationMode,
+      // Steps may compare against fields on other steps
+      fieldLabels: getFieldLabels(schema.sections),
+    });
+
+    const failures = { ...result.fieldFailures };
+    const sectionFailures = validateSections([currentSection], state.values);
+    for (const [key, sectionFailure] of Object.entries(sectionFailures)) {
+      failures[key] = [...(failures[key] ?? []), ...sectionFailure];
+      dispatch(formActions.setFieldTouched(key, true));
+    }
+
+    for (const id of new Set([...fields.map(field => field.id), ...Object.keys(failures)])) {
+      dispatch(formActions.setFieldError(id, failures[id] ?? [], undefined, result.fieldCheckedRules[id]));
+    }
+
+    const isValid = Object.keys(failures).length === 0;
+    if (!isValid) {
+      const firstErrorField =
+        fields.find(field => failures[field.id])?.id ?? Object.keys(failures)[0];
+      if (firstErrorField) {
+        document.getElementById(firstErrorField)?.focus();
+      }
+    }
+
+    return isValid;
+  }, [currentSection, state.values, schema.validationMode, schema.sections, dispatch]);
+
+  const goNext = useCallback((): boolean => {
+    if (isLastStep || !validateStep()) return false;
+    moveTo(stepIndex + 1);
+    return true;
+  }, [isLastStep, validateStep, moveTo, stepIndex]);
+
+  const goBack = useCallback(() => {
+    if (!isFirstStep) moveTo(stepIndex - 1);
+  }, [isFirstStep, moveTo, stepIndex]);
+
+  const goToStep = useCallback((targetIndex: number) => {
+    // Only backwards: forward jumps would skip step validation
+    if (targetIndex >= 0 && targetIndex < stepIndex) moveTo(targetIndex);
+  }, [moveTo, stepIndex]);
+
+  return {
+    steps,
+    stepIndex,
+    currentSection,
+    isFirstStep,
+    isLastStep,
+    validateStep,
+    goNext,
+    goBack,
+    goToStep,
+  };
+}
@@ -106,6 +106,8 @@ export const contactFormSchema: FormSchema = {
 export const registrationFormSchema: FormSchema = {
   id: 'registration-form',
   title: 'Create Your Account',
+  // Business details entered before switching back to Individual are not submitted
+  hiddenValuePolicy: 'excludeOnSubmit',
   
   sections: [
     {
@@ -204,6 +206,16 @@ export const registrationFormSchema: FormSchema = {
             { type: 'minLength', value: 8, message: 'Password must be at least 8 characters' },
             { type: 'pattern', value: '(?=.*[0-9])(?=.*[a-z])(?=.*[A-Z])', message: 'Must contain uppercase, lowercase, and number' }
           ]
+        },
+        {
+          id: 'confirmPassword',
+          type: 'text',
+          label: 'Confirm Password',
+          validation: [
+            { type: 'required', message: 'Please confirm your password' },
+            // Cross-field rule - re-validated when password changes
+            { type: 'matchesField', field: 'password', message: 'Passwords do not match' }
+          ]
         }
       ]
     },
@@ -303,6 +315,10 @@ export const orderFormSchema: FormSchema = {
           showWhen: {
             field: 'country',
             operator: 'isNotEmpty'
+          },
+          // A state picked for the previous country no longer applies
+          effects: {
+            clearOnChange: ['country']
           }
         },
         {
@@ -323,6 +339,18 @@ export const orderFormSchema: FormSchema = {
           label: 'Street Address',
           rows: 2,
           validation: [{ type: 'required', message: 'Address is required' }]
+        },
+        {
+          id: 'deliveryDate',
+          type: 'date',
+          label: 'Delivery date',
+          min: 'today+1d',
+          max: 'today+60d',
+          validation: [
+            { type: 'minDate', value: 'today+1d', message: 'Earliest delivery is tomorrow' },
+            { type: 'maxDate', value: 'today+60d', message: 'We deliver up to 60 days ahead' },
+            { type: 'notWeekend', message: 'We deliver on weekdays only' }
+          ]
         }
       ]
     },
@@ -333,16 +361,32 @@ export const orderFormSchema: FormSchema = {
       repeatable: true,
       minInstances: 1,
       maxInstances: 10,
+      // Checked on submit across all items
+      validation: [
+        { type: 'uniqueBy', field: 'productId', message: 'This product is already in the order' },
+        {
+          type: 'aggregate',
+          aggregate: 'sum',
+          expression: { ref: 'quantity' },
+          operator: 'lessThanOrEqual',
+          value: 100,
+          message: 'An order can contain at most 100 units in total'
+        }
+      ],
       fields: [
         {
           id: 'productId',
-          type: 'select',
+          type: 'combobox',
           label: 'Product',
+          placeholder: 'Search products...',
+          // Server-side search: /api/products?q=<typed text>
           asyncOptions: {
             url: '/api/products',
+            searchParam: 'q',
             labelKey: 'name',
             valueKey: 'id'
           },
+          noResultsText: 'No matching products',
           validation: [{ type: 'required', message: 'Select a product' }]
         },
         {
@@ -356,6 +400,23 @@ export const orderFormSchema: FormSchema = {
             { type: 'required', message: 'Quantity is required' },
             { type: 'min', value: 1, message: 'Minimum quantity is 1' }
           ]
+        },
+        {
+          id: 'unitPrice',
+          type: 'number',
+          label: 'Unit Price',
+          min: 0,
+          step: 0.01
+        },
+        {
+          id: 'lineTotal',
+          type: 'number',
+          label: 'Line Total',
+          // COMPUTED - evaluated per item, read-only
+          computed: {
+            op: 'round',
+            args: [{ op: 'multiply', args: [{ ref: 'quantity' }, { ref: 'unitPrice' }] }, 2]
+          }
         }
       ]
     },
@@ -363,6 +424,17 @@ export const orderFormSchema: FormSchema = {
       id: 'payment',
       title: 'Payment Method',
       fields: [
+        {
+          id: 'orderTotal',
+          type: 'number',
+          label: 'Order Total',
+          // Aggregate over the repeatable items section
+          computed: {
+            aggregate: 'sum',
+            section: 'items',
+            expression: { ref: 'lineTotal' }
+          }
+        },
         {
           id: 'paymentMethod',
           type: 'select',
@@ -476,6 +548,32 @@ export const surveyFormSchema: FormSchema = {
             { label: 'Other', value: 'other' }
           ]
         },
+        {
+          id: 'otherIssues',
+          type: 'select',
+          label: 'Anything else that went wrong?',
+          multiple: true,
+          options: [
+            { label: 'Product Quality', value: 'quality' },
+            { label: 'Customer Service', value: 'service' },
+            { label: 'Delivery/Shipping', value: 'delivery' },
+            { label: 'Pricing', value: 'pricing' },
+            { label: 'Website/App Issues', value: 'technical' }
+          ],
+          validation: [{ type: 'maxItems', value: 3, message: 'Pick up to three' }]
+        },
+        {
+          id: 'deviceInfo',
+          type: 'text',
+          label: 'Which device were you using?',
+          // Shown when either issue list mentions the website or app
+          showWhen: {
+            or: [
+              { field: 'issueCategory', operator: 'equals', value: 'technical' },
+              { field: 'otherIssues', operator: 'contains', value: 'technical' }
+            ]
+          }
+        },
         {
           id: 'issueDetails',
           type: 'textarea',
@@ -504,6 +602,18 @@ export const surveyFormSchema: FormSchema = {
         ]
       },
       fields: [
+        {
+          id: 'highlights',
+          type: 'checkboxGroup',
+          label: 'What did you like most?',
+          options: [
+            { label: 'Product quality', value: 'quality' },
+            { label: 'Delivery speed', value: 'delivery' },
+            { label: 'Customer support', value: 'support' },
+            { label: 'Price', value: 'price' }
+          ],
+          validation: [{ type: 'maxSelected', value: 2, message: 'Pick your top two' }]
+        },
         {
           id: 'testimonial',
           type: 'textarea',
@@ -548,7 +658,7 @@ export const surveyFormSchema: FormSchema = {
         },
         {
           id: 'preferredContactTime',
-          type: 'select',
+          type: 'radio',
           label: 'Preferred contact time',
           options: [
             { label: 'Morning (9am-12pm)', value: 'morning' },
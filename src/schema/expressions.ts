@@ -0,0 +1,231 @@
+/**
+ * EXPRESSION EVALUATOR
+ *
+ * Evaluates `computed` expressions against form values.
+ *
+ * Design Decisions:
+ * 1. Pure functions: no React or state knowledge, so the reducer can use them
+ * 2. Repeatable sections are passed in as per-instance value lists, keeping
+ *    the evaluator independent of how instances are stored
+ * 3. Bad input never throws: non-numeric arithmetic yields null
+ */
+
+import type { Expression, FieldValue, FormValues } from './types';
+import {
+  isAggregateExpression,
+  isConditionalExpression,
+  isFieldRefExpression,
+  isOperatorExpression,
+} from './types';
+import { evaluateCondition, getConditionDependencies } from './resolver';
+
+export interface ExpressionContext {
+  /** Values visible to refs */
+  values: FormValues;
+  /** Instance values for each repeatable section, keyed by section ID */
+  instances?: Record<string, FormValues[]>;
+}
+
+/**
+ * Evaluates an expression to a field value.
+ *
+ * @example
+ * evaluateExpression(
+ *   { op: 'multiply', args: [{ ref: 'quantity' }, { ref: 'price' }] },
+ *   { values: { quantity: 2, price: 5 } }
+ * ); // 10
+ */
+export function evaluateExpression(expression: Expression, context: ExpressionContext): FieldValue {
+  if (expression === null || typeof expression !== 'object') {
+    return expression;
+  }
+
+  if (isFieldRefExpression(expression)) {
+    return context.values[expression.ref] ?? null;
+  }
+
+  if (isConditionalExpression(expression)) {
+    const branch = evaluateCondition(expression.if, context.values)
+      ? expression.then
+      : expression.else ?? null;
+    return evaluateExpression(branch, context);
+  }
+
+  if (isAggregateExpression(expression)) {
+    return evaluateAggregate(expression.aggregate, expression.section, expression.expression, context);
+  }
+
+  if (isOperatorExpression(expression)) {
+    const args = expression.args.map(arg => evaluateExpression(arg, context));
+    return applyOperator(expression.op, args);
+  }
+
+  return null;
+}
+
+// ============================================================================
+// OPERATORS
+// ============================================================================
+
+function applyOperator(op: string, args: FieldValue[]): FieldValue {
+  switch (op) {
+    case 'add':
+      return arithmetic(args, (a, b) => a + b);
+
+    case 'subtract':
+      return arithmetic(args, (a, b) => a - b);
+
+    case 'multiply':
+      return arithmetic(args, (a, b) => a * b);
+
+    case 'divide':
+      return arithmetic(args, (a, b) => (b === 0 ? NaN : a / b));
+
+    case 'round': {
+      const value = toNumber(args[0]);
+      const digits = toNumber(args[1] ?? 0);
+      if (value === null || digits === null) return null;
+      const factor = 10 ** digits;
+      return Math.round(value * factor) / factor;
+    }
+
+    case 'concat':
+      return args.map(arg => (arg === null || arg === undefined ? '' : String(arg))).join('');
+
+    case 'coalesce':
+      return args.find(arg => !isEmptyValue(arg)) ?? null;
+
+    default:
+      console.warn('Unknown expression operator:', op);
+      return null;
+  }
+}
+
+function arithmetic(args: FieldValue[], combine: (a: number, b: number) => number): FieldValue {
+  const numbers = args.map(toNumber);
+  if (numbers.length === 0 || numbers.some(n => n === null)) return null;
+
+  const result = (numbers as number[]).reduce((acc, n) => combine(acc, n));
+  return Number.isFinite(result) ? result : null;
+}
+
+/**
+ * Coerces a value for arithmetic. Empty values count as 0 so a
+ * half-filled form still shows a running total.
+ */
+function toNumber(value: FieldValue): number | null {
+  if (isEmptyValue(value)) return 0;
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (typeof value === 'string') {
+    const parsed = Number(value.trim());
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+}
+
+function isEmptyValue(value: FieldValue): boolean {
+  return value === null || value === undefined || (typeof value === 'string' && value.trim() === '');
+}
+
+// ============================================================================
+// AGGREGATES
+// ============================================================================
+
+function evaluateAggregate(
+  aggregate: string,
+  sectionId: string,
+  expression: Expression | undefined,
+  context: ExpressionContext
+): FieldValue {
+  const instances = context.instances?.[sectionId] ?? [];
+
+  if (aggregate === 'count') return instances.length;
+
+  // Instance fields shadow form-level fields inside the per-instance expression
+  const numbers = instances
+    .map(instanceValues => evaluateExpression(expression ?? null, {
+      ...context,
+      values: { ...context.values, ...instanceValues },
+    }))
+    .filter(value => !isEmptyValue(value))
+    .map(toNumber)
+    .filter((n): n is number => n !== null);
+
+  switch (aggregate) {
+    case 'sum':
+      return numbers.reduce((acc, n) => acc + n, 0);
+
+    case 'avg':
+      return numbers.length === 0 ? null : numbers.reduce((acc, n) => acc + n, 0) / numbers.length;
+
+    case 'min':
+      return numbers.length === 0 ? null : Math.min(...numbers);
+
+    case 'max':
+      return numbers.length === 0 ? null : Math.max(...numbers);
+
+    default:
+      console.warn('Unknown aggregate:', aggregate);
+      return null;
+  }
+}
+
+// ============================================================================
+// STATIC ANALYSIS
+// ============================================================================
+
+/**
+ * Lists the field IDs an expression reads, in the order they appear.
+ * Refs inside an aggregate refer to fields of the aggregated section.
+ */
+export function getExpressionDependencies(expression: Expression): string[] {
+  if (expression === null || typeof expression !== 'object') return [];
+
+  if (isFieldRefExpression(expression)) return [expression.ref];
+
+  if (isConditionalExpression(expression)) {
+    return [
+      ...getConditionDependencies(expression.if),
+      ...getExpressionDependencies(expression.then),
+      ...(expression.else === undefined ? [] : getExpressionDependencies(expression.else)),
+    ];
+  }
+
+  if (isAggregateExpression(expression)) {
+    return expression.expression === undefined ? [] : getExpressionDependencies(expression.expression);
+  }
+
+  if (isOperatorExpression(expression)) {
+    return expression.args.flatMap(getExpressionDependencies);
+  }
+
+  return [];
+}
+
+/**
+ * Lists the repeatable section IDs an expression aggregates over.
+ */
+export function getExpressionSections(expression: Expression): string[] {
+  if (expression === null || typeof expression !== 'object') return [];
+
+  if (isAggregateExpression(expression)) {
+    return [
+      expression.section,
+      ...(expression.expression === undefined ? [] : getExpressionSections(expression.expression)),
+    ];
+  }
+
+  if (isConditionalExpression(expression)) {
+    return [
+      ...getExpressionSections(expression.then),
+      ...(expression.else === undefined ? [] : getExpressionSections(expression.else)),
+    ];
+  }
+
+  if (isOperatorExpression(expression)) {
+    return expression.args.flatMap(getExpressionSections);
+  }
+
+  return [];
+}
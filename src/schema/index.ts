@@ -1,3 +1,7 @@
 // Schema exports
 export * from './types';
 export * from './examples';
+export * from './validator';
+export * from './traverse';
+export * from './linter';
+export * from './expressions';
@@ -0,0 +1,436 @@
+/**
+ * SCHEMA LINTER
+ *
+ * Static checks on a structurally valid FormSchema (see validator.ts).
+ * Catches mistakes that type-check fine but misbehave at runtime:
+ * - Duplicate field/section IDs (state keys collide), including instance
+ *   fields shadowing top-level fields in instance-scoped conditions
+ * - Repeatable sections nested in repeatable sections (not supported)
+ * - showWhen/effect conditions and cross-field rules referencing fields that don't exist
+ * - asyncOptions.dependsOn pointing at missing or later fields
+ * - Visibility cycles (a field's visibility depending on itself)
+ * - Computed expressions referencing missing fields/sections, or each other in a cycle
+ */
+
+import type { Condition, FieldEffects, FormSchema, SectionSchema } from './types';
+import type { SchemaDiagnostic } from './validator';
+import { getConditionDependencies, getReferencedFieldId, getRuleDependencies } from './resolver';
+import { getExpressionDependencies, getExpressionSections } from './expressions';
+import { collectFields, collectSections, type FieldEntry } from './traverse';
+
+export type LintRule =
+  | 'duplicate-field-id'
+  | 'duplicate-section-id'
+  | 'shadowed-field-id'
+  | 'nested-repeatable'
+  | 'unknown-condition-field'
+  | 'unknown-rule-field'
+  | 'unknown-dependency'
+  | 'forward-dependency'
+  | 'visibility-cycle'
+  | 'unknown-expression-field'
+  | 'unknown-expression-section'
+  | 'computed-cycle';
+
+export interface LintDiagnostic extends SchemaDiagnostic {
+  rule: LintRule;
+  /** Errors break the form at runtime; warnings are likely mistakes */
+  severity: 'error' | 'warning';
+}
+
+/**
+ * Runs all lint checks and returns diagnostics in schema order.
+ *
+ * @example
+ * const problems = lintFormSchema(schema);
+ * problems.forEach(p => console.warn(formatSchemaDiagnostic(p)));
+ */
+export function lintFormSchema(schema: FormSchema): LintDiagnostic[] {
+  const fields = collectFields(schema.sections);
+
+  return [
+    ...checkDuplicateIds(schema),
+    ...checkNestedRepeatables(schema),
+    ...checkConditionReferences(schema, fields),
+    ...checkAsyncDependencies(fields),
+    ...checkVisibilityCycles(fields),
+    ...checkExpressionReferences(schema, fields),
+    ...checkComputedCycles(fields),
+  ];
+}
+
+// ============================================================================
+// DUPLICATE IDS
+// ============================================================================
+
+function checkDuplicateIds(schema: FormSchema): LintDiagnostic[] {
+  const diagnostics: LintDiagnostic[] = [];
+
+  const firstSection = new Map<string, string>();
+  for (const { section, path } of collectSections(schema.sections)) {
+    const first = firstSection.get(section.id);
+    if (first) {
+      diagnostics.push({
+        rule: 'duplicate-section-id',
+        severity: 'error',
+        path: `${path}.id`,
+        message: `duplicate section id "${section.id}" (first declared at ${first})`,
+      });
+    } else {
+      firstSection.set(section.id, path);
+    }
+  }
+
+  const firstField = new Map<string, FieldEntry>();
+  for (const entry of collectFields(schema.sections)) {
+    const { field, path } = entry;
+    const first = firstField.get(field.id);
+    if (!first) {
+      firstField.set(field.id, entry);
+      continue;
+    }
+
+    // Instance values are merged over form values in instance-scoped
+    // conditions, so the instance field wins over the top-level one
+    const ownSection = getRepeatableSection(entry);
+    const firstSection = getRepeatableSection(first);
+    if (!ownSection !== !firstSection) {
+      diagnostics.push({
+        rule: 'shadowed-field-id',
+        severity: 'error',
+        path: `${path}.id`,
+        message: `field id "${field.id}" in repeatable section "${(ownSection ?? firstSection)?.id}" shadows the top-level field (first declared at ${first.path})`,
+      });
+    } else {
+      diagnostics.push({
+        rule: 'duplicate-field-id',
+        severity: 'error',
+        path: `${path}.id`,
+        message: `duplicate field id "${field.id}" (first declared at ${first.path})`,
+      });
+    }
+  }
+
+  return diagnostics;
+}
+
+/** Innermost repeatable section a field belongs to */
+function getRepeatableSection({ sections }: FieldEntry): SectionSchema | undefined {
+  return [...sections].reverse().find(section => section.repeatable);
+}
+
+// ============================================================================
+// NESTED REPEATABLES
+// ============================================================================
+
+/**
+ * Instance values can't hold another repeatable's instances, so such a
+ * section is neither rendered inside instances nor validated.
+ */
+function checkNestedRepeatables(schema: FormSchema): LintDiagnostic[] {
+  return collectSections(schema.sections)
+    .filter(({ section, ancestors }) => section.repeatable && ancestors.some(ancestor => ancestor.repeatable))
+    .map(({ section, path }) => ({
+      rule: 'nested-repeatable',
+      severity: 'error',
+      path: `${path}.repeatable`,
+      message: `repeatable section "${section.id}" is nested in another repeatable section`,
+    }));
+}
+
+// ============================================================================
+// CONDITION REFERENCES
+// ============================================================================
+
+function checkConditionReferences(schema: FormSchema, fields: FieldEntry[]): LintDiagnostic[] {
+  const diagnostics: LintDiagnostic[] = [];
+  const fieldIds = new Set(fields.map(entry => entry.field.id));
+
+  const checkCondition = (condition: Condition | undefined, path: string) => {
+    if (!condition) return;
+
+    for (const reference of new Set(getConditionDependencies(condition))) {
+      if (!fieldIds.has(reference)) {
+        diagnostics.push({
+          rule: 'unknown-condition-field',
+          severity: 'error',
+          path,
+          message: `condition references unknown field "${reference}"`,
+        });
+      }
+    }
+  };
+
+  const checkEffects = (effects: FieldEffects | undefined, path: string) => {
+    for (const [condition, conditionPath] of getEffectConditions(effects, `${path}.effects`)) {
+      checkCondition(condition, conditionPath);
+    }
+
+    effects?.clearOnChange?.forEach((reference, index) => {
+      const fieldId = getReferencedFieldId(reference);
+      if (!fieldIds.has(fieldId)) {
+        diagnostics.push({
+          rule: 'unknown-condition-field',
+          severity: 'error',
+          path: `${path}.effects.clearOnChange[${index}]`,
+          message: `effect references unknown field "${fieldId}"`,
+        });
+      }
+    });
+  };
+
+  for (const { section, path } of collectSections(schema.sections)) {
+    checkCondition(section.showWhen, `${path}.showWhen`);
+    checkEffects(section.effects, path);
+  }
+
+  for (const { field, path } of fields) {
+    checkCondition(field.showWhen, `${path}.showWhen`);
+    checkEffects(field.effects, path);
+
+    field.validation?.forEach((rule, index) => {
+      for (const reference of new Set(getRuleDependencies(rule))) {
+        if (!fieldIds.has(reference)) {
+          diagnostics.push({
+            rule: 'unknown-rule-field',
+            severity: 'error',
+            path: `${path}.validation[${index}]`,
+            message: `rule "${rule.type}" references unknown field "${reference}"`,
+          });
+        }
+      }
+    });
+  }
+
+  return diagnostics;
+}
+
+/**
+ * Every condition in an effects block, with its schema path.
+ */
+function getEffectConditions(effects: FieldEffects | undefined, path: string): Array<[Condition, string]> {
+  if (!effects) return [];
+
+  const conditions: Array<[Condition, string]> = [];
+  for (const key of ['disableWhen', 'readOnlyWhen', 'requireWhen', 'clearWhen'] as const) {
+    const condition = effects[key];
+    if (condition) conditions.push([condition, `${path}.${key}`]);
+  }
+
+  const setValueWhen = effects.setValueWhen;
+  if (Array.isArray(setValueWhen)) {
+    setValueWhen.forEach((effect, index) =>
+      conditions.push([effect.when, `${path}.setValueWhen[${index}].when`]));
+  } else if (setValueWhen) {
+    conditions.push([setValueWhen.when, `${path}.setValueWhen.when`]);
+  }
+
+  return conditions;
+}
+
+// ============================================================================
+// ASYNC OPTION DEPENDENCIES
+// ============================================================================
+
+function checkAsyncDependencies(fields: FieldEntry[]): LintDiagnostic[] {
+  const diagnostics: LintDiagnostic[] = [];
+  const positions = new Map<string, number>();
+
+  fields.forEach(({ field }, index) => {
+    if (!positions.has(field.id)) positions.set(field.id, index);
+  });
+
+  fields.forEach(({ field, path }, index) => {
+    // Every field type that takes options (select, radio, checkboxGroup, combobox)
+    const dependsOn = 'asyncOptions' in field ? field.asyncOptions?.dependsOn : undefined;
+    if (!dependsOn) return;
+
+    dependsOn.forEach((dependency, dependencyIndex) => {
+      const dependencyPath = `${path}.asyncOptions.dependsOn[${dependencyIndex}]`;
+      const position = positions.get(dependency);
+
+      if (position === undefined) {
+        diagnostics.push({
+          rule: 'unknown-dependency',
+          severity: 'error',
+          path: dependencyPath,
+          message: `depends on unknown field "${dependency}"`,
+        });
+      } else if (position >= index) {
+        diagnostics.push({
+          rule: 'forward-dependency',
+          severity: 'warning',
+          path: dependencyPath,
+          message: position === index
+            ? `field "${field.id}" depends on itself`
+            : `depends on field "${dependency}" which appears later in the form`,
+        });
+      }
+    });
+  });
+
+  return diagnostics;
+}
+
+// ============================================================================
+// VISIBILITY CYCLES
+// ============================================================================
+
+/**
+ * Fields whose values decide whether `entry` is visible:
+ * its own showWhen plus the showWhen of every enclosing section.
+ */
+function getVisibilityDependencies(entry: FieldEntry): string[] {
+  const conditions = [
+    ...entry.sections.map(section => section.showWhen),
+    entry.field.showWhen,
+  ];
+
+  return conditions.flatMap(condition =>
+    condition ? getConditionDependencies(condition) : []
+  );
+}
+
+function checkVisibilityCycles(fields: FieldEntry[]): LintDiagnostic[] {
+  const byId = indexById(fields);
+
+  const graph = new Map<string, string[]>();
+  for (const [id, entry] of byId) {
+    graph.set(id, [...new Set(getVisibilityDependencies(entry))].filter(dep => byId.has(dep)));
+  }
+
+  return findCycles(graph).map(cycle => {
+    const start = cycle[0] as string;
+    return {
+      rule: 'visibility-cycle',
+      severity: 'error',
+      path: (byId.get(start) as FieldEntry).path,
+      message: `visibility of "${start}" depends on itself: ${[...cycle, start].join(' -> ')}`,
+    };
+  });
+}
+
+// ============================================================================
+// COMPUTED EXPRESSIONS
+// ============================================================================
+
+function checkExpressionReferences(schema: FormSchema, fields: FieldEntry[]): LintDiagnostic[] {
+  const diagnostics: LintDiagnostic[] = [];
+  const fieldIds = new Set(fields.map(entry => entry.field.id));
+  const repeatableIds = new Set(
+    collectSections(schema.sections)
+      .filter(entry => entry.section.repeatable)
+      .map(entry => entry.section.id)
+  );
+
+  for (const { field, path } of fields) {
+    if (field.computed === undefined) continue;
+    const computedPath = `${path}.computed`;
+
+    for (const reference of new Set(getExpressionDependencies(field.computed))) {
+      if (!fieldIds.has(reference)) {
+        diagnostics.push({
+          rule: 'unknown-expression-field',
+          severity: 'error',
+          path: computedPath,
+          message: `expression references unknown field "${reference}"`,
+        });
+      }
+    }
+
+    for (const sectionId of new Set(getExpressionSections(field.computed))) {
+      if (!repeatableIds.has(sectionId)) {
+        diagnostics.push({
+          rule: 'unknown-expression-section',
+          severity: 'error',
+          path: computedPath,
+          message: `aggregate over "${sectionId}" which is not a repeatable section`,
+        });
+      }
+    }
+  }
+
+  return diagnostics;
+}
+
+function checkComputedCycles(fields: FieldEntry[]): LintDiagnostic[] {
+  const byId = indexById(fields.filter(entry => entry.field.computed !== undefined));
+
+  const graph = new Map<string, string[]>();
+  for (const [id, entry] of byId) {
+    const dependencies = getExpressionDependencies(entry.field.computed ?? null);
+    graph.set(id, [...new Set(dependencies)].filter(dep => byId.has(dep)));
+  }
+
+  return findCycles(graph).map(cycle => {
+    const start = cycle[0] as string;
+    return {
+      rule: 'computed-cycle',
+      severity: 'error',
+      path: `${(byId.get(start) as FieldEntry).path}.computed`,
+      message: `computed value of "${start}" depends on itself: ${[...cycle, start].join(' -> ')}`,
+    };
+  });
+}
+
+// ============================================================================
+// GRAPH HELPERS
+// ============================================================================
+
+/** First entry per field ID (duplicates are reported separately) */
+function indexById(fields: FieldEntry[]): Map<string, FieldEntry> {
+  const byId = new Map<string, FieldEntry>();
+  for (const entry of fields) {
+    if (!byId.has(entry.field.id)) byId.set(entry.field.id, entry);
+  }
+  return byId;
+}
+
+/**
+ * Depth-first search over a dependency graph; a dependency still on the
+ * stack closes a cycle. Each cycle is returned once, starting at the node
+ * where it was closed.
+ */
+function findCycles(graph: Map<string, string[]>): string[][] {
+  const cycles: string[][] = [];
+  const state = new Map<string, 'visiting' | 'done'>();
+  const stack: string[] = [];
+  const reported = new Set<string>();
+
+  const visit = (id: string) => {
+    state.set(id, 'visiting');
+    stack.push(id);
+
+    for (const dependency of graph.get(id) ?? []) {
+      const dependencyState = state.get(dependency);
+
+      if (dependencyState === 'visiting') {
+        const cycle = stack.slice(stack.indexOf(dependency));
+        const key = [...cycle].sort().join('|');
+
+        if (!reported.has(key)) {
+          reported.add(key);
+          cycles.push(cycle);
+        }
+      } else if (dependencyState === undefined) {
+        visit(dependency);
+      }
+    }
+
+    stack.pop();
+    state.set(id, 'done');
+  };
+
+  for (const id of graph.keys()) {
+    if (!state.has(id)) visit(id);
+  }
+
+  return cycles;
+}
+
+/**
+ * Convenience: true when the schema has no lint errors (warnings allowed).
+ */
+export function isLintClean(diagnostics: LintDiagnostic[]): boolean {
+  return diagnostics.every(diagnostic => diagnostic.severity !== 'error');
+}
@@ -5,6 +5,10 @@
  * Used to determine field/section visibility.
  * 
  * Design: Recursive evaluation of AND/OR/NOT/Simple conditions
+ * 
+ * Inside a repeatable instance, conditions can refer to siblings
+ * (`$instance.type`, `../type`) and across instances with wildcards
+ * (`items[*].quantity`, matched with `any` or `all`).
  */
 
 import type {
@@ -14,32 +18,42 @@ import type {
   OrCondition,
   NotCondition,
   FormValues,
-  FieldValue,
+  ValidationRule,
+  FieldSchema,
+  SectionSchema,
+  HiddenValuePolicy,
 } from './types';
+import type { FieldEntry } from './traverse';
+import { expandRepeatableFields, getFieldIdFromPath } from './traverse';
+import { deepGet, deepGetAll, isWildcardPath, toPathKeys } from '../utils/deep-get-set';
 
 /**
  * Evaluates a condition against current form values.
  * Returns true if condition is met, false otherwise.
+ * 
+ * `scope` is the value path of the repeatable instance the condition
+ * belongs to (e.g. `items[1]`); it resolves `$instance.` and `../` references.
  */
 export function evaluateCondition(
   condition: Condition,
-  values: FormValues
+  values: FormValues,
+  scope?: string
 ): boolean {
   // Type guards for discriminated union
   if ('field' in condition && 'operator' in condition) {
-    return evaluateSimpleCondition(condition as SimpleCondition, values);
+    return evaluateSimpleCondition(condition as SimpleCondition, values, scope);
   }
   
   if ('and' in condition) {
-    return evaluateAndCondition(condition as AndCondition, values);
+    return evaluateAndCondition(condition as AndCondition, values, scope);
   }
   
   if ('or' in condition) {
-    return evaluateOrCondition(condition as OrCondition, values);
+    return evaluateOrCondition(condition as OrCondition, values, scope);
   }
   
   if ('not' in condition) {
-    return evaluateNotCondition(condition as NotCondition, values);
+    return evaluateNotCondition(condition as NotCondition, values, scope);
   }
   
   // Unknown condition type - default to visible
@@ -49,41 +63,84 @@ export function evaluateCondition(
 
 /**
  * Evaluates a simple field comparison condition.
+ * Wildcard paths compare every matched value (any/all).
  */
 function evaluateSimpleCondition(
   condition: SimpleCondition,
-  values: FormValues
+  values: FormValues,
+  scope?: string
 ): boolean {
-  const fieldValue = getNestedValue(values, condition.field);
-  const compareValue = condition.value;
+  const compareValue = condition.valueFrom !== undefined
+    ? resolveConditionValue(values, condition.valueFrom, scope)
+    : condition.value;
+
+  const path = resolveConditionPath(condition.field, scope);
+  if (path === undefined) {
+    return compareConditionValue(condition.operator, undefined, compareValue);
+  }
+
+  if (isWildcardPath(path)) {
+    const matches = getNestedValue(values, path) as unknown[];
+    return condition.match === 'all'
+      ? matches.every(value => compareConditionValue(condition.operator, value, compareValue))
+      : matches.some(value => compareConditionValue(condition.operator, value, compareValue));
+  }
+
+  return compareConditionValue(condition.operator, getNestedValue(values, path), compareValue);
+}
+
+/**
+ * Value of a (possibly instance-relative) path; undefined when unresolvable.
+ */
+function resolveConditionValue(values: FormValues, field: string, scope?: string): unknown {
+  const path = resolveConditionPath(field, scope);
+  return path === undefined ? undefined : getNestedValue(values, path);
+}
 
-  switch (condition.operator) {
+/**
+ * Applies a simple condition's operator to one value.
+ */
+function compareConditionValue(
+  operator: SimpleCondition['operator'],
+  fieldValue: unknown,
+  compareValue: unknown
+): boolean {
+  switch (operator) {
     case 'equals':
-      return fieldValue === compareValue;
+      return looselyEquals(fieldValue, compareValue);
     
     case 'notEquals':
-      return fieldValue !== compareValue;
+      return !looselyEquals(fieldValue, compareValue);
     
     case 'contains':
       if (typeof fieldValue === 'string' && typeof compareValue === 'string') {
         return fieldValue.includes(compareValue);
       }
-      if (Array.isArray(fieldValue) && typeof compareValue === 'string') {
-        return fieldValue.includes(compareValue);
+      // Multi-value fields: has the value, or every one of a list of values
+      if (Array.isArray(fieldValue)) {
+        const wanted: unknown[] = Array.isArray(compareValue) ? compareValue : [compareValue];
+        return wanted.every(item => fieldValue.some(value => looselyEquals(value, item)));
       }
       return false;
     
     case 'greaterThan':
-      if (typeof fieldValue === 'number' && typeof compareValue === 'number') {
-        return fieldValue > compareValue;
-      }
-      return false;
+      return (compareOrder(fieldValue, compareValue) ?? 0) > 0;
+    
+    case 'greaterThanOrEqual':
+      return (compareOrder(fieldValue, compareValue) ?? -1) >= 0;
     
     case 'lessThan':
-      if (typeof fieldValue === 'number' && typeof compareValue === 'number') {
-        return fieldValue < compareValue;
-      }
-      return false;
+      return (compareOrder(fieldValue, compareValue) ?? 0) < 0;
+    
+    case 'lessThanOrEqual':
+      return (compareOrder(fieldValue, compareValue) ?? 1) <= 0;
+    
+    case 'between': {
+      if (!Array.isArray(compareValue) || compareValue.length !== 2) return false;
+      const [min, max] = compareValue as unknown[];
+      return (compareOrder(fieldValue, min) ?? -1) >= 0 &&
+        (compareOrder(fieldValue, max) ?? 1) <= 0;
+    }
     
     case 'isEmpty':
       return isEmpty(fieldValue);
@@ -92,32 +149,140 @@ function evaluateSimpleCondition(
       return !isEmpty(fieldValue);
     
     case 'in':
-      if (Array.isArray(compareValue)) {
-        return compareValue.includes(fieldValue);
-      }
-      return false;
+      return Array.isArray(compareValue) && overlaps(fieldValue, compareValue);
     
     case 'notIn':
-      if (Array.isArray(compareValue)) {
-        return !compareValue.includes(fieldValue);
+      return !Array.isArray(compareValue) || !overlaps(fieldValue, compareValue);
+    
+    case 'matches': {
+      if (typeof compareValue !== 'string' || isEmpty(fieldValue)) return false;
+      if (typeof fieldValue !== 'string' && typeof fieldValue !== 'number') return false;
+      try {
+        return new RegExp(compareValue).test(String(fieldValue));
+      } catch {
+        console.warn('Invalid condition pattern:', compareValue);
+        return false;
       }
-      return true;
+    }
+    
+    case 'startsWith':
+      return typeof fieldValue === 'string' && typeof compareValue === 'string' &&
+        fieldValue.startsWith(compareValue);
+    
+    case 'endsWith':
+      return typeof fieldValue === 'string' && typeof compareValue === 'string' &&
+        fieldValue.endsWith(compareValue);
+    
+    case 'lengthGreaterThan':
+    case 'lengthLessThan': {
+      const length = getLength(fieldValue);
+      const limit = toNumber(compareValue);
+      if (limit === null) return false;
+      return operator === 'lengthGreaterThan' ? length > limit : length < limit;
+    }
+    
+    case 'dateBefore':
+    case 'dateAfter': {
+      const date = toTimestamp(fieldValue);
+      const other = toTimestamp(compareValue);
+      if (date === null || other === null) return false;
+      return operator === 'dateBefore' ? date < other : date > other;
+    }
     
     default:
-      console.warn('Unknown operator:', condition.operator);
+      console.warn('Unknown operator:', operator);
       return true;
   }
 }
 
+// ============================================================================
+// COERCION
+// ============================================================================
+
+/**
+ * Numbers, and numeric strings as inputs store them ('12'); null otherwise.
+ */
+function toNumber(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value !== 'string' || value.trim() === '') return null;
+
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+}
+
+/**
+ * Milliseconds for ISO date strings (`2024-03-01`, `2024-03-01T10:00`)
+ * and Date objects; null otherwise.
+ */
+function toTimestamp(value: unknown): number | null {
+  if (value instanceof Date) {
+    return Number.isNaN(value.getTime()) ? null : value.getTime();
+  }
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}/.test(value)) return null;
+
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? null : time;
+}
+
+/**
+ * Orders two values: numerically when both are numeric, then as dates,
+ * then as strings. Null when they can't be compared (e.g. one is empty).
+ */
+function compareOrder(a: unknown, b: unknown): number | null {
+  if (isEmpty(a) || isEmpty(b)) return null;
+
+  const numberA = toNumber(a);
+  const numberB = toNumber(b);
+  if (numberA !== null && numberB !== null) return Math.sign(numberA - numberB);
+
+  const dateA = toTimestamp(a);
+  const dateB = toTimestamp(b);
+  if (dateA !== null && dateB !== null) return Math.sign(dateA - dateB);
+
+  if (typeof a === 'string' && typeof b === 'string') {
+    return a < b ? -1 : a > b ? 1 : 0;
+  }
+  return null;
+}
+
+/**
+ * Whether a value is one of `list`. Multi-value fields match when any of
+ * their values is (an empty selection matches nothing).
+ */
+function overlaps(value: unknown, list: unknown[]): boolean {
+  const values: unknown[] = Array.isArray(value) ? value : [value];
+  return values.some(item => list.some(other => looselyEquals(item, other)));
+}
+
+/**
+ * Strict equality, except that a number equals its numeric string (18 == '18').
+ */
+function looselyEquals(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a === typeof b) return false;
+
+  const numberA = toNumber(a);
+  return numberA !== null && numberA === toNumber(b);
+}
+
+/**
+ * Length of a string or array; 0 for empty values.
+ */
+function getLength(value: unknown): number {
+  if (typeof value === 'string' || Array.isArray(value)) return value.length;
+  return 0;
+}
+
 /**
  * Evaluates AND condition - all sub-conditions must be true.
  */
 function evaluateAndCondition(
   condition: AndCondition,
-  values: FormValues
+  values: FormValues,
+  scope?: string
 ): boolean {
   return condition.and.every(subCondition => 
-    evaluateCondition(subCondition, values)
+    evaluateCondition(subCondition, values, scope)
   );
 }
 
@@ -126,10 +291,11 @@ function evaluateAndCondition(
  */
 function evaluateOrCondition(
   condition: OrCondition,
-  values: FormValues
+  values: FormValues,
+  scope?: string
 ): boolean {
   return condition.or.some(subCondition => 
-    evaluateCondition(subCondition, values)
+    evaluateCondition(subCondition, values, scope)
   );
 }
 
@@ -138,27 +304,69 @@ function evaluateOrCondition(
  */
 function evaluateNotCondition(
   condition: NotCondition,
-  values: FormValues
+  values: FormValues,
+  scope?: string
 ): boolean {
-  return !evaluateCondition(condition.not, values);
+  return !evaluateCondition(condition.not, values, scope);
 }
 
 /**
- * Gets a nested value from an object using dot notation.
- * Example: getNestedValue({ a: { b: 1 } }, 'a.b') => 1
+ * Gets a nested value from an object using dot or bracket notation.
+ * Paths with `*` wildcards return every matched value as an array.
+ * 
+ * @example
+ * getNestedValue({ items: [{ sku: 'a' }] }, 'items[0].sku'); // 'a'
+ * getNestedValue({ items: [{ sku: 'a' }, { sku: 'b' }] }, 'items[*].sku'); // ['a', 'b']
  */
-function getNestedValue(obj: FormValues, path: string): FieldValue {
-  const keys = path.split('.');
-  let current: unknown = obj;
-  
-  for (const key of keys) {
-    if (current === null || current === undefined) {
-      return undefined;
-    }
-    current = (current as Record<string, unknown>)[key];
+export function getNestedValue(obj: FormValues, path: string): unknown {
+  return isWildcardPath(path) ? deepGetAll(obj, path) : deepGet(obj, path);
+}
+
+const INSTANCE_PREFIX = '$instance.';
+const PARENT_PREFIX = '../';
+
+/**
+ * Resolves an instance-relative condition path to an absolute value path.
+ * Returns undefined when the path is relative but there is no instance scope.
+ * 
+ * @example
+ * resolveConditionPath('$instance.type', 'items[1]'); // 'items.1.type'
+ * resolveConditionPath('../type', 'items[1]'); // 'items.1.type'
+ * resolveConditionPath('../../currency', 'items[1]'); // 'currency'
+ * resolveConditionPath('country', 'items[1]'); // 'country'
+ */
+export function resolveConditionPath(path: string, scope?: string): string | undefined {
+  if (path.startsWith(INSTANCE_PREFIX)) {
+    return scope === undefined
+      ? undefined
+      : [...toPathKeys(scope), ...toPathKeys(path.slice(INSTANCE_PREFIX.length))].join('.');
   }
-  
-  return current as FieldValue;
+
+  if (!path.startsWith(PARENT_PREFIX)) return path;
+  if (scope === undefined) return undefined;
+
+  // The first `../` is the field's own instance; each further one drops
+  // an enclosing instance (its section key and index)
+  let keys = toPathKeys(scope);
+  let rest = path.slice(PARENT_PREFIX.length);
+  while (rest.startsWith(PARENT_PREFIX)) {
+    keys = keys.slice(0, -2);
+    rest = rest.slice(PARENT_PREFIX.length);
+  }
+
+  return [...keys, ...toPathKeys(rest)].join('.');
+}
+
+/**
+ * Schema field ID a condition path refers to, for static analysis:
+ * `../type`, `$instance.type` and `items[*].type` all refer to `type`.
+ */
+export function getReferencedFieldId(path: string): string {
+  let local = path;
+  if (local.startsWith(INSTANCE_PREFIX)) local = local.slice(INSTANCE_PREFIX.length);
+  while (local.startsWith(PARENT_PREFIX)) local = local.slice(PARENT_PREFIX.length);
+
+  return local !== path || local.includes('[') ? getFieldIdFromPath(local) : path;
 }
 
 /**
@@ -195,6 +403,146 @@ export function getVisibleFields(
   return visible;
 }
 
+/**
+ * Builds the effective visibility condition of each field: its own showWhen
+ * AND-ed with the showWhen of every enclosing section, so fields inside a
+ * hidden (nested) section are hidden too.
+ */
+export function getFieldConditions(
+  entries: FieldEntry[]
+): Map<string, Condition | undefined> {
+  const conditions = new Map<string, Condition | undefined>();
+
+  for (const { field, sections } of entries) {
+    const chain = [...sections.map(section => section.showWhen), field.showWhen]
+      .filter((condition): condition is Condition => condition !== undefined);
+
+    conditions.set(
+      field.id,
+      chain.length === 0 ? undefined : chain.length === 1 ? chain[0] : { and: chain }
+    );
+  }
+
+  return conditions;
+}
+
+/**
+ * Determines which fields are hidden, taking section visibility into account.
+ * Returns a Set of hidden field IDs.
+ * Fields of a repeatable instance (entries with a `scope`) see their
+ * instance's values on top of the form values.
+ */
+export function getHiddenFields(
+  entries: FieldEntry[],
+  values: FormValues
+): Set<string> {
+  const conditions = getFieldConditions(entries);
+  const hidden = new Set<string>();
+
+  for (const { field, scope } of entries) {
+    const condition = conditions.get(field.id);
+    if (!condition) continue;
+
+    if (!evaluateCondition(condition, scope ? getScopedValues(values, scope) : values, scope)) {
+      hidden.add(field.id);
+    }
+  }
+
+  return hidden;
+}
+
+/**
+ * Value paths of hidden fields whose effective hiddenValuePolicy is `policy`.
+ * Repeatable sections are expanded, so each hidden instance field is listed.
+ * 
+ * @example
+ * getHiddenValuePaths(entries, { accountType: 'personal', taxId: '123' }, 'excludeOnSubmit', 'excludeOnSubmit');
+ * // ['taxId'] (taxId has showWhen accountType equals business)
+ */
+export function getHiddenValuePaths(
+  entries: FieldEntry[],
+  values: FormValues,
+  policy: HiddenValuePolicy,
+  formPolicy: HiddenValuePolicy = 'keep'
+): string[] {
+  const matching = entries.filter(({ field }) => (field.hiddenValuePolicy ?? formPolicy) === policy);
+  if (matching.length === 0) return [];
+
+  return [...getHiddenFields(expandRepeatableFields(matching, values), values)];
+}
+
+/**
+ * Form values with a repeatable instance's values merged on top,
+ * so instance fields can refer to their siblings by plain field ID.
+ * An instance field therefore shadows a top-level field with the same ID;
+ * the linter reports such collisions (`shadowed-field-id`).
+ *
+ * @example
+ * getScopedValues({ currency: 'EUR', items: [{ qty: 2 }] }, 'items[0]');
+ * // { currency: 'EUR', items: [...], qty: 2 }
+ */
+export function getScopedValues(values: FormValues, scope: string): FormValues {
+  const instance = deepGet(values, scope);
+  return typeof instance === 'object' && instance !== null && !Array.isArray(instance)
+    ? { ...values, ...(instance as FormValues) }
+    : values;
+}
+
+// ============================================================================
+// EFFECTS
+// ============================================================================
+
+/**
+ * Effect-driven state of a field. Static `disabled`/`readOnly` schema
+ * props are not included.
+ */
+export interface FieldEffectState {
+  disabled: boolean;
+  readOnly: boolean;
+  required: boolean;
+}
+
+/**
+ * Evaluates a field's disableWhen/readOnlyWhen/requireWhen effects,
+ * plus the disable/readOnly effects of its enclosing sections.
+ */
+export function resolveFieldEffects(
+  field: FieldSchema,
+  sections: SectionSchema[],
+  values: FormValues,
+  scope?: string
+): FieldEffectState {
+  const scopedValues = scope ? getScopedValues(values, scope) : values;
+  const holds = (condition: Condition | undefined) =>
+    condition !== undefined && evaluateCondition(condition, scopedValues, scope);
+  const effects = [...sections.map(section => section.effects), field.effects];
+
+  return {
+    disabled: effects.some(effect => holds(effect?.disableWhen)),
+    readOnly: effects.some(effect => holds(effect?.readOnlyWhen)),
+    required: holds(field.effects?.requireWhen),
+  };
+}
+
+/**
+ * Determines which fields are disabled by an effect.
+ * Like hidden fields, they are skipped by validation: the user can't fix them.
+ */
+export function getDisabledFields(
+  entries: FieldEntry[],
+  values: FormValues
+): Set<string> {
+  const disabled = new Set<string>();
+
+  for (const { field, sections, scope } of entries) {
+    if (resolveFieldEffects(field, sections, values, scope).disabled) {
+      disabled.add(field.id);
+    }
+  }
+
+  return disabled;
+}
+
 /**
  * Gets fields that are hidden but have required validation.
  * These should have their required validation skipped.
@@ -218,3 +566,56 @@ export function getHiddenRequiredFields(
   
   return hidden;
 }
+
+/**
+ * Lists the field IDs a condition reads, in the order they appear.
+ * Used for static analysis (dangling references, dependency cycles).
+ */
+export function getConditionDependencies(condition: Condition): string[] {
+  if ('field' in condition && 'operator' in condition) {
+    const { field, valueFrom } = condition as SimpleCondition;
+    return valueFrom === undefined
+      ? [getReferencedFieldId(field)]
+      : [getReferencedFieldId(field), getReferencedFieldId(valueFrom)];
+  }
+
+  if ('and' in condition) {
+    return (condition as AndCondition).and.flatMap(getConditionDependencies);
+  }
+
+  if ('or' in condition) {
+    return (condition as OrCondition).or.flatMap(getConditionDependencies);
+  }
+
+  if ('not' in condition) {
+    return getConditionDependencies((condition as NotCondition).not);
+  }
+
+  return [];
+}
+
+/**
+ * Lists the other fields a validation rule reads:
+ * its `when` gate plus any cross-field references.
+ */
+export function getRuleDependencies(rule: ValidationRule): string[] {
+  const gate = rule.when ? getConditionDependencies(rule.when) : [];
+
+  switch (rule.type) {
+    case 'matchesField':
+    case 'compareField':
+      return [...gate, getReferencedFieldId(rule.field)];
+    case 'requiredWhen':
+      return [...gate, ...getConditionDependencies(rule.condition)];
+    default:
+      return gate;
+  }
+}
+
+/**
+ * Whether a rule applies given current values (its `when` gate, if any).
+ * `scope` is the repeatable instance of the field the rule belongs to.
+ */
+export function isRuleActive(rule: ValidationRule, values: FormValues, scope?: string): boolean {
+  return !rule.when || evaluateCondition(rule.when, values, scope);
+}
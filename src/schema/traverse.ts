@@ -0,0 +1,175 @@
+/**
+ * SCHEMA TRAVERSAL
+ *
+ * Helpers for walking the section tree of a FormSchema.
+ * Sections can nest, so "all fields" always means a recursive walk.
+ *
+ * Repeatable sections store their values as an instance list under the
+ * section ID (`items: [{ productId, quantity }]`); a field inside an
+ * instance is addressed by its value path, e.g. `items[0].productId`.
+ */
+
+import type { FieldSchema, FormValues, SectionSchema } from './types';
+import { deepGet } from '../utils/deep-get-set';
+
+/**
+ * A field together with where it lives in the schema.
+ */
+export interface FieldEntry {
+  field: FieldSchema;
+  /** Enclosing sections, outermost first */
+  sections: SectionSchema[];
+  /** Schema path, e.g. `sections[1].sections[0].fields[2]` */
+  path: string;
+  /** Value path of the repeatable instance the field belongs to, e.g. `items[0]` */
+  scope?: string;
+}
+
+/**
+ * A section together with where it lives in the schema.
+ */
+export interface SectionEntry {
+  section: SectionSchema;
+  /** Enclosing sections, outermost first (excluding this one) */
+  ancestors: SectionSchema[];
+  /** Schema path, e.g. `sections[1].sections[0]` */
+  path: string;
+}
+
+/**
+ * Collects every section in document order (parent before its children).
+ */
+export function collectSections(
+  sections: SectionSchema[],
+  ancestors: SectionSchema[] = [],
+  basePath = 'sections'
+): SectionEntry[] {
+  const entries: SectionEntry[] = [];
+
+  sections.forEach((section, index) => {
+    const path = `${basePath}[${index}]`;
+    entries.push({ section, ancestors, path });
+
+    if (section.sections) {
+      entries.push(...collectSections(section.sections, [...ancestors, section], `${path}.sections`));
+    }
+  });
+
+  return entries;
+}
+
+/**
+ * Collects every field in document order: a section's own fields
+ * come before the fields of its nested sections.
+ */
+export function collectFields(sections: SectionSchema[]): FieldEntry[] {
+  const entries: FieldEntry[] = [];
+
+  for (const { section, ancestors, path } of collectSections(sections)) {
+    section.fields.forEach((field, index) => {
+      entries.push({
+        field,
+        sections: [...ancestors, section],
+        path: `${path}.fields[${index}]`,
+      });
+    });
+  }
+
+  return entries;
+}
+
+/**
+ * Label of every field by ID, e.g. for messages naming another field.
+ */
+export function getFieldLabels(sections: SectionSchema[]): Record<string, string> {
+  const labels: Record<string, string> = {};
+  for (const { field } of collectFields(sections)) {
+    labels[field.id] = field.label;
+  }
+  return labels;
+}
+
+/**
+ * Finds a field schema by ID anywhere in the section tree.
+ */
+export function findField(sections: SectionSchema[], fieldId: string): FieldSchema | undefined {
+  for (const section of sections) {
+    const field = section.fields.find(f => f.id === fieldId);
+    if (field) return field;
+
+    if (section.sections) {
+      const nested = findField(section.sections, fieldId);
+      if (nested) return nested;
+    }
+  }
+
+  return undefined;
+}
+
+// ============================================================================
+// REPEATABLE INSTANCES
+// ============================================================================
+
+/**
+ * Value path of a repeatable instance, used as the scope of its fields.
+ *
+ * @example
+ * getInstancePath('items', 0); // 'items[0]'
+ */
+export function getInstancePath(sectionId: string, index: number): string {
+  return `${sectionId}[${index}]`;
+}
+
+/**
+ * Value path of a field inside a repeatable instance.
+ *
+ * @example
+ * getInstanceFieldPath('items', 0, 'productId'); // 'items[0].productId'
+ */
+export function getInstanceFieldPath(sectionId: string, index: number, fieldId: string): string {
+  return `${getInstancePath(sectionId, index)}.${fieldId}`;
+}
+
+/**
+ * Schema field ID for a value path: `items[0].productId` => `productId`.
+ */
+export function getFieldIdFromPath(path: string): string {
+  return path.slice(path.lastIndexOf('.') + 1);
+}
+
+/**
+ * Instance scope of a value path: `items[0].productId` => `items[0]`.
+ * Undefined for fields outside repeatable sections.
+ */
+export function getScopeFromPath(path: string): string | undefined {
+  const index = path.lastIndexOf('.');
+  return index > 0 && path.includes('[') ? path.slice(0, index) : undefined;
+}
+
+/**
+ * Instance values of a repeatable section (empty when there are none).
+ */
+export function getSectionInstances(values: FormValues, sectionId: string): FormValues[] {
+  const instances = deepGet(values, sectionId);
+  return Array.isArray(instances)
+    ? instances.map(instance => (typeof instance === 'object' && instance !== null ? instance : {}))
+    : [];
+}
+
+/**
+ * Replaces each field inside a repeatable section with one entry per
+ * instance, whose field ID is the instance value path. Used to validate
+ * every instance, e.g. on submit.
+ */
+export function expandRepeatableFields(entries: FieldEntry[], values: FormValues): FieldEntry[] {
+  return entries.flatMap(entry => {
+    const section = [...entry.sections].reverse().find(s => s.repeatable);
+    if (!section) return [entry];
+
+    return getSectionInstances(values, section.id).map((_, index) => ({
+      ...entry,
+      field: { ...entry.field, id: getInstanceFieldPath(section.id, index, entry.field.id) },
+      scope: getInstancePath(section.id, index),
+    }));
+  });
+}
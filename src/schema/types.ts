@@ -35,12 +35,27 @@ export interface BaseFieldSchema {
   /** Whether field is read-only (visible, shows value, not editable) */
   readOnly?: boolean;
   
-  /** Validation rules - evaluated in order, first failure stops */
+  /** Validation rules - evaluated in order, first failure stops (see validationMode) */
   validation?: ValidationRule[];
   
+  /** Overrides the form-level validationMode for this field */
+  validationMode?: ValidationMode;
+  
   /** Condition that must be true for field to be visible */
   showWhen?: Condition;
   
+  /** Overrides the form-level hiddenValuePolicy for this field */
+  hiddenValuePolicy?: HiddenValuePolicy;
+  
+  /**
+   * Derived value. When set, the engine recomputes the field whenever
+   * form values change and the field is rendered read-only.
+   */
+  computed?: Expression;
+  
+  /** Reactive behavior driven by conditions (disable, require, set, clear) */
+  effects?: FieldEffects;
+  
   /** CSS class names for custom styling */
   className?: string;
 }
@@ -78,7 +93,8 @@ export interface NumberFieldSchema extends BaseFieldSchema {
  */
 export interface SelectFieldSchema extends BaseFieldSchema {
   type: 'select';
-  defaultValue?: string | number;
+  /** string[] when `multiple` is set */
+  defaultValue?: string | number | string[];
   
   /** Static options - use this OR asyncOptions, not both */
   options?: SelectOption[];
@@ -87,7 +103,7 @@ export interface SelectFieldSchema extends BaseFieldSchema {
   asyncOptions?: AsyncOptionsConfig;
   
   
-  /** Allow selecting multiple values */
+  /** Allow selecting multiple values; the value becomes a string[] */
   multiple?: boolean;
   
   /** Alias for helpText for convenience */
@@ -102,6 +118,77 @@ export interface CheckboxFieldSchema extends BaseFieldSchema {
   defaultValue?: boolean;
 }
 
+/**
+ * Radio group - a single choice from a small option set
+ */
+export interface RadioFieldSchema extends BaseFieldSchema {
+  type: 'radio';
+  defaultValue?: string | number;
+  
+  /** Static options - use this OR asyncOptions, not both */
+  options?: SelectOption[];
+  
+  /** Config for fetching options from an API */
+  asyncOptions?: AsyncOptionsConfig;
+  
+  /** Lay options out in a row instead of a column */
+  inline?: boolean;
+  
+  /** Alias for helpText for convenience */
+  helperText?: string;
+}
+
+/**
+ * Checkbox group - "select all that apply". Stores the checked option
+ * values as strings; see the minSelected/maxSelected rules.
+ */
+export interface CheckboxGroupFieldSchema extends BaseFieldSchema {
+  type: 'checkboxGroup';
+  defaultValue?: string[];
+  
+  /** Static options - use this OR asyncOptions, not both */
+  options?: SelectOption[];
+  
+  /** Config for fetching options from an API */
+  asyncOptions?: AsyncOptionsConfig;
+  
+  /** Lay options out in a row instead of a column */
+  inline?: boolean;
+  
+  /** Alias for helpText for convenience */
+  helperText?: string;
+}
+
+/**
+ * Searchable combobox (autocomplete) for long option lists. Filters
+ * `options` locally, or searches the server when `asyncOptions` has a
+ * `searchParam`. Stores the chosen option's value; with server search,
+ * values not picked in this session (initial values, drafts) display as
+ * the raw value since their label can't be looked up.
+ */
+export interface ComboboxFieldSchema extends BaseFieldSchema {
+  type: 'combobox';
+  defaultValue?: string | number;
+  
+  /** Static options - use this OR asyncOptions, not both */
+  options?: SelectOption[];
+  
+  /** Config for fetching (or searching) options from an API */
+  asyncOptions?: AsyncOptionsConfig;
+  
+  /** Accept typed text that matches no option as the value */
+  allowFreeText?: boolean;
+  
+  /** Most options listed at once (default 50) */
+  maxResults?: number;
+  
+  /** Shown when nothing matches (default 'No results') */
+  noResultsText?: string;
+  
+  /** Alias for helpText for convenience */
+  helperText?: string;
+}
+
 /**
  * Textarea field (multi-line text)
  */
@@ -115,6 +202,48 @@ export interface TextareaFieldSchema extends BaseFieldSchema {
   helperText?: string;
 }
 
+/**
+ * Date, time or datetime field. Values are stored as ISO strings in the
+ * format of the native picker: '2024-03-01', '14:30', '2024-03-01T14:30'.
+ */
+export interface DateFieldSchema extends BaseFieldSchema {
+  type: 'date' | 'time' | 'datetime';
+  defaultValue?: string;
+  /**
+   * Earliest selectable value, as an ISO string or relative to the current
+   * day ('today', 'today+30d', 'now-2h'). Only limits the picker; add a
+   * minDate rule to validate typed values.
+   */
+  min?: string;
+  /** Latest selectable value, same format as `min` (see maxDate rule) */
+  max?: string;
+  /** Picker granularity in seconds (time and datetime) */
+  step?: number;
+  /** Alias for helpText for convenience */
+  helperText?: string;
+}
+
+/**
+ * File upload field. Files are uploaded as soon as they are picked or
+ * dropped; the value is the list of uploaded file references, never
+ * `File` objects, so it can be autosaved and submitted as JSON.
+ */
+export interface FileFieldSchema extends BaseFieldSchema {
+  type: 'file';
+  /** Files uploaded earlier, e.g. when editing an existing record */
+  defaultValue?: UploadedFile[];
+  /** Accepted types, as for the native input: '.pdf,.docx' or 'image/*' */
+  accept?: string;
+  /** Largest accepted file, in bytes */
+  maxSizeBytes?: number;
+  /** Most files the field holds (default 1) */
+  maxFiles?: number;
+  /** Name of a registered upload adapter (default 'default') */
+  adapter?: string;
+  /** Alias for helpText for convenience */
+  helperText?: string;
+}
+
 /**
  * Union of all field types.
  * The 'type' property acts as discriminator for type narrowing.
@@ -134,7 +263,12 @@ export type FieldSchema =
   | NumberFieldSchema
   | SelectFieldSchema
   | CheckboxFieldSchema
-  | TextareaFieldSchema;
+  | RadioFieldSchema
+  | CheckboxGroupFieldSchema
+  | ComboboxFieldSchema
+  | TextareaFieldSchema
+  | DateFieldSchema
+  | FileFieldSchema;
 
 // ============================================================================
 // SELECT OPTIONS
@@ -180,6 +314,16 @@ export interface AsyncOptionsConfig {
   
   /** Cache duration in milliseconds, 0 = no cache */
   cacheDuration?: number;
+  
+  /**
+   * Query parameter carrying the search text (combobox). When set, options
+   * are fetched for what the user types instead of once,
+   * e.g. `/api/cities?q=par`.
+   */
+  searchParam?: string;
+  
+  /** Delay after the last keystroke before searching, in ms (default 300) */
+  debounceMs?: number;
 }
 
 // ============================================================================
@@ -194,6 +338,19 @@ export interface AsyncOptionsConfig {
  * 3. Custom error messages per rule
  */
 
+/**
+ * - 'firstError': stop at the first failing rule (fail-fast)
+ * - 'allErrors': run every rule and report each failure, e.g. for a
+ *   password requirements checklist
+ */
+export type ValidationMode = 'firstError' | 'allErrors';
+
+/**
+ * Interaction that caused validation. Ordered: change < blur < submit.
+ * A rule runs for its own trigger and every later one.
+ */
+export type ValidationTrigger = 'change' | 'blur' | 'submit';
+
 export interface BaseValidationRule {
   /** Error message shown when validation fails */
   // Make message optional so simple story examples don't have to include it
@@ -202,10 +359,16 @@ export interface BaseValidationRule {
   /** 
    * When to run this validation.
    * - 'change': Run on every change (default for sync)
-   * - 'blur': Run when field loses focus
+   * - 'blur': Run when field loses focus, never while typing (default for async)
    * - 'submit': Run only on form submission
    */
-  trigger?: 'change' | 'blur' | 'submit';
+  trigger?: ValidationTrigger;
+  
+  /**
+   * Only apply this rule while the condition holds.
+   * Example: taxId required when accountType = business.
+   */
+  when?: Condition;
 }
 
 export interface RequiredRule extends BaseValidationRule {
@@ -250,9 +413,88 @@ export interface UrlRule extends BaseValidationRule {
   type: 'url';
 }
 
+/**
+ * Number of values in a multi-select (or any list value). Same names as
+ * the section rules that count repeatable instances.
+ */
+export interface MinItemsFieldRule extends BaseValidationRule {
+  type: 'minItems';
+  value: number;
+}
+
+export interface MaxItemsFieldRule extends BaseValidationRule {
+  type: 'maxItems';
+  value: number;
+}
+
+/**
+ * Number of checked options in a checkbox group (or values of a multi-value field).
+ */
+export interface MinSelectedRule extends BaseValidationRule {
+  type: 'minSelected';
+  value: number;
+}
+
+export interface MaxSelectedRule extends BaseValidationRule {
+  type: 'maxSelected';
+  value: number;
+}
+
+/**
+ * Date bounds for date, time and datetime fields. `value` is an ISO string
+ * or relative to the current day ('today', 'today+30d', 'now-2h').
+ */
+export interface MinDateRule extends BaseValidationRule {
+  type: 'minDate';
+  value: string;
+}
+
+export interface MaxDateRule extends BaseValidationRule {
+  type: 'maxDate';
+  value: string;
+}
+
+/**
+ * Date or datetime must fall on a weekday.
+ */
+export interface NotWeekendRule extends BaseValidationRule {
+  type: 'notWeekend';
+}
+
+/**
+ * Cross-field: value must equal another field's value.
+ * Example: confirmPassword matches password.
+ */
+export interface MatchesFieldRule extends BaseValidationRule {
+  type: 'matchesField';
+  /** ID of the field to match */
+  field: string;
+}
+
+/**
+ * Cross-field: compares the value against another field's value.
+ * Numbers compare numerically; other values (e.g. ISO dates) as strings.
+ * Example: endDate greaterThan startDate.
+ */
+export interface CompareFieldRule extends BaseValidationRule {
+  type: 'compareField';
+  /** ID of the field to compare against */
+  field: string;
+  operator: 'equals' | 'notEquals' | 'greaterThan' | 'greaterThanOrEqual' | 'lessThan' | 'lessThanOrEqual';
+}
+
+/**
+ * Cross-field: required only while a condition holds.
+ * Example: phone required when email is empty (at least one of them).
+ */
+export interface RequiredWhenRule extends BaseValidationRule {
+  type: 'requiredWhen';
+  condition: Condition;
+}
+
 /**
  * Custom sync validation - references a named validator function.
- * The actual function is registered separately, not in schema.
+ * The actual function is registered separately (registerValidator), not in schema.
  */
 export interface CustomSyncRule extends BaseValidationRule {
   type: 'custom';
@@ -264,15 +506,32 @@ export interface CustomSyncRule extends BaseValidationRule {
 
 /**
  * Async validation - for server-side checks like username availability.
+ * Set either `url` (POSTed `{ value }`, expects `{ valid, message }`)
+ * or `validator` (name of a registered async validator).
  */
 export interface AsyncRule extends BaseValidationRule {
   type: 'async';
   /** URL to call for validation */
-  url: string;
+  url?: string;
+  /** Name of registered async validator function */
+  validator?: string;
+  /** Additional params passed to the named validator */
+  params?: Record<string, unknown>;
   /** Debounce delay in ms to prevent excessive API calls */
   debounceMs?: number;
+  /**
+   * What a network/validator error means (default: 'failOpen').
+   * 'retry' retries up to `retries` times, then fails closed.
+   */
+  onError?: AsyncErrorPolicy;
+  /** Retry attempts for the 'retry' policy (default: 2) */
+  retries?: number;
+  /** Wait before the first retry in ms, doubled for each later one (default: 500) */
+  retryDelayMs?: number;
 }
 
+export type AsyncErrorPolicy = 'failOpen' | 'failClosed' | 'retry';
+
 export type ValidationRule =
   | RequiredRule
   | MinLengthRule
@@ -283,9 +542,69 @@ export type ValidationRule =
   | EmailRule
   | PhoneRule
   | UrlRule
+  | MinItemsFieldRule
+  | MaxItemsFieldRule
+  | MinSelectedRule
+  | MaxSelectedRule
+  | MinDateRule
+  | MaxDateRule
+  | NotWeekendRule
+  | MatchesFieldRule
+  | CompareFieldRule
+  | RequiredWhenRule
   | CustomSyncRule
   | AsyncRule;
 
+// ============================================================================
+// SECTION RULES - validate a repeatable section's instance list as a whole
+// ============================================================================
+
+interface BaseSectionRule {
+  /** Custom error message */
+  message?: string;
+}
+
+export interface MinItemsRule extends BaseSectionRule {
+  type: 'minItems';
+  value: number;
+}
+
+export interface MaxItemsRule extends BaseSectionRule {
+  type: 'maxItems';
+  value: number;
+}
+
+/**
+ * No two instances may share a (non-empty) value for `field`.
+ * Example: each order line must have a different productId.
+ */
+export interface UniqueByRule extends BaseSectionRule {
+  type: 'uniqueBy';
+  /** Field ID within the section */
+  field: string;
+}
+
+/**
+ * Constraint on an aggregate over the instances.
+ * Example: total quantity at most 100
+ * { type: 'aggregate', aggregate: 'sum', expression: { ref: 'quantity' },
+ *   operator: 'lessThanOrEqual', value: 100 }
+ */
+export interface AggregateRule extends BaseSectionRule {
+  type: 'aggregate';
+  aggregate: AggregateExpression['aggregate'];
+  /** Per-instance value (not needed for count) */
+  expression?: Expression;
+  operator: CompareFieldRule['operator'];
+  value: number;
+}
+
+export type SectionValidationRule =
+  | MinItemsRule
+  | MaxItemsRule
+  | UniqueByRule
+  | AggregateRule;
+
 // ============================================================================
 // CONDITIONAL LOGIC
 // ============================================================================
@@ -296,17 +615,44 @@ export type ValidationRule =
  */
 
 export interface SimpleCondition {
-  /** Field ID to check */
+  /**
+   * Field ID or value path to check:
+   * - `country`, `items[0].quantity` - absolute
+   * - `items[*].quantity` - every instance (see `match`)
+   * - `$instance.type` or `../type` - a sibling in the same repeatable
+   *   instance; each further `../` goes up one enclosing instance
+   */
   field: string;
   
-  /** Comparison operator */
+  /**
+   * Comparison operator. Ordering operators compare numbers and numeric
+   * strings numerically, then dates, then strings; `between` takes
+   * `[min, max]` (inclusive) and `matches` a regular expression string.
+   * On multi-value fields (string[]) `contains` checks for a value (or
+   * every value of a list) and `in`/`notIn` match any selected value.
+   */
   operator: 'equals' | 'notEquals' | 'contains' | 'greaterThan' | 
-            'lessThan' | 'isEmpty' | 'isNotEmpty' | 'in' | 'notIn';
+            'lessThan' | 'greaterThanOrEqual' | 'lessThanOrEqual' | 'between' |
+            'isEmpty' | 'isNotEmpty' | 'in' | 'notIn' |
+            'matches' | 'startsWith' | 'endsWith' |
+            'lengthGreaterThan' | 'lengthLessThan' |
+            'dateBefore' | 'dateAfter';
   
   /** Value to compare against (not needed for isEmpty/isNotEmpty) */
   value?: unknown;
+  
+  /** Compare against another field's value instead of `value` (same path syntax as `field`) */
+  valueFrom?: string;
+  
+  /**
+   * For wildcard paths: whether any (default) or all matched values
+   * must satisfy the operator. `all` holds when nothing matches.
+   */
+  match?: ConditionMatch;
 }
 
+export type ConditionMatch = 'any' | 'all';
+
 export interface AndCondition {
   and: Condition[];
 }
@@ -332,10 +678,119 @@ export interface NotCondition {
  */
 export type Condition = SimpleCondition | AndCondition | OrCondition | NotCondition;
 
+// ============================================================================
+// COMPUTED EXPRESSIONS
+// ============================================================================
+
+/**
+ * Expressions derive a field's value from other values.
+ * Like conditions, they are plain JSON so schemas stay serializable.
+ *
+ * Examples:
+ * { op: 'multiply', args: [{ ref: 'quantity' }, { ref: 'unitPrice' }] }
+ * { op: 'concat', args: [{ ref: 'firstName' }, ' ', { ref: 'lastName' }] }
+ * { aggregate: 'sum', section: 'items', expression: { ref: 'lineTotal' } }
+ */
+
+/** Reads another field's value */
+export interface FieldRefExpression {
+  ref: string;
+}
+
+export interface OperatorExpression {
+  /**
+   * - add/subtract/multiply/divide: arithmetic (empty values count as 0)
+   * - round: round args[0] to args[1] decimal places (default 0)
+   * - concat: string concatenation (missing values become '')
+   * - coalesce: first non-empty argument
+   */
+  op: 'add' | 'subtract' | 'multiply' | 'divide' | 'round' | 'concat' | 'coalesce';
+  args: Expression[];
+}
+
+export interface ConditionalExpression {
+  if: Condition;
+  then: Expression;
+  /** Defaults to null */
+  else?: Expression;
+}
+
+/**
+ * Aggregates an expression over every instance of a repeatable section.
+ * Inside `expression`, refs resolve against the instance's own fields first.
+ */
+export interface AggregateExpression {
+  aggregate: 'sum' | 'avg' | 'min' | 'max' | 'count';
+  /** ID of the repeatable section */
+  section: string;
+  /** Per-instance value (not needed for count) */
+  expression?: Expression;
+}
+
+export type Expression =
+  | string
+  | number
+  | boolean
+  | null
+  | FieldRefExpression
+  | OperatorExpression
+  | ConditionalExpression
+  | AggregateExpression;
+
+// ============================================================================
+// EFFECTS - reactive field behavior beyond visibility
+// ============================================================================
+
+/**
+ * Sets a field's value while `when` holds.
+ */
+export interface SetValueEffect {
+  when: Condition;
+  value: Expression;
+}
+
+/**
+ * Conditions are evaluated like showWhen (instance-relative inside
+ * repeatable sections). Value effects are applied by the engine after
+ * every change, so they hold in state rather than only on screen.
+ *
+ * @example
+ * // `state` starts over whenever `country` changes, and waits for one
+ * effects: {
+ *   clearOnChange: ['country'],
+ *   disableWhen: { field: 'country', operator: 'isEmpty' },
+ * }
+ */
+export interface FieldEffects {
+  /** Disabled (and skipped by validation) while this holds */
+  disableWhen?: Condition;
+  /** Read-only while this holds */
+  readOnlyWhen?: Condition;
+  /** Required while this holds */
+  requireWhen?: Condition;
+  /** Value kept equal to `value` while `when` holds; the first match wins */
+  setValueWhen?: SetValueEffect | SetValueEffect[];
+  /** Value kept empty while this holds */
+  clearWhen?: Condition;
+  /** Value cleared whenever one of these fields is edited */
+  clearOnChange?: string[];
+}
+
+export type SectionEffects = Pick<FieldEffects, 'disableWhen' | 'readOnlyWhen' | 'clearWhen'>;
+
 // ============================================================================
 // SECTIONS & FORM SCHEMA
 // ============================================================================
 
+/**
+ * What happens to the value of a field hidden by showWhen (its own or a section's):
+ * - 'keep': stays in state and is submitted
+ * - 'clearOnHide': cleared as soon as the field is hidden
+ * - 'excludeOnSubmit': kept while editing (so it returns if the field is
+ *   shown again) but left out of the submitted values
+ */
+export type HiddenValuePolicy = 'keep' | 'clearOnHide' | 'excludeOnSubmit';
+
 /**
  * A section groups related fields together.
  * Sections can be repeatable (like adding multiple addresses).
@@ -351,13 +806,19 @@ export interface SectionSchema {
   /** Whether this section can be repeated (array of entries) */
   repeatable?: boolean;
   
-  /** Min/max instances for repeatable sections */
+  /** Min/max instances for repeatable sections (also validated on submit) */
   minInstances?: number;
   maxInstances?: number;
   
+  /** Rules for the instance list of a repeatable section */
+  validation?: SectionValidationRule[];
+  
   /** Condition for section visibility */
   showWhen?: Condition;
   
+  /** Effects applied to every field in the section (and nested sections) */
+  effects?: SectionEffects;
+  
   /** Nested sections (for complex forms) */
   sections?: SectionSchema[];
 }
@@ -381,6 +842,12 @@ export interface FormSchema {
   /** Form sections containing fields */
   sections: SectionSchema[];
   
+  /** How many failures each field reports (default: 'firstError') */
+  validationMode?: ValidationMode;
+  
+  /** What happens to the values of hidden fields (default: 'keep') */
+  hiddenValuePolicy?: HiddenValuePolicy;
+  
   /** Submit button configuration */
   submit?: {
     label?: string;
@@ -429,15 +896,40 @@ export interface AutosaveConfig {
 
 /**
  * Valid field value types - strongly typed to prevent runtime errors.
- * Includes array support for multi-select fields.
+ * Includes array support for multi-select fields, and instance lists
+ * for repeatable sections (`items: [{ productId, quantity }]`).
  */
-export type FieldValue = string | number | boolean | string[] | null | undefined;
+export type FieldValue =
+  | string
+  | number
+  | boolean
+  | string[]
+  | FormValues[]
+  | UploadedFile[]
+  | null
+  | undefined;
+
+/**
+ * Reference to a file stored by an upload adapter (value of file fields).
+ */
+export interface UploadedFile {
+  /** Adapter-assigned identifier */
+  id: string;
+  /** Original file name */
+  name: string;
+  /** Size in bytes */
+  size: number;
+  /** MIME type, empty when unknown */
+  type: string;
+  /** Where the stored file can be fetched, if the adapter exposes it */
+  url?: string;
+}
 
 /**
  * Form values object with strong typing.
  * Uses FieldValue union to ensure type safety across the form engine.
  */
-export type FormValues = Record<string, FieldValue>;
+export type FormValues = { [key: string]: FieldValue };
 
 export interface FieldState {
   value: FieldValue;
@@ -447,6 +939,9 @@ export interface FieldState {
   errors: string[];
 }
 
+/** Outcome of the latest submit attempt */
+export type SubmitStatus = 'idle' | 'submitting' | 'succeeded' | 'failed';
+
 export interface FormState {
   values: FormValues;
   fields: Record<string, FieldState>;
@@ -455,6 +950,7 @@ export interface FormState {
   isDirty: boolean;
   isValid: boolean;
   submitCount: number;
+  submitStatus: SubmitStatus;
 }
 
 // ============================================================================
@@ -476,3 +972,19 @@ export function isOrCondition(condition: Condition): condition is OrCondition {
 export function isNotCondition(condition: Condition): condition is NotCondition {
   return 'not' in condition;
 }
+
+export function isFieldRefExpression(expression: Expression): expression is FieldRefExpression {
+  return typeof expression === 'object' && expression !== null && 'ref' in expression;
+}
+
+export function isOperatorExpression(expression: Expression): expression is OperatorExpression {
+  return typeof expression === 'object' && expression !== null && 'op' in expression;
+}
+
+export function isConditionalExpression(expression: Expression): expression is ConditionalExpression {
+  return typeof expression === 'object' && expression !== null && 'if' in expression;
+}
+
+export function isAggregateExpression(expression: Expression): expression is AggregateExpression {
+  return typeof expression === 'object' && expression !== null && 'aggregate' in expression;
+}
@@ -0,0 +1,1067 @@
+/**
+ * SCHEMA VALIDATOR
+ *
+ * Structural validation for FormSchema JSON coming from outside the codebase
+ * (CMS, API, localStorage). TypeScript only protects schemas written in code;
+ * anything parsed at runtime has to be checked before it reaches the engine.
+ *
+ * Design Decisions:
+ * 1. Collect every problem instead of throwing on the first one
+ * 2. Diagnostics are path-addressed: `sections[2].fields[0].validation[1]`
+ * 3. Per-type checkers live in lookup tables keyed by the discriminator,
+ *    so adding a field or rule type without a checker is a type error
+ * 4. Named validators (custom/async rules) must already be registered
+ */
+
+import type {
+  FormSchema,
+  FieldSchema,
+  ValidationRule,
+  SectionValidationRule,
+  SimpleCondition,
+  ConditionMatch,
+  CompareFieldRule,
+  FieldEffects,
+  SectionEffects,
+  AsyncErrorPolicy,
+  ValidationMode,
+  HiddenValuePolicy,
+  OperatorExpression,
+  AggregateExpression,
+} from './types';
+import { getCustomValidator, getCustomAsyncValidator } from '../validation/registry';
+import { getUploadAdapter } from '../uploads/registry';
+import { getDateKind, isDateBound, resolveDateBound, type DateKind } from '../utils/date';
+
+// ============================================================================
+// DIAGNOSTICS
+// ============================================================================
+
+/**
+ * A single problem found while validating a schema.
+ */
+export interface SchemaDiagnostic {
+  /** Location of the problem, e.g. `sections[0].fields[2].showWhen` */
+  path: string;
+  /** Human-readable description */
+  message: string;
+}
+
+export type ParseFormSchemaResult =
+  | { success: true; schema: FormSchema; errors: [] }
+  | { success: false; errors: SchemaDiagnostic[] };
+
+/**
+ * Error thrown by loadFormSchema when the schema is invalid.
+ * Carries the full diagnostic list for callers that want to display it.
+ */
+export class SchemaValidationError extends Error {
+  readonly diagnostics: SchemaDiagnostic[];
+
+  constructor(diagnostics: SchemaDiagnostic[]) {
+    super(
+      `Invalid form schema:\n${diagnostics.map(d => `  ${formatSchemaDiagnostic(d)}`).join('\n')}`
+    );
+    this.name = 'SchemaValidationError';
+    this.diagnostics = diagnostics;
+  }
+}
+
+/**
+ * Formats a diagnostic as `path: message`.
+ */
+export function formatSchemaDiagnostic(diagnostic: SchemaDiagnostic): string {
+  return diagnostic.path ? `${diagnostic.path}: ${diagnostic.message}` : diagnostic.message;
+}
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Validates raw JSON (string or already-parsed value) against the FormSchema shape.
+ *
+ * @example
+ * const result = parseFormSchema(await response.json());
+ * if (!result.success) {
+ *   result.errors.forEach(e => console.error(formatSchemaDiagnostic(e)));
+ * }
+ */
+export function parseFormSchema(json: unknown): ParseFormSchemaResult {
+  let input = json;
+
+  if (typeof json === 'string') {
+    try {
+      input = JSON.parse(json);
+    } catch (error) {
+      return {
+        success: false,
+        errors: [{ path: '', message: `invalid JSON: ${(error as Error).message}` }],
+      };
+    }
+  }
+
+  const diagnostics: SchemaDiagnostic[] = [];
+  checkFormSchema(input, diagnostics);
+
+  if (diagnostics.length > 0) {
+    return { success: false, errors: diagnostics };
+  }
+
+  return { success: true, schema: input as FormSchema, errors: [] };
+}
+
+/**
+ * Like parseFormSchema, but returns the schema directly and throws
+ * a SchemaValidationError when it is invalid.
+ */
+export function loadFormSchema(json: unknown): FormSchema {
+  const result = parseFormSchema(json);
+
+  if (!result.success) {
+    throw new SchemaValidationError(result.errors);
+  }
+
+  return result.schema;
+}
+
+// ============================================================================
+// PRIMITIVE CHECKS
+// ============================================================================
+
+type JsonObject = Record<string, unknown>;
+
+function joinPath(base: string, key: string | number): string {
+  if (typeof key === 'number') return `${base}[${key}]`;
+  return base ? `${base}.${key}` : key;
+}
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function hasOwn(obj: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(obj, key);
+}
+
+function describeType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function report(diagnostics: SchemaDiagnostic[], path: string, message: string): void {
+  diagnostics.push({ path, message });
+}
+
+/**
+ * Checks `obj[key]` against a typeof check.
+ * Missing optional properties are fine; missing required ones are reported.
+ */
+function checkType(
+  obj: JsonObject,
+  key: string,
+  expected: 'string' | 'number' | 'boolean',
+  path: string,
+  diagnostics: SchemaDiagnostic[],
+  required = false
+): boolean {
+  const value = obj[key];
+  const valuePath = joinPath(path, key);
+
+  if (value === undefined) {
+    if (required) report(diagnostics, valuePath, 'is required');
+    return !required;
+  }
+
+  if (typeof value !== expected || (expected === 'number' && Number.isNaN(value))) {
+    report(diagnostics, valuePath, `expected ${expected}, got ${describeType(value)}`);
+    return false;
+  }
+
+  return true;
+}
+
+function checkNonEmptyString(
+  obj: JsonObject,
+  key: string,
+  path: string,
+  diagnostics: SchemaDiagnostic[]
+): void {
+  if (checkType(obj, key, 'string', path, diagnostics, true) && (obj[key] as string).trim() === '') {
+    report(diagnostics, joinPath(path, key), 'must not be empty');
+  }
+}
+
+function checkEnum(
+  obj: JsonObject,
+  key: string,
+  allowed: readonly string[],
+  path: string,
+  diagnostics: SchemaDiagnostic[]
+): void {
+  const value = obj[key];
+  if (value === undefined) return;
+
+  if (typeof value !== 'string' || !allowed.includes(value)) {
+    report(
+      diagnostics,
+      joinPath(path, key),
+      `expected one of ${allowed.map(a => `"${a}"`).join(', ')}, got ${JSON.stringify(value)}`
+    );
+  }
+}
+
+function checkRegex(
+  obj: JsonObject,
+  key: string,
+  path: string,
+  diagnostics: SchemaDiagnostic[],
+  required = false
+): void {
+  if (!checkType(obj, key, 'string', path, diagnostics, required)) return;
+  if (obj[key] === undefined) return;
+
+  try {
+    new RegExp(obj[key] as string);
+  } catch {
+    report(diagnostics, joinPath(path, key), `invalid regular expression ${JSON.stringify(obj[key])}`);
+  }
+}
+
+/**
+ * Checks that `obj[key]`, when present, is an ISO or relative date bound
+ * that applies to `kind` (when given).
+ */
+function checkDateBound(
+  obj: JsonObject,
+  key: string,
+  path: string,
+  diagnostics: SchemaDiagnostic[],
+  kind?: DateKind,
+  required = false
+): void {
+  if (!checkType(obj, key, 'string', path, diagnostics, required)) return;
+  const value = obj[key];
+  if (value === undefined) return;
+
+  if (!isDateBound(value) || (kind && resolveDateBound(value, kind) === null)) {
+    report(diagnostics, joinPath(path, key), `expected ISO ${kind ?? 'date'} or relative date like "today+30d", got ${JSON.stringify(value)}`);
+  }
+}
+
+/**
+ * Checks that `obj[key]`, when present, is an array and runs `checkItem` on each element.
+ */
+function checkArray(
+  obj: JsonObject,
+  key: string,
+  path: string,
+  diagnostics: SchemaDiagnostic[],
+  checkItem: (item: unknown, itemPath: string) => void,
+  required = false
+): void {
+  const value = obj[key];
+  const arrayPath = joinPath(path, key);
+
+  if (value === undefined) {
+    if (required) report(diagnostics, arrayPath, 'is required');
+    return;
+  }
+
+  if (!Array.isArray(value)) {
+    report(diagnostics, arrayPath, `expected array, got ${describeType(value)}`);
+    return;
+  }
+
+  value.forEach((item, index) => checkItem(item, joinPath(arrayPath, index)));
+}
+
+// ============================================================================
+// FORM & SECTIONS
+// ============================================================================
+
+const validationModes: readonly ValidationMode[] = ['firstError', 'allErrors'];
+
+const hiddenValuePolicies: readonly HiddenValuePolicy[] = ['keep', 'clearOnHide', 'excludeOnSubmit'];
+
+function checkFormSchema(value: unknown, diagnostics: SchemaDiagnostic[]): void {
+  if (!isObject(value)) {
+    report(diagnostics, '', `expected form schema object, got ${describeType(value)}`);
+    return;
+  }
+
+  checkNonEmptyString(value, 'id', '', diagnostics);
+  checkType(value, 'title', 'string', '', diagnostics, true);
+  checkType(value, 'version', 'string', '', diagnostics);
+  checkType(value, 'description', 'string', '', diagnostics);
+  checkEnum(value, 'validationMode', validationModes, '', diagnostics);
+  checkEnum(value, 'hiddenValuePolicy', hiddenValuePolicies, '', diagnostics);
+
+  checkArray(value, 'sections', '', diagnostics, (section, path) =>
+    checkSection(section, path, diagnostics), true);
+
+  if (value.submit !== undefined) {
+    if (isObject(value.submit)) {
+      checkType(value.submit, 'label', 'string', 'submit', diagnostics);
+      checkType(value.submit, 'loadingLabel', 'string', 'submit', diagnostics);
+    } else {
+      report(diagnostics, 'submit', `expected object, got ${describeType(value.submit)}`);
+    }
+  }
+
+  if (value.reset !== undefined) {
+    if (isObject(value.reset)) {
+      checkType(value.reset, 'label', 'string', 'reset', diagnostics);
+      checkType(value.reset, 'show', 'boolean', 'reset', diagnostics);
+    } else {
+      report(diagnostics, 'reset', `expected object, got ${describeType(value.reset)}`);
+    }
+  }
+
+  if (value.autosave !== undefined) {
+    if (isObject(value.autosave)) {
+      checkType(value.autosave, 'enabled', 'boolean', 'autosave', diagnostics, true);
+      checkType(value.autosave, 'debounceMs', 'number', 'autosave', diagnostics);
+      checkType(value.autosave, 'storageKey', 'string', 'autosave', diagnostics);
+      checkType(value.autosave, 'versionField', 'string', 'autosave', diagnostics);
+      checkEnum(value.autosave, 'conflictStrategy', ['local', 'remote', 'prompt'], 'autosave', diagnostics);
+    } else {
+      report(diagnostics, 'autosave', `expected object, got ${describeType(value.autosave)}`);
+    }
+  }
+}
+
+function checkSection(value: unknown, path: string, diagnostics: SchemaDiagnostic[]): void {
+  if (!isObject(value)) {
+    report(diagnostics, path, `expected section object, got ${describeType(value)}`);
+    return;
+  }
+
+  checkNonEmptyString(value, 'id', path, diagnostics);
+  checkType(value, 'title', 'string', path, diagnostics);
+  checkType(value, 'description', 'string', path, diagnostics);
+  checkType(value, 'repeatable', 'boolean', path, diagnostics);
+
+  const hasMin = checkType(value, 'minInstances', 'number', path, diagnostics);
+  const hasMax = checkType(value, 'maxInstances', 'number', path, diagnostics);
+  if (
+    hasMin && hasMax &&
+    typeof value.minInstances === 'number' &&
+    typeof value.maxInstances === 'number' &&
+    value.minInstances > value.maxInstances
+  ) {
+    report(diagnostics, joinPath(path, 'minInstances'), 'must not be greater than maxInstances');
+  }
+
+  if (value.showWhen !== undefined) {
+    checkCondition(value.showWhen, joinPath(path, 'showWhen'), diagnostics);
+  }
+
+  if (value.effects !== undefined) {
+    checkEffects(value.effects, sectionEffectKeys, joinPath(path, 'effects'), diagnostics);
+  }
+
+  checkArray(value, 'validation', path, diagnostics, (rule, rulePath) =>
+    checkSectionRule(rule, rulePath, diagnostics));
+
+  checkArray(value, 'fields', path, diagnostics, (field, fieldPath) =>
+    checkField(field, fieldPath, diagnostics), true);
+
+  checkArray(value, 'sections', path, diagnostics, (section, sectionPath) =>
+    checkSection(section, sectionPath, diagnostics));
+}
+
+// ============================================================================
+// FIELDS
+// ============================================================================
+
+type Checker = (value: JsonObject, path: string, diagnostics: SchemaDiagnostic[]) => void;
+
+/**
+ * Type-specific field checks, keyed by the `type` discriminator.
+ * Typed as a full Record so a new field type cannot be added without a checker.
+ */
+const fieldCheckers: Record<FieldSchema['type'], Checker> = {
+  text: (field, path, diagnostics) => {
+    checkType(field, 'defaultValue', 'string', path, diagnostics);
+    checkType(field, 'minLength', 'number', path, diagnostics);
+    checkType(field, 'maxLength', 'number', path, diagnostics);
+    checkRegex(field, 'pattern', path, diagnostics);
+    checkEnum(field, 'inputType', ['text', 'email', 'password', 'tel', 'url', 'search'], path, diagnostics);
+    checkType(field, 'helperText', 'string', path, diagnostics);
+  },
+
+  number: (field, path, diagnostics) => {
+    checkType(field, 'defaultValue', 'number', path, diagnostics);
+    checkType(field, 'min', 'number', path, diagnostics);
+    checkType(field, 'max', 'number', path, diagnostics);
+    checkType(field, 'step', 'number', path, diagnostics);
+    checkType(field, 'helperText', 'string', path, diagnostics);
+  },
+
+  select: (field, path, diagnostics) => {
+    if (field.multiple === true) {
+      checkArray(field, 'defaultValue', path, diagnostics, (item, itemPath) => {
+        if (typeof item !== 'string') {
+          report(diagnostics, itemPath, `expected string, got ${describeType(item)}`);
+        }
+      });
+    } else if (
+      field.defaultValue !== undefined &&
+      typeof field.defaultValue !== 'string' &&
+      typeof field.defaultValue !== 'number'
+    ) {
+      report(diagnostics, joinPath(path, 'defaultValue'), `expected string or number, got ${describeType(field.defaultValue)}`);
+    }
+    checkArray(field, 'options', path, diagnostics, (option, optionPath) =>
+      checkSelectOption(option, optionPath, diagnostics));
+    if (field.asyncOptions !== undefined) {
+      checkAsyncOptions(field.asyncOptions, joinPath(path, 'asyncOptions'), diagnostics);
+    }
+    checkType(field, 'multiple', 'boolean', path, diagnostics);
+    checkType(field, 'helperText', 'string', path, diagnostics);
+  },
+
+  checkbox: (field, path, diagnostics) => {
+    checkType(field, 'defaultValue', 'boolean', path, diagnostics);
+  },
+
+  radio: (field, path, diagnostics) => {
+    if (
+      field.defaultValue !== undefined &&
+      typeof field.defaultValue !== 'string' &&
+      typeof field.defaultValue !== 'number'
+    ) {
+      report(diagnostics, joinPath(path, 'defaultValue'), `expected string or number, got ${describeType(field.defaultValue)}`);
+    }
+    checkOptionSource(field, path, diagnostics);
+    checkType(field, 'inline', 'boolean', path, diagnostics);
+    checkType(field, 'helperText', 'string', path, diagnostics);
+  },
+
+  checkboxGroup: (field, path, diagnostics) => {
+    checkArray(field, 'defaultValue', path, diagnostics, (item, itemPath) => {
+      if (typeof item !== 'string') {
+        report(diagnostics, itemPath, `expected string, got ${describeType(item)}`);
+      }
+    });
+    checkOptionSource(field, path, diagnostics);
+    checkType(field, 'inline', 'boolean', path, diagnostics);
+    checkType(field, 'helperText', 'string', path, diagnostics);
+  },
+
+  combobox: (field, path, diagnostics) => {
+    if (
+      field.defaultValue !== undefined &&
+      typeof field.defaultValue !== 'string' &&
+      typeof field.defaultValue !== 'number'
+    ) {
+      report(diagnostics, joinPath(path, 'defaultValue'), `expected string or number, got ${describeType(field.defaultValue)}`);
+    }
+    checkOptionSource(field, path, diagnostics);
+    checkType(field, 'allowFreeText', 'boolean', path, diagnostics);
+    checkType(field, 'maxResults', 'number', path, diagnostics);
+    checkType(field, 'noResultsText', 'string', path, diagnostics);
+    checkType(field, 'helperText', 'string', path, diagnostics);
+  },
+
+  textarea: (field, path, diagnostics) => {
+    checkType(field, 'defaultValue', 'string', path, diagnostics);
+    checkType(field, 'minLength', 'number', path, diagnostics);
+    checkType(field, 'maxLength', 'number', path, diagnostics);
+    checkType(field, 'rows', 'number', path, diagnostics);
+    checkType(field, 'helperText', 'string', path, diagnostics);
+  },
+
+  date: checkDateField('date'),
+  time: checkDateField('time'),
+  datetime: checkDateField('datetime'),
+
+  file: (field, path, diagnostics) => {
+    checkArray(field, 'defaultValue', path, diagnostics, (item, itemPath) =>
+      checkUploadedFile(item, itemPath, diagnostics));
+    checkType(field, 'accept', 'string', path, diagnostics);
+    checkType(field, 'maxSizeBytes', 'number', path, diagnostics);
+    checkType(field, 'maxFiles', 'number', path, diagnostics);
+    if (field.adapter !== undefined) checkNonEmptyString(field, 'adapter', path, diagnostics);
+    // Otherwise uploads would only fail once the user picks a file
+    if (typeof field.adapter === 'string' && field.adapter.trim() !== '' && !getUploadAdapter(field.adapter)) {
+      report(diagnostics, joinPath(path, 'adapter'), `upload adapter ${JSON.stringify(field.adapter)} is not registered`);
+    }
+    checkType(field, 'helperText', 'string', path, diagnostics);
+  },
+};
+
+function checkDateField(kind: DateKind): Checker {
+  return (field, path, diagnostics) => {
+    if (checkType(field, 'defaultValue', 'string', path, diagnostics) && field.defaultValue !== undefined) {
+      if (getDateKind(field.defaultValue) !== kind) {
+        report(diagnostics, joinPath(path, 'defaultValue'), `expected ISO ${kind}, got ${JSON.stringify(field.defaultValue)}`);
+      }
+    }
+    checkDateBound(field, 'min', path, diagnostics, kind);
+    checkDateBound(field, 'max', path, diagnostics, kind);
+    checkType(field, 'step', 'number', path, diagnostics);
+    checkType(field, 'helperText', 'string', path, diagnostics);
+  };
+}
+
+function checkField(value: unknown, path: string, diagnostics: SchemaDiagnostic[]): void {
+  if (!isObject(value)) {
+    report(diagnostics, path, `expected field object, got ${describeType(value)}`);
+    return;
+  }
+
+  checkNonEmptyString(value, 'id', path, diagnostics);
+  checkType(value, 'label', 'string', path, diagnostics, true);
+  checkType(value, 'helpText', 'string', path, diagnostics);
+  checkType(value, 'placeholder', 'string', path, diagnostics);
+  checkType(value, 'disabled', 'boolean', path, diagnostics);
+  checkType(value, 'readOnly', 'boolean', path, diagnostics);
+  checkType(value, 'className', 'string', path, diagnostics);
+  checkEnum(value, 'validationMode', validationModes, path, diagnostics);
+  checkEnum(value, 'hiddenValuePolicy', hiddenValuePolicies, path, diagnostics);
+
+  if (value.showWhen !== undefined) {
+    checkCondition(value.showWhen, joinPath(path, 'showWhen'), diagnostics);
+  }
+
+  if (value.computed !== undefined) {
+    checkExpression(value.computed, joinPath(path, 'computed'), diagnostics);
+  }
+
+  if (value.effects !== undefined) {
+    checkEffects(value.effects, fieldEffectKeys, joinPath(path, 'effects'), diagnostics);
+  }
+
+  checkArray(value, 'validation', path, diagnostics, (rule, rulePath) =>
+    checkRule(rule, rulePath, diagnostics));
+
+  const type = value.type;
+  if (type === undefined) {
+    report(diagnostics, joinPath(path, 'type'), 'is required');
+    return;
+  }
+
+  const checker = typeof type === 'string' && hasOwn(fieldCheckers, type)
+    ? fieldCheckers[type as FieldSchema['type']]
+    : undefined;
+
+  if (!checker) {
+    report(diagnostics, joinPath(path, 'type'), `unknown field type ${JSON.stringify(type)}`);
+    return;
+  }
+
+  checker(value, path, diagnostics);
+}
+
+/**
+ * Options of radio groups, checkbox groups and comboboxes.
+ */
+function checkOptionSource(field: JsonObject, path: string, diagnostics: SchemaDiagnostic[]): void {
+  checkArray(field, 'options', path, diagnostics, (option, optionPath) =>
+    checkSelectOption(option, optionPath, diagnostics));
+  if (field.asyncOptions !== undefined) {
+    checkAsyncOptions(field.asyncOptions, joinPath(path, 'asyncOptions'), diagnostics);
+  }
+}
+
+function checkSelectOption(value: unknown, path: string, diagnostics: SchemaDiagnostic[]): void {
+  if (!isObject(value)) {
+    report(diagnostics, path, `expected option object, got ${describeType(value)}`);
+    return;
+  }
+
+  checkType(value, 'label', 'string', path, diagnostics, true);
+  checkType(value, 'disabled', 'boolean', path, diagnostics);
+
+  if (typeof value.value !== 'string' && typeof value.value !== 'number') {
+    report(diagnostics, joinPath(path, 'value'), value.value === undefined
+      ? 'is required'
+      : `expected string or number, got ${describeType(value.value)}`);
+  }
+}
+
+function checkUploadedFile(value: unknown, path: string, diagnostics: SchemaDiagnostic[]): void {
+  if (!isObject(value)) {
+    report(diagnostics, path, `expected file reference object, got ${describeType(value)}`);
+    return;
+  }
+
+  checkNonEmptyString(value, 'id', path, diagnostics);
+  checkType(value, 'name', 'string', path, diagnostics, true);
+  checkType(value, 'size', 'number', path, diagnostics, true);
+  checkType(value, 'type', 'string', path, diagnostics, true);
+  checkType(value, 'url', 'string', path, diagnostics);
+}
+
+function checkAsyncOptions(value: unknown, path: string, diagnostics: SchemaDiagnostic[]): void {
+  if (!isObject(value)) {
+    report(diagnostics, path, `expected object, got ${describeType(value)}`);
+    return;
+  }
+
+  checkNonEmptyString(value, 'url', path, diagnostics);
+  checkEnum(value, 'method', ['GET', 'POST'], path, diagnostics);
+  checkType(value, 'responsePath', 'string', path, diagnostics);
+  checkType(value, 'labelKey', 'string', path, diagnostics);
+  checkType(value, 'valueKey', 'string', path, diagnostics);
+  checkType(value, 'cacheDuration', 'number', path, diagnostics);
+  checkType(value, 'searchParam', 'string', path, diagnostics);
+  checkType(value, 'debounceMs', 'number', path, diagnostics);
+  checkArray(value, 'dependsOn', path, diagnostics, (dependency, dependencyPath) => {
+    if (typeof dependency !== 'string') {
+      report(diagnostics, dependencyPath, `expected string, got ${describeType(dependency)}`);
+    }
+  });
+}
+
+// ============================================================================
+// VALIDATION RULES
+// ============================================================================
+
+const checkNumericValue: Checker = (rule, path, diagnostics) => {
+  checkType(rule, 'value', 'number', path, diagnostics, true);
+};
+
+const checkNothing: Checker = () => {};
+
+function checkParams(rule: JsonObject, path: string, diagnostics: SchemaDiagnostic[]): void {
+  if (rule.params !== undefined && !isObject(rule.params)) {
+    report(diagnostics, joinPath(path, 'params'), `expected object, got ${describeType(rule.params)}`);
+  }
+}
+
+/**
+ * Named validators must be registered before the schema is loaded,
+ * otherwise the rule would silently never fail.
+ */
+function checkRegistered(
+  rule: JsonObject,
+  lookup: (name: string) => unknown,
+  path: string,
+  diagnostics: SchemaDiagnostic[]
+): void {
+  const name = rule.validator;
+  if (typeof name === 'string' && name.trim() !== '' && !lookup(name)) {
+    report(diagnostics, joinPath(path, 'validator'), `validator ${JSON.stringify(name)} is not registered`);
+  }
+}
+
+const asyncErrorPolicies: readonly AsyncErrorPolicy[] = ['failOpen', 'failClosed', 'retry'];
+
+const compareOperators: readonly CompareFieldRule['operator'][] = [
+  'equals',
+  'notEquals',
+  'greaterThan',
+  'greaterThanOrEqual',
+  'lessThan',
+  'lessThanOrEqual',
+];
+
+/**
+ * Type-specific rule checks, keyed by the `type` discriminator.
+ */
+const ruleCheckers: Record<ValidationRule['type'], Checker> = {
+  required: checkNothing,
+  minLength: checkNumericValue,
+  maxLength: checkNumericValue,
+  min: checkNumericValue,
+  max: checkNumericValue,
+  email: checkNothing,
+  phone: checkNothing,
+  url: checkNothing,
+  minSelected: checkNumericValue,
+  maxSelected: checkNumericValue,
+  minItems: checkNumericValue,
+  maxItems: checkNumericValue,
+  notWeekend: checkNothing,
+
+  minDate: (rule, path, diagnostics) => {
+    checkDateBound(rule, 'value', path, diagnostics, undefined, true);
+  },
+
+  maxDate: (rule, path, diagnostics) => {
+    checkDateBound(rule, 'value', path, diagnostics, undefined, true);
+  },
+
+  pattern: (rule, path, diagnostics) => {
+    checkRegex(rule, 'value', path, diagnostics, true);
+  },
+
+  matchesField: (rule, path, diagnostics) => {
+    checkNonEmptyString(rule, 'field', path, diagnostics);
+  },
+
+  compareField: (rule, path, diagnostics) => {
+    checkNonEmptyString(rule, 'field', path, diagnostics);
+    if (rule.operator === undefined) {
+      report(diagnostics, joinPath(path, 'operator'), 'is required');
+    }
+    checkEnum(rule, 'operator', compareOperators, path, diagnostics);
+  },
+
+  requiredWhen: (rule, path, diagnostics) => {
+    if (rule.condition === undefined) {
+      report(diagnostics, joinPath(path, 'condition'), 'is required');
+      return;
+    }
+    checkCondition(rule.condition, joinPath(path, 'condition'), diagnostics);
+  },
+
+  custom: (rule, path, diagnostics) => {
+    checkNonEmptyString(rule, 'validator', path, diagnostics);
+    checkRegistered(rule, getCustomValidator, path, diagnostics);
+    checkParams(rule, path, diagnostics);
+  },
+
+  async: (rule, path, diagnostics) => {
+    if (rule.url === undefined && rule.validator === undefined) {
+      report(diagnostics, path, 'async rule requires "url" or "validator"');
+    } else if (rule.url !== undefined && rule.validator !== undefined) {
+      report(diagnostics, path, 'async rule takes either "url" or "validator", not both');
+    }
+    if (rule.url !== undefined) checkNonEmptyString(rule, 'url', path, diagnostics);
+    if (rule.validator !== undefined) {
+      checkNonEmptyString(rule, 'validator', path, diagnostics);
+      checkRegistered(rule, getCustomAsyncValidator, path, diagnostics);
+    }
+    checkParams(rule, path, diagnostics);
+    checkType(rule, 'debounceMs', 'number', path, diagnostics);
+    checkEnum(rule, 'onError', asyncErrorPolicies, path, diagnostics);
+    checkType(rule, 'retries', 'number', path, diagnostics);
+    checkType(rule, 'retryDelayMs', 'number', path, diagnostics);
+  },
+};
+
+function checkRule(value: unknown, path: string, diagnostics: SchemaDiagnostic[]): void {
+  if (!isObject(value)) {
+    report(diagnostics, path, `expected rule object, got ${describeType(value)}`);
+    return;
+  }
+
+  const type = value.type;
+  const checker = typeof type === 'string' && hasOwn(ruleCheckers, type)
+    ? ruleCheckers[type as ValidationRule['type']]
+    : undefined;
+
+  if (!checker) {
+    report(diagnostics, path, type === undefined
+      ? 'rule type is required'
+      : `unknown rule type ${JSON.stringify(type)}`);
+    return;
+  }
+
+  checkType(value, 'message', 'string', path, diagnostics);
+  checkEnum(value, 'trigger', ['change', 'blur', 'submit'], path, diagnostics);
+  if (value.when !== undefined) {
+    checkCondition(value.when, joinPath(path, 'when'), diagnostics);
+  }
+  checker(value, path, diagnostics);
+}
+
+/**
+ * Checks for rules on a repeatable section's instance list.
+ */
+const sectionRuleCheckers: Record<SectionValidationRule['type'], Checker> = {
+  minItems: checkNumericValue,
+  maxItems: checkNumericValue,
+
+  uniqueBy: (rule, path, diagnostics) => {
+    checkNonEmptyString(rule, 'field', path, diagnostics);
+  },
+
+  aggregate: (rule, path, diagnostics) => {
+    const aggregate = rule.aggregate;
+    if (typeof aggregate !== 'string' || !hasOwn(aggregateFunctions, aggregate)) {
+      report(diagnostics, joinPath(path, 'aggregate'), `unknown aggregate ${JSON.stringify(aggregate)}`);
+    }
+    if (rule.expression !== undefined) {
+      checkExpression(rule.expression, joinPath(path, 'expression'), diagnostics);
+    } else if (aggregate !== 'count') {
+      report(diagnostics, joinPath(path, 'expression'), 'is required');
+    }
+    if (rule.operator === undefined) {
+      report(diagnostics, joinPath(path, 'operator'), 'is required');
+    }
+    checkEnum(rule, 'operator', compareOperators, path, diagnostics);
+    checkNumericValue(rule, path, diagnostics);
+  },
+};
+
+function checkSectionRule(value: unknown, path: string, diagnostics: SchemaDiagnostic[]): void {
+  if (!isObject(value)) {
+    report(diagnostics, path, `expected rule object, got ${describeType(value)}`);
+    return;
+  }
+
+  const type = value.type;
+  const checker = typeof type === 'string' && hasOwn(sectionRuleCheckers, type)
+    ? sectionRuleCheckers[type as SectionValidationRule['type']]
+    : undefined;
+
+  if (!checker) {
+    report(diagnostics, path, type === undefined
+      ? 'rule type is required'
+      : `unknown section rule type ${JSON.stringify(type)}`);
+    return;
+  }
+
+  checkType(value, 'message', 'string', path, diagnostics);
+  checker(value, path, diagnostics);
+}
+
+// ============================================================================
+// EFFECTS
+// ============================================================================
+
+const fieldEffectKeys: Record<keyof FieldEffects, true> = {
+  disableWhen: true,
+  readOnlyWhen: true,
+  requireWhen: true,
+  setValueWhen: true,
+  clearWhen: true,
+  clearOnChange: true,
+};
+
+const sectionEffectKeys: Record<keyof SectionEffects, true> = {
+  disableWhen: true,
+  readOnlyWhen: true,
+  clearWhen: true,
+};
+
+function checkEffects(
+  value: unknown,
+  keys: Record<string, true>,
+  path: string,
+  diagnostics: SchemaDiagnostic[]
+): void {
+  if (!isObject(value)) {
+    report(diagnostics, path, `expected effects object, got ${describeType(value)}`);
+    return;
+  }
+
+  for (const [key, effect] of Object.entries(value)) {
+    const effectPath = joinPath(path, key);
+
+    if (!hasOwn(keys, key)) {
+      report(diagnostics, effectPath, `unknown effect ${JSON.stringify(key)}`);
+    } else if (key === 'setValueWhen') {
+      const effects = Array.isArray(effect) ? effect : [effect];
+      effects.forEach((item, index) =>
+        checkSetValueEffect(item, Array.isArray(effect) ? joinPath(effectPath, index) : effectPath, diagnostics));
+    } else if (key === 'clearOnChange') {
+      checkArray(value, key, path, diagnostics, (reference, referencePath) => {
+        if (typeof reference !== 'string' || reference.trim() === '') {
+          report(diagnostics, referencePath, `expected field reference, got ${JSON.stringify(reference)}`);
+        }
+      });
+    } else {
+      checkCondition(effect, effectPath, diagnostics);
+    }
+  }
+}
+
+function checkSetValueEffect(value: unknown, path: string, diagnostics: SchemaDiagnostic[]): void {
+  if (!isObject(value)) {
+    report(diagnostics, path, `expected { when, value }, got ${describeType(value)}`);
+    return;
+  }
+
+  if (value.when === undefined) {
+    report(diagnostics, joinPath(path, 'when'), 'is required');
+  } else {
+    checkCondition(value.when, joinPath(path, 'when'), diagnostics);
+  }
+
+  if (!hasOwn(value, 'value')) {
+    report(diagnostics, joinPath(path, 'value'), 'is required');
+  } else {
+    checkExpression(value.value, joinPath(path, 'value'), diagnostics);
+  }
+}
+
+// ============================================================================
+// CONDITIONS
+// ============================================================================
+
+/**
+ * Every SimpleCondition operator. A Record (rather than an array) so that
+ * adding an operator to the type without listing it here fails to compile.
+ */
+const conditionOperators: Record<SimpleCondition['operator'], true> = {
+  equals: true,
+  notEquals: true,
+  contains: true,
+  greaterThan: true,
+  lessThan: true,
+  greaterThanOrEqual: true,
+  lessThanOrEqual: true,
+  between: true,
+  isEmpty: true,
+  isNotEmpty: true,
+  in: true,
+  notIn: true,
+  matches: true,
+  startsWith: true,
+  endsWith: true,
+  lengthGreaterThan: true,
+  lengthLessThan: true,
+  dateBefore: true,
+  dateAfter: true,
+};
+
+const conditionMatches: readonly ConditionMatch[] = ['any', 'all'];
+
+/**
+ * Checks the literal `value` of operators that need a particular shape.
+ */
+function checkConditionValue(
+  condition: JsonObject,
+  operator: string,
+  path: string,
+  diagnostics: SchemaDiagnostic[]
+): void {
+  const value = condition.value;
+  const valuePath = joinPath(path, 'value');
+
+  if ((operator === 'in' || operator === 'notIn') && !Array.isArray(value)) {
+    report(diagnostics, valuePath, `operator "${operator}" expects an array, got ${describeType(value)}`);
+  } else if (operator === 'between' && (!Array.isArray(value) || value.length !== 2)) {
+    const got = Array.isArray(value) ? `${value.length} items` : describeType(value);
+    report(diagnostics, valuePath, `operator "between" expects [min, max], got ${got}`);
+  } else if (operator === 'matches') {
+    checkRegex(condition, 'value', path, diagnostics, true);
+  } else if (operator === 'lengthGreaterThan' || operator === 'lengthLessThan') {
+    checkType(condition, 'value', 'number', path, diagnostics, true);
+  }
+}
+
+function checkCondition(value: unknown, path: string, diagnostics: SchemaDiagnostic[]): void {
+  if (!isObject(value)) {
+    report(diagnostics, path, `expected condition object, got ${describeType(value)}`);
+    return;
+  }
+
+  if ('and' in value || 'or' in value) {
+    const key = 'and' in value ? 'and' : 'or';
+    const children = value[key];
+    const childrenPath = joinPath(path, key);
+
+    if (!Array.isArray(children)) {
+      report(diagnostics, childrenPath, `expected array of conditions, got ${describeType(children)}`);
+      return;
+    }
+    if (children.length === 0) {
+      report(diagnostics, childrenPath, 'must contain at least one condition');
+    }
+    children.forEach((child, index) =>
+      checkCondition(child, joinPath(childrenPath, index), diagnostics));
+    return;
+  }
+
+  if ('not' in value) {
+    checkCondition(value.not, joinPath(path, 'not'), diagnostics);
+    return;
+  }
+
+  if ('field' in value || 'operator' in value) {
+    checkNonEmptyString(value, 'field', path, diagnostics);
+
+    if (value.valueFrom !== undefined) {
+      checkNonEmptyString(value, 'valueFrom', path, diagnostics);
+      if (value.value !== undefined) {
+        report(diagnostics, path, 'condition takes either "value" or "valueFrom", not both');
+      }
+    }
+
+    const operator = value.operator;
+    if (operator === undefined) {
+      report(diagnostics, joinPath(path, 'operator'), 'is required');
+    } else if (typeof operator !== 'string' || !hasOwn(conditionOperators, operator)) {
+      report(diagnostics, joinPath(path, 'operator'), `unknown operator ${JSON.stringify(operator)}`);
+    } else if (value.valueFrom === undefined) {
+      checkConditionValue(value, operator, path, diagnostics);
+    }
+    checkEnum(value, 'match', conditionMatches, path, diagnostics);
+    return;
+  }
+
+  report(diagnostics, path, 'unrecognized condition: expected "field"/"operator", "and", "or" or "not"');
+}
+
+// ============================================================================
+// EXPRESSIONS
+// ============================================================================
+
+const expressionOperators: Record<OperatorExpression['op'], true> = {
+  add: true,
+  subtract: true,
+  multiply: true,
+  divide: true,
+  round: true,
+  concat: true,
+  coalesce: true,
+};
+
+const aggregateFunctions: Record<AggregateExpression['aggregate'], true> = {
+  sum: true,
+  avg: true,
+  min: true,
+  max: true,
+  count: true,
+};
+
+function checkExpression(value: unknown, path: string, diagnostics: SchemaDiagnostic[]): void {
+  if (value === null || ['string', 'number', 'boolean'].includes(typeof value)) return;
+
+  if (!isObject(value)) {
+    report(diagnostics, path, `expected expression, got ${describeType(value)}`);
+    return;
+  }
+
+  if ('ref' in value) {
+    checkNonEmptyString(value, 'ref', path, diagnostics);
+    return;
+  }
+
+  if ('op' in value) {
+    const op = value.op;
+    if (typeof op !== 'string' || !hasOwn(expressionOperators, op)) {
+      report(diagnostics, joinPath(path, 'op'), `unknown expression operator ${JSON.stringify(op)}`);
+    }
+    checkArray(value, 'args', path, diagnostics, (arg, argPath) =>
+      checkExpression(arg, argPath, diagnostics), true);
+    return;
+  }
+
+  if ('if' in value) {
+    checkCondition(value.if, joinPath(path, 'if'), diagnostics);
+    if (!hasOwn(value, 'then')) {
+      report(diagnostics, joinPath(path, 'then'), 'is required');
+    } else {
+      checkExpression(value.then, joinPath(path, 'then'), diagnostics);
+    }
+    if (value.else !== undefined) {
+      checkExpression(value.else, joinPath(path, 'else'), diagnostics);
+    }
+    return;
+  }
+
+  if ('aggregate' in value) {
+    const aggregate = value.aggregate;
+    if (typeof aggregate !== 'string' || !hasOwn(aggregateFunctions, aggregate)) {
+      report(diagnostics, joinPath(path, 'aggregate'), `unknown aggregate ${JSON.stringify(aggregate)}`);
+    }
+    checkNonEmptyString(value, 'section', path, diagnostics);
+    if (value.expression !== undefined) {
+      checkExpression(value.expression, joinPath(path, 'expression'), diagnostics);
+    } else if (aggregate !== 'count') {
+      report(diagnostics, joinPath(path, 'expression'), 'is required');
+    }
+    return;
+  }
+
+  report(diagnostics, path, 'unrecognized expression: expected a literal, "ref", "op", "if" or "aggregate"');
+}
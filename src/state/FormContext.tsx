@@ -8,6 +8,8 @@
  * 1. Split into two contexts (state and dispatch) to prevent unnecessary re-renders
  * 2. Form schema is also provided via context for field components to access
  * 3. Custom hooks hide context complexity from consumers
+ * 4. Computed fields and field effects are applied inside the reducer,
+ *    so every state consumers see is already consistent
  */
 
 import React, {
@@ -16,13 +18,19 @@ import React, {
   useReducer,
   useMemo,
   useCallback,
+  useState,
   type ReactNode,
   type Dispatch,
 } from 'react';
 
 import type { FormSchema, FormValues, FieldValue } from '../schema/types';
+import { findField, getFieldIdFromPath, getSectionInstances } from '../schema/traverse';
+import { deepGet } from '../utils/deep-get-set';
 import { FormStateShape, formReducer, createInitialState, formSelectors } from './reducer';
 import { FormAction, formActions } from './actions';
+import { createComputedPlan, applyComputedValues } from './computed';
+import { createEffectsPlan, applyFieldEffects } from './effects';
+import { createPendingValidations, type PendingValidations } from './pending-validations';
 
 // ============================================================================
 // CONTEXT TYPES
@@ -35,6 +43,7 @@ interface FormContextValue {
 
 interface FormDispatchContextValue {
   dispatch: Dispatch<FormAction>;
+  pendingValidations: PendingValidations;
 }
 
 // ============================================================================
@@ -67,6 +76,9 @@ interface FormProviderProps {
   /** Initial form values */
   initialValues?: FormValues;
   
+  /** Initial wizard step (e.g. restored from a draft) */
+  initialStep?: number;
+  
   /** Child components (form fields, etc.) */
   children: ReactNode;
   
@@ -77,14 +89,32 @@ interface FormProviderProps {
 export function FormProvider({
   schema,
   initialValues = {},
+  initialStep = 0,
   children,
   onChange,
 }: FormProviderProps) {
+  const computedPlan = useMemo(() => createComputedPlan(schema), [schema]);
+  const effectsPlan = useMemo(() => createEffectsPlan(schema), [schema]);
+
+  // Base reducer plus field effects, then computed fields (which may read
+  // values set by effects), applied after every action
+  const reducer = useCallback(
+    (current: FormStateShape, action: FormAction) =>
+      applyComputedValues(
+        applyFieldEffects(current, formReducer(current, action), effectsPlan, action),
+        computedPlan
+      ),
+    [computedPlan, effectsPlan]
+  );
+
   // Initialize reducer with initial values
   const [state, dispatch] = useReducer(
-    formReducer,
-    initialValues,
-    createInitialState
+    reducer,
+    { initialValues, initialStep },
+    (init) => {
+      const initial = createInitialState(init.initialValues, init.initialStep);
+      return applyComputedValues(applyFieldEffects(initial, initial, effectsPlan), computedPlan);
+    }
   );
 
   // Memoize context values to prevent unnecessary re-renders
@@ -93,9 +123,12 @@ export function FormProvider({
     [state, schema]
   );
 
+  // Field validations submit may need to cancel (lives as long as the form)
+  const [pendingValidations] = useState(createPendingValidations);
+
   const dispatchContextValue = useMemo<FormDispatchContextValue>(
-    () => ({ dispatch }),
-    [dispatch]
+    () => ({ dispatch, pendingValidations }),
+    [dispatch, pendingValidations]
   );
 
   // Call onChange when values change
@@ -150,6 +183,23 @@ export function useFormDispatch(): Dispatch<FormAction> {
   return context.dispatch;
 }
 
+/**
+ * Access the form's pending field validations.
+ * Fields track debounced async validations here; submit cancels them.
+ */
+export function usePendingValidations(): PendingValidations {
+  const context = useContext(FormDispatchContext);
+  
+  if (!context) {
+    throw new Error(
+      'usePendingValidations must be used within a FormProvider. ' +
+      'Wrap your form components with <FormProvider>.'
+    );
+  }
+  
+  return context.pendingValidations;
+}
+
 // ============================================================================
 // CONVENIENCE HOOKS
 // ============================================================================
@@ -162,14 +212,12 @@ export function useField(fieldId: string, instanceIndex?: number) {
   const { state, schema } = useFormContext();
   const dispatch = useFormDispatch();
 
-  // Find field schema
-  const fieldSchema = useMemo(() => {
-    for (const section of schema.sections) {
-      const field = section.fields.find(f => f.id === fieldId);
-      if (field) return field;
-    }
-    return undefined;
-  }, [schema, fieldId]);
+  // Find field schema (searches nested sections too); fieldId may be
+  // a repeatable instance path like `items[0].productId`
+  const fieldSchema = useMemo(
+    () => findField(schema.sections, getFieldIdFromPath(fieldId)),
+    [schema, fieldId]
+  );
 
   // Get field state
   const fieldKey = instanceIndex !== undefined 
@@ -181,10 +229,13 @@ export function useField(fieldId: string, instanceIndex?: number) {
     touched: false,
     dirty: false,
     validating: false,
+    pendingUploads: 0,
     errors: [],
+    failures: [],
+    checkedRules: [],
   };
 
-  const value = state.values[fieldId] as FieldValue ?? fieldSchema?.defaultValue ?? null;
+  const value = deepGet<FieldValue>(state.values, fieldId) ?? fieldSchema?.defaultValue ?? null;
 
   // Memoized handlers
   const setValue = useCallback(
@@ -221,6 +272,8 @@ export function useField(fieldId: string, instanceIndex?: number) {
     // Derived state
     error: fieldState.errors[0] || null,
     errors: fieldState.errors,
+    failures: fieldState.failures,
+    checkedRules: fieldState.checkedRules,
     touched: fieldState.touched,
     dirty: fieldState.dirty,
     validating: fieldState.validating,
@@ -280,6 +333,8 @@ export function useFormActions() {
     // State
     values: state.values,
     isSubmitting: state.isSubmitting,
+    submitStatus: state.submitStatus,
+    submitCount: state.submitCount,
     isValid: formSelectors.isValid(state),
     isDirty: formSelectors.isDirty(state),
     isValidating: formSelectors.isValidating(state),
@@ -298,13 +353,16 @@ export function useFormActions() {
 
 /**
  * Hook for repeatable section operations.
+ * `instances` are the instance values stored under values[sectionId];
+ * `instanceKeys` are stable render keys, one per instance.
  */
 export function useRepeatableSection(sectionId: string) {
   const { state } = useFormContext();
   const dispatch = useFormDispatch();
 
-  const section = state.repeatableSections[sectionId] || { instances: [] };
-  const instanceCount = section.instances.length;
+  const instances = getSectionInstances(state.values, sectionId);
+  const instanceCount = instances.length;
+  const instanceKeys = formSelectors.getSectionInstanceKeys(state, sectionId);
 
   const addInstance = useCallback(
     (defaultValues?: Record<string, FieldValue>) => {
@@ -320,11 +378,36 @@ export function useRepeatableSection(sectionId: string) {
     [dispatch, sectionId]
   );
 
+  const moveInstance = useCallback(
+    (fromIndex: number, toIndex: number) => {
+      dispatch(formActions.moveSectionInstance(sectionId, fromIndex, toIndex));
+    },
+    [dispatch, sectionId]
+  );
+
+  const duplicateInstance = useCallback(
+    (index: number) => {
+      dispatch(formActions.duplicateSectionInstance(sectionId, index));
+    },
+    [dispatch, sectionId]
+  );
+
+  const insertInstance = useCallback(
+    (index: number, defaultValues?: Record<string, FieldValue>) => {
+      dispatch(formActions.insertSectionInstance(sectionId, index, defaultValues));
+    },
+    [dispatch, sectionId]
+  );
+
   return {
-    instances: section.instances,
+    instances,
+    instanceKeys,
     instanceCount,
     addInstance,
     removeInstance,
+    moveInstance,
+    duplicateInstance,
+    insertInstance,
     canAdd: true, // Can be extended with maxInstances check
     canRemove: instanceCount > 0,
   };
@@ -8,7 +8,8 @@
  * 4. Action creators are simple functions (no thunks needed)
  */
 
-import type { FieldValue, FormValues } from '../schema/types';
+import type { FieldValue, FormValues, ValidationRule } from '../schema/types';
+import type { ValidationFailure } from '../validation/types';
 
 // ============================================================================
 // ACTION TYPE CONSTANTS
@@ -21,17 +22,25 @@ export const FormActionTypes = {
   SET_FIELD_ERROR: 'SET_FIELD_ERROR',
   CLEAR_FIELD_ERROR: 'CLEAR_FIELD_ERROR',
   SET_FIELD_VALIDATING: 'SET_FIELD_VALIDATING',
+  SET_FIELD_PENDING_UPLOADS: 'SET_FIELD_PENDING_UPLOADS',
   
   // Form-level actions
   SET_VALUES: 'SET_VALUES',
   RESET_FORM: 'RESET_FORM',
   SET_SUBMITTING: 'SET_SUBMITTING',
+  SET_SUBMIT_RESULT: 'SET_SUBMIT_RESULT',
   SET_FORM_ERRORS: 'SET_FORM_ERRORS',
   CLEAR_ALL_ERRORS: 'CLEAR_ALL_ERRORS',
   
+  // Wizard actions
+  SET_CURRENT_STEP: 'SET_CURRENT_STEP',
+  
   // Repeatable section actions
   ADD_SECTION_INSTANCE: 'ADD_SECTION_INSTANCE',
   REMOVE_SECTION_INSTANCE: 'REMOVE_SECTION_INSTANCE',
+  MOVE_SECTION_INSTANCE: 'MOVE_SECTION_INSTANCE',
+  DUPLICATE_SECTION_INSTANCE: 'DUPLICATE_SECTION_INSTANCE',
+  INSERT_SECTION_INSTANCE: 'INSERT_SECTION_INSTANCE',
   
   // Autosave actions
   SET_DRAFT_LOADED: 'SET_DRAFT_LOADED',
@@ -68,7 +77,10 @@ export interface SetFieldErrorAction {
   payload: {
     fieldId: string;
     errors: string[];
+    failures: ValidationFailure[];
     instanceIndex?: number;
+    /** Sync rules the validation ran; kept from before when omitted */
+    checkedRules?: ValidationRule[];
   };
 }
 
@@ -89,6 +101,16 @@ export interface SetFieldValidatingAction {
   };
 }
 
+export interface SetFieldPendingUploadsAction {
+  type: typeof FormActionTypes.SET_FIELD_PENDING_UPLOADS;
+  payload: {
+    fieldId: string;
+    /** Uploads still in progress */
+    count: number;
+    instanceIndex?: number;
+  };
+}
+
 export interface SetValuesAction {
   type: typeof FormActionTypes.SET_VALUES;
   payload: {
@@ -113,10 +135,18 @@ export interface SetSubmittingAction {
   };
 }
 
+export interface SetSubmitResultAction {
+  type: typeof FormActionTypes.SET_SUBMIT_RESULT;
+  payload: {
+    succeeded: boolean;
+  };
+}
+
 export interface SetFormErrorsAction {
   type: typeof FormActionTypes.SET_FORM_ERRORS;
   payload: {
     errors: Record<string, string[]>;
+    formError?: string;
   };
 }
 
@@ -124,6 +154,14 @@ export interface ClearAllErrorsAction {
   type: typeof FormActionTypes.CLEAR_ALL_ERRORS;
 }
 
+export interface SetCurrentStepAction {
+  type: typeof FormActionTypes.SET_CURRENT_STEP;
+  payload: {
+    /** Index into schema.sections of the active wizard step */
+    step: number;
+  };
+}
+
 export interface AddSectionInstanceAction {
   type: typeof FormActionTypes.ADD_SECTION_INSTANCE;
   payload: {
@@ -141,6 +179,34 @@ export interface RemoveSectionInstanceAction {
   };
 }
 
+export interface MoveSectionInstanceAction {
+  type: typeof FormActionTypes.MOVE_SECTION_INSTANCE;
+  payload: {
+    sectionId: string;
+    fromIndex: number;
+    toIndex: number;
+  };
+}
+
+export interface DuplicateSectionInstanceAction {
+  type: typeof FormActionTypes.DUPLICATE_SECTION_INSTANCE;
+  payload: {
+    sectionId: string;
+    /** Instance to copy; the copy is inserted right after it */
+    instanceIndex: number;
+  };
+}
+
+export interface InsertSectionInstanceAction {
+  type: typeof FormActionTypes.INSERT_SECTION_INSTANCE;
+  payload: {
+    sectionId: string;
+    /** Position of the new instance; later instances shift down */
+    instanceIndex: number;
+    defaultValues?: Record<string, FieldValue>;
+  };
+}
+
 export interface SetDraftLoadedAction {
   type: typeof FormActionTypes.SET_DRAFT_LOADED;
   payload: {
@@ -184,13 +250,19 @@ export type FormAction =
   | SetFieldErrorAction
   | ClearFieldErrorAction
   | SetFieldValidatingAction
+  | SetFieldPendingUploadsAction
   | SetValuesAction
   | ResetFormAction
   | SetSubmittingAction
+  | SetSubmitResultAction
   | SetFormErrorsAction
   | ClearAllErrorsAction
+  | SetCurrentStepAction
   | AddSectionInstanceAction
   | RemoveSectionInstanceAction
+  | MoveSectionInstanceAction
+  | DuplicateSectionInstanceAction
+  | InsertSectionInstanceAction
   | SetDraftLoadedAction
   | SetLastSavedAction
   | SetConflictAction
@@ -224,14 +296,21 @@ export const formActions = {
     payload: { fieldId, touched, instanceIndex },
   }),
 
+  /** Accepts plain messages or rule-tagged failures (see validationMode) */
   setFieldError: (
     fieldId: string,
-    errors: string[],
-    instanceIndex?: number
-  ): SetFieldErrorAction => ({
-    type: FormActionTypes.SET_FIELD_ERROR,
-    payload: { fieldId, errors, instanceIndex },
-  }),
+    errors: string[] | ValidationFailure[],
+    instanceIndex?: number,
+    checkedRules?: ValidationRule[]
+  ): SetFieldErrorAction => {
+    const failures = (errors as Array<string | ValidationFailure>).map(error =>
+      typeof error === 'string' ? { message: error } : error
+    );
+    return {
+      type: FormActionTypes.SET_FIELD_ERROR,
+      payload: { fieldId, errors: failures.map(f => f.message), failures, instanceIndex, checkedRules },
+    };
+  },
 
   clearFieldError: (
     fieldId: string,
@@ -250,6 +329,15 @@ export const formActions = {
     payload: { fieldId, validating, instanceIndex },
   }),
 
+  setFieldPendingUploads: (
+    fieldId: string,
+    count: number,
+    instanceIndex?: number
+  ): SetFieldPendingUploadsAction => ({
+    type: FormActionTypes.SET_FIELD_PENDING_UPLOADS,
+    payload: { fieldId, count, instanceIndex },
+  }),
+
   setValues: (values: FormValues, isInitial = false): SetValuesAction => ({
     type: FormActionTypes.SET_VALUES,
     payload: { values, isInitial },
@@ -265,15 +353,25 @@ export const formActions = {
     payload: { submitting },
   }),
 
-  setFormErrors: (errors: Record<string, string[]>): SetFormErrorsAction => ({
+  setSubmitResult: (succeeded: boolean): SetSubmitResultAction => ({
+    type: FormActionTypes.SET_SUBMIT_RESULT,
+    payload: { succeeded },
+  }),
+
+  setFormErrors: (errors: Record<string, string[]>, formError?: string): SetFormErrorsAction => ({
     type: FormActionTypes.SET_FORM_ERRORS,
-    payload: { errors },
+    payload: { errors, formError },
   }),
 
   clearAllErrors: (): ClearAllErrorsAction => ({
     type: FormActionTypes.CLEAR_ALL_ERRORS,
   }),
 
+  setCurrentStep: (step: number): SetCurrentStepAction => ({
+    type: FormActionTypes.SET_CURRENT_STEP,
+    payload: { step },
+  }),
+
   addSectionInstance: (
     sectionId: string,
     defaultValues?: Record<string, FieldValue>
@@ -290,6 +388,32 @@ export const formActions = {
     payload: { sectionId, instanceIndex },
   }),
 
+  moveSectionInstance: (
+    sectionId: string,
+    fromIndex: number,
+    toIndex: number
+  ): MoveSectionInstanceAction => ({
+    type: FormActionTypes.MOVE_SECTION_INSTANCE,
+    payload: { sectionId, fromIndex, toIndex },
+  }),
+
+  duplicateSectionInstance: (
+    sectionId: string,
+    instanceIndex: number
+  ): DuplicateSectionInstanceAction => ({
+    type: FormActionTypes.DUPLICATE_SECTION_INSTANCE,
+    payload: { sectionId, instanceIndex },
+  }),
+
+  insertSectionInstance: (
+    sectionId: string,
+    instanceIndex: number,
+    defaultValues?: Record<string, FieldValue>
+  ): InsertSectionInstanceAction => ({
+    type: FormActionTypes.INSERT_SECTION_INSTANCE,
+    payload: { sectionId, instanceIndex, defaultValues },
+  }),
+
   setDraftLoaded: (loaded: boolean, timestamp?: number): SetDraftLoadedAction => ({
     type: FormActionTypes.SET_DRAFT_LOADED,
     payload: { loaded, timestamp },
@@ -0,0 +1,131 @@
+/**
+ * COMPUTED FIELDS
+ *
+ * Keeps `computed` field values in sync with the rest of the form.
+ *
+ * Design Decisions:
+ * 1. Applied after every reducer update, so computed values can never
+ *    drift from their inputs (and user edits to them are overwritten)
+ * 2. Fields are evaluated in dependency order, so a total can build on
+ *    other computed fields (e.g. sum of line totals)
+ * 3. Fields in a dependency cycle are skipped; the linter reports them
+ * 4. Computed fields inside a repeatable section are evaluated per instance
+ */
+
+import type { Expression, FieldSchema, FieldValue, FormSchema, FormValues, SectionSchema } from '../schema/types';
+import { collectFields, collectSections, getInstanceFieldPath, getSectionInstances } from '../schema/traverse';
+import { evaluateExpression, getExpressionDependencies, getExpressionSections } from '../schema/expressions';
+import { deepGet, deepSet } from '../utils/deep-get-set';
+import type { FormStateShape } from './reducer';
+
+interface ComputedStep {
+  field: FieldSchema;
+  expression: Expression;
+  /** Innermost repeatable section containing the field, if any */
+  repeatableSection?: SectionSchema;
+}
+
+export interface ComputedPlan {
+  /** Computed fields in evaluation order */
+  steps: ComputedStep[];
+  /** Repeatable sections, keyed by ID, for building aggregate inputs */
+  sections: Map<string, SectionSchema>;
+}
+
+/**
+ * Orders a schema's computed fields so dependencies are evaluated first.
+ */
+export function createComputedPlan(schema: FormSchema): ComputedPlan {
+  const sections = new Map<string, SectionSchema>();
+  for (const { section } of collectSections(schema.sections)) {
+    if (section.repeatable && !sections.has(section.id)) sections.set(section.id, section);
+  }
+
+  const candidates = new Map<string, ComputedStep>();
+  for (const { field, sections: enclosing } of collectFields(schema.sections)) {
+    if (field.computed === undefined || candidates.has(field.id)) continue;
+
+    candidates.set(field.id, {
+      field,
+      expression: field.computed,
+      repeatableSection: [...enclosing].reverse().find(section => section.repeatable),
+    });
+  }
+
+  // Depth-first topological sort; dependencies are pushed before dependents
+  const steps: ComputedStep[] = [];
+  const state = new Map<string, 'visiting' | 'done' | 'cyclic'>();
+
+  const visit = (id: string): boolean => {
+    const current = state.get(id);
+    if (current === 'done') return true;
+    if (current === 'visiting' || current === 'cyclic') {
+      state.set(id, 'cyclic');
+      return false;
+    }
+
+    const step = candidates.get(id) as ComputedStep;
+    state.set(id, 'visiting');
+
+    let acyclic = true;
+    for (const dependency of new Set(getExpressionDependencies(step.expression))) {
+      if (candidates.has(dependency) && !visit(dependency)) acyclic = false;
+    }
+
+    if (!acyclic || state.get(id) === 'cyclic') {
+      state.set(id, 'cyclic');
+      return false;
+    }
+
+    state.set(id, 'done');
+    steps.push(step);
+    return true;
+  };
+
+  for (const id of candidates.keys()) visit(id);
+
+  const skipped = [...candidates.keys()].filter(id => state.get(id) === 'cyclic');
+  if (skipped.length > 0) {
+    console.warn('Computed fields skipped due to dependency cycle:', skipped);
+  }
+
+  return { steps, sections };
+}
+
+/**
+ * Recomputes every computed field. Returns the same state object when
+ * nothing changed so React can bail out of re-rendering.
+ */
+export function applyComputedValues(state: FormStateShape, plan: ComputedPlan): FormStateShape {
+  if (plan.steps.length === 0) return state;
+
+  let values: FormValues = state.values;
+
+  const assign = (path: string, value: FieldValue) => {
+    if (deepGet(values, path) !== value) {
+      values = deepSet(values, path, value);
+    }
+  };
+
+  for (const { field, expression, repeatableSection } of plan.steps) {
+    // Rebuilt per step so earlier computed values are visible to later ones
+    const instances: Record<string, FormValues[]> = {};
+    for (const sectionId of getExpressionSections(expression)) {
+      if (plan.sections.has(sectionId)) instances[sectionId] = getSectionInstances(values, sectionId);
+    }
+
+    if (!repeatableSection) {
+      assign(field.id, evaluateExpression(expression, { values, instances }));
+      continue;
+    }
+
+    getSectionInstances(values, repeatableSection.id).forEach((instanceValues, index) => {
+      assign(
+        getInstanceFieldPath(repeatableSection.id, index, field.id),
+        evaluateExpression(expression, { values: { ...values, ...instanceValues }, instances })
+      );
+    });
+  }
+
+  return values === state.values ? state : { ...state, values };
+}
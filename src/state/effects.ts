@@ -0,0 +1,158 @@
+/**
+ * FIELD EFFECTS
+ *
+ * Applies the value effects of `effects` blocks (setValueWhen, clearWhen,
+ * clearOnChange) and the 'clearOnHide' hiddenValuePolicy to form values.
+ *
+ * Design Decisions:
+ * 1. Applied after every reducer update, next to computed fields, so
+ *    effects hold in state (and in submitted values), not only on screen
+ * 2. setValueWhen and clearWhen are level-triggered: the value is kept
+ *    set (or empty) for as long as the condition holds
+ * 3. clearOnChange only reacts to edits (SET_FIELD_VALUE), so restoring
+ *    a draft or resetting the form keeps dependent values intact
+ * 4. disable/readOnly/require effects are not stored; they are resolved
+ *    while rendering and validating (see resolveFieldEffects)
+ */
+
+import type { Condition, FieldSchema, FieldValue, FormSchema, FormValues, SectionSchema, SetValueEffect } from '../schema/types';
+import { collectFields, getInstancePath, getSectionInstances, type FieldEntry } from '../schema/traverse';
+import { evaluateCondition, getHiddenValuePaths, getScopedValues, resolveConditionPath } from '../schema/resolver';
+import { evaluateExpression, getExpressionSections } from '../schema/expressions';
+import { deepGet, deepSet, toPathKeys } from '../utils/deep-get-set';
+import { FormActionTypes, type FormAction } from './actions';
+import type { FormStateShape } from './reducer';
+
+interface EffectStep {
+  field: FieldSchema;
+  setValueWhen: SetValueEffect[];
+  /** The field's clearWhen plus those of its enclosing sections */
+  clearWhen: Condition[];
+  clearOnChange: string[];
+  /** Innermost repeatable section containing the field, if any */
+  repeatableSection?: SectionSchema;
+}
+
+export interface EffectsPlan {
+  /** Fields with value effects, in document order */
+  steps: EffectStep[];
+  /** Fields cleared while hidden (hiddenValuePolicy 'clearOnHide') */
+  clearOnHide: FieldEntry[];
+}
+
+/**
+ * Collects the fields of a schema that have value effects.
+ */
+export function createEffectsPlan(schema: FormSchema): EffectsPlan {
+  const steps: EffectStep[] = [];
+  const entries = collectFields(schema.sections);
+
+  for (const { field, sections } of entries) {
+    const effects = field.effects;
+    const setValueWhen = effects?.setValueWhen === undefined
+      ? []
+      : Array.isArray(effects.setValueWhen) ? effects.setValueWhen : [effects.setValueWhen];
+    const clearWhen = [...sections.map(section => section.effects?.clearWhen), effects?.clearWhen]
+      .filter((condition): condition is Condition => condition !== undefined);
+    const clearOnChange = effects?.clearOnChange ?? [];
+
+    if (setValueWhen.length === 0 && clearWhen.length === 0 && clearOnChange.length === 0) continue;
+
+    steps.push({
+      field,
+      setValueWhen,
+      clearWhen,
+      clearOnChange,
+      repeatableSection: [...sections].reverse().find(section => section.repeatable),
+    });
+  }
+
+  const clearOnHide = entries.filter(({ field }) =>
+    (field.hiddenValuePolicy ?? schema.hiddenValuePolicy) === 'clearOnHide');
+
+  return { steps, clearOnHide };
+}
+
+/**
+ * Applies value effects to `state`, the result of `action` on `previous`.
+ * Returns the same state object when nothing changed.
+ */
+export function applyFieldEffects(
+  previous: FormStateShape,
+  state: FormStateShape,
+  plan: EffectsPlan,
+  action?: FormAction
+): FormStateShape {
+  if (plan.steps.length === 0 && plan.clearOnHide.length === 0) return state;
+
+  let values: FormValues = state.values;
+
+  const assign = (path: string, value: FieldValue) => {
+    if (deepGet(values, path) !== value) {
+      values = deepSet(values, path, value);
+    }
+  };
+
+  // Value path the user just edited, if the edit changed anything
+  const editedPath =
+    action?.type === FormActionTypes.SET_FIELD_VALUE &&
+    deepGet(previous.values, action.payload.fieldId) !== deepGet(state.values, action.payload.fieldId)
+      ? normalizePath(action.payload.fieldId)
+      : undefined;
+
+  for (const step of plan.steps) {
+    const section = step.repeatableSection;
+    const scopes = section
+      ? getSectionInstances(values, section.id).map((_, index) => getInstancePath(section.id, index))
+      : [undefined];
+
+    for (const scope of scopes) {
+      const path = scope ? `${scope}.${step.field.id}` : step.field.id;
+      const scopedValues = scope ? getScopedValues(values, scope) : values;
+      const holds = (condition: Condition) => evaluateCondition(condition, scopedValues, scope);
+
+      const setValue = step.setValueWhen.find(effect => holds(effect.when));
+      if (setValue) {
+        assign(path, evaluateExpression(setValue.value, {
+          values: scopedValues,
+          instances: getExpressionInstances(setValue, values),
+        }));
+        continue;
+      }
+
+      const edited = editedPath !== undefined && step.clearOnChange.some(ref => {
+        const refPath = resolveConditionPath(ref, scope);
+        return refPath !== undefined && normalizePath(refPath) === editedPath;
+      });
+
+      if (edited || step.clearWhen.some(holds)) {
+        assign(path, undefined);
+      }
+    }
+  }
+
+  // Last, so values set by effects are cleared too if their field is hidden
+  for (const path of getHiddenValuePaths(plan.clearOnHide, values, 'clearOnHide', 'clearOnHide')) {
+    assign(path, undefined);
+  }
+
+  return values === state.values ? state : { ...state, values };
+}
+
+/**
+ * Instance lists of the sections a setValueWhen expression aggregates over.
+ */
+function getExpressionInstances(effect: SetValueEffect, values: FormValues): Record<string, FormValues[]> {
+  const instances: Record<string, FormValues[]> = {};
+  for (const sectionId of getExpressionSections(effect.value)) {
+    instances[sectionId] = getSectionInstances(values, sectionId);
+  }
+  return instances;
+}
+
+/**
+ * `items[0].type` and `items.0.type` compare equal.
+ */
+function normalizePath(path: string): string {
+  return toPathKeys(path).join('.');
+}
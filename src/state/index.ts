@@ -1,6 +1,9 @@
 // State exports
-export { FormProvider, useFormContext, useFormDispatch, useField, useFormActions, useRepeatableSection, useAutosaveState } from './FormContext';
+export { FormProvider, useFormContext, useFormDispatch, usePendingValidations, useField, useFormActions, useRepeatableSection, useAutosaveState } from './FormContext';
 export { formReducer, createInitialState, formSelectors } from './reducer';
 export type { FormStateShape, FieldState, RepeatableSectionState, AutosaveState } from './reducer';
+export { createComputedPlan, applyComputedValues } from './computed';
+export type { ComputedPlan } from './computed';
 export { formActions, FormActionTypes } from './actions';
 export type { FormAction } from './actions';
+export type { PendingValidations } from './pending-validations';
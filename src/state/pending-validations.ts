@@ -0,0 +1,35 @@
+/**
+ * PENDING FIELD VALIDATIONS
+ *
+ * Debounced or in-flight async validations started by fields, one per
+ * field. Submit cancels them before validating the whole form, so a late
+ * field result can't overwrite the errors submit (or the server) reported.
+ */
+
+export interface PendingValidations {
+  /**
+   * Registers how to cancel a field's pending validation, replacing the
+   * previous one of that field. Returns a function to call once it settles.
+   */
+  track: (fieldId: string, cancel: () => void) => () => void;
+  /** Cancels every pending validation */
+  cancelAll: () => void;
+}
+
+export function createPendingValidations(): PendingValidations {
+  const pending = new Map<string, () => void>();
+
+  return {
+    track: (fieldId, cancel) => {
+      pending.set(fieldId, cancel);
+      return () => {
+        if (pending.get(fieldId) === cancel) pending.delete(fieldId);
+      };
+    },
+    cancelAll: () => {
+      const cancels = Array.from(pending.values());
+      pending.clear();
+      cancels.forEach(cancel => cancel());
+    },
+  };
+}
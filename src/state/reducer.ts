@@ -8,7 +8,10 @@
  * 4. Field state separate from values for clarity
  */
 
-import type { FormValues, FieldValue } from '../schema/types';
+import type { FormValues, FieldValue, SubmitStatus, ValidationRule } from '../schema/types';
+import { getSectionInstances } from '../schema/traverse';
+import { deepGet, deepSet } from '../utils/deep-get-set';
+import type { ValidationFailure } from '../validation/types';
 import { FormAction, FormActionTypes } from './actions';
 
 // ============================================================================
@@ -20,11 +23,21 @@ export interface FieldState {
   touched: boolean;
   dirty: boolean;
   validating: boolean;
+  /** Uploads still in progress (file fields); submit waits for them */
+  pendingUploads: number;
   errors: string[];
+  /** Same as errors, tagged with the rule that produced each one */
+  failures: ValidationFailure[];
+  /** Sync rules the last validation ran; the rest haven't been checked */
+  checkedRules: ValidationRule[];
 }
 
 export interface RepeatableSectionState {
   instances: Array<Record<string, FieldState>>;
+  /** Render key of each instance; follows it when instances move */
+  keys: string[];
+  /** Number used for the next key handed out */
+  nextKey: number;
 }
 
 export interface AutosaveState {
@@ -44,7 +57,7 @@ export interface FormStateShape {
   /** Per-field state (touched, errors, etc.) */
   fields: Record<string, FieldState>;
   
-  /** Repeatable section instances */
+  /** Repeatable section bookkeeping; instance values live in values[sectionId] */
   repeatableSections: Record<string, RepeatableSectionState>;
   
   /** Initial values for reset functionality */
@@ -53,6 +66,13 @@ export interface FormStateShape {
   /** Form-level state */
   isSubmitting: boolean;
   submitCount: number;
+  submitStatus: SubmitStatus;
+  
+  /** Error not tied to a field, e.g. from a rejected submission */
+  formError: string | null;
+  
+  /** Active wizard step (index into schema.sections, unused in single-page mode) */
+  currentStep: number;
   
   /** Autosave state */
   autosave: AutosaveState;
@@ -62,7 +82,10 @@ export interface FormStateShape {
 // INITIAL STATE FACTORY
 // ============================================================================
 
-export function createInitialState(initialValues: FormValues = {}): FormStateShape {
+export function createInitialState(
+  initialValues: FormValues = {},
+  currentStep = 0
+): FormStateShape {
   return {
     values: initialValues,
     fields: {},
@@ -70,6 +93,9 @@ export function createInitialState(initialValues: FormValues = {}): FormStateSha
     initialValues,
     isSubmitting: false,
     submitCount: 0,
+    submitStatus: 'idle',
+    formError: null,
+    currentStep,
     autosave: {
       draftLoaded: false,
       lastSaved: null,
@@ -95,7 +121,10 @@ function createFieldState(value: FieldValue = null): FieldState {
     touched: false,
     dirty: false,
     validating: false,
+    pendingUploads: 0,
     errors: [],
+    failures: [],
+    checkedRules: [],
   };
 }
 
@@ -109,6 +138,93 @@ function getFieldKey(fieldId: string, instanceIndex?: number): string {
   return fieldId;
 }
 
+/**
+ * Moves field state of repeatable instances after their instances moved.
+ * `mapIndex` gives each old index its new one, or null to drop it.
+ * Keys look like `items[2].productId`.
+ */
+function reindexInstanceFields(
+  fields: Record<string, FieldState>,
+  sectionId: string,
+  mapIndex: (index: number) => number | null
+): Record<string, FieldState> {
+  const prefix = `${sectionId}[`;
+  const reindexed: Record<string, FieldState> = {};
+
+  for (const [key, fieldState] of Object.entries(fields)) {
+    const match = key.startsWith(prefix) ? /^\[(\d+)\](.*)$/.exec(key.slice(sectionId.length)) : null;
+    if (!match) {
+      reindexed[key] = fieldState;
+      continue;
+    }
+
+    const newIndex = mapIndex(Number(match[1]));
+    if (newIndex !== null) {
+      reindexed[`${sectionId}[${newIndex}]${match[2]}`] = fieldState;
+    }
+  }
+
+  return reindexed;
+}
+
+/**
+ * Copies the field state of one instance to another index (used by duplicate).
+ */
+function copyInstanceFields(
+  fields: Record<string, FieldState>,
+  sectionId: string,
+  fromIndex: number,
+  toIndex: number
+): Record<string, FieldState> {
+  const fromPrefix = `${sectionId}[${fromIndex}]`;
+  const copied = { ...fields };
+
+  for (const [key, fieldState] of Object.entries(fields)) {
+    if (key.startsWith(`${fromPrefix}.`)) {
+      copied[`${sectionId}[${toIndex}]${key.slice(fromPrefix.length)}`] = fieldState;
+    }
+  }
+
+  return copied;
+}
+
+/**
+ * Instance keys of a section, one per instance in values. Instances that
+ * arrived with values (initial values, drafts) get the next numbers in
+ * order, so render and the reducer agree on keys not stored yet.
+ */
+function getInstanceKeys(
+  section: RepeatableSectionState | undefined,
+  instanceCount: number
+): Pick<RepeatableSectionState, 'keys' | 'nextKey'> {
+  const keys = (section?.keys ?? []).slice(0, instanceCount);
+  let nextKey = section?.nextKey ?? 0;
+  while (keys.length < instanceCount) {
+    keys.push(`instance-${nextKey++}`);
+  }
+  return { keys, nextKey };
+}
+
+/**
+ * Returns a copy of `list` with the item at `from` moved to `to`.
+ */
+function moveItem<T>(list: T[], from: number, to: number): T[] {
+  const moved = [...list];
+  const [item] = moved.splice(from, 1);
+  if (item !== undefined) moved.splice(to, 0, item);
+  return moved;
+}
+
+/**
+ * New position of the instance at `index` after moving `from` to `to`.
+ */
+function getMovedIndex(index: number, from: number, to: number): number {
+  if (index === from) return to;
+  if (from < to && index > from && index <= to) return index - 1;
+  if (from > to && index >= to && index < from) return index + 1;
+  return index;
+}
+
 /**
  * Checks if any field has errors
  */
@@ -143,15 +259,13 @@ export function formReducer(
       const existingField = state.fields[key] || createFieldState();
       
       // Check if value actually changed
-      const initialValue = state.initialValues[fieldId];
+      const initialValue = deepGet(state.initialValues, fieldId);
       const isDirty = value !== initialValue;
       
+      // fieldId may be a value path into a repeatable instance (items[0].productId)
       return {
         ...state,
-        values: {
-          ...state.values,
-          [fieldId]: value,
-        },
+        values: deepSet(state.values, fieldId, value),
         fields: {
           ...state.fields,
           [key]: {
@@ -160,6 +274,7 @@ export function formReducer(
             dirty: isDirty,
             // Clear errors on change (will be re-validated)
             errors: [],
+            failures: [],
           },
         },
       };
@@ -190,7 +305,7 @@ export function formReducer(
     // FIELD ERRORS
     // =========================================================================
     case FormActionTypes.SET_FIELD_ERROR: {
-      const { fieldId, errors, instanceIndex } = action.payload;
+      const { fieldId, errors, failures, instanceIndex, checkedRules } = action.payload;
       const key = getFieldKey(fieldId, instanceIndex);
       
       const existingField = state.fields[key] || createFieldState();
@@ -202,6 +317,8 @@ export function formReducer(
           [key]: {
             ...existingField,
             errors,
+            failures,
+            checkedRules: checkedRules ?? existingField.checkedRules,
             validating: false,
           },
         },
@@ -222,6 +339,7 @@ export function formReducer(
           [key]: {
             ...existingField,
             errors: [],
+            failures: [],
           },
         },
       };
@@ -248,6 +366,25 @@ export function formReducer(
       };
     }
 
+    case FormActionTypes.SET_FIELD_PENDING_UPLOADS: {
+      const { fieldId, count, instanceIndex } = action.payload;
+      const key = getFieldKey(fieldId, instanceIndex);
+      
+      const existingField = state.fields[key] || createFieldState();
+      if (existingField.pendingUploads === count) return state;
+      
+      return {
+        ...state,
+        fields: {
+          ...state.fields,
+          [key]: {
+            ...existingField,
+            pendingUploads: count,
+          },
+        },
+      };
+    }
+
     // =========================================================================
     // BULK VALUE UPDATES
     // =========================================================================
@@ -292,6 +429,9 @@ export function formReducer(
         fields: freshFields,
         repeatableSections: {},
         isSubmitting: false,
+        submitStatus: 'idle',
+        formError: null,
+        currentStep: 0,
       };
     }
 
@@ -299,31 +439,47 @@ export function formReducer(
     // FORM SUBMISSION STATE
     // =========================================================================
     case FormActionTypes.SET_SUBMITTING: {
+      const { submitting } = action.payload;
+      
+      // Stopping without a result (e.g. cancelled) returns to idle
       return {
         ...state,
-        isSubmitting: action.payload.submitting,
-        submitCount: action.payload.submitting 
+        isSubmitting: submitting,
+        submitCount: submitting 
           ? state.submitCount + 1 
           : state.submitCount,
+        submitStatus: submitting ? 'submitting' : 'idle',
+      };
+    }
+
+    case FormActionTypes.SET_SUBMIT_RESULT: {
+      return {
+        ...state,
+        isSubmitting: false,
+        submitStatus: action.payload.succeeded ? 'succeeded' : 'failed',
       };
     }
 
     case FormActionTypes.SET_FORM_ERRORS: {
-      const { errors } = action.payload;
+      const { errors, formError } = action.payload;
       
       const updatedFields = { ...state.fields };
       
+      // Errors set from outside (e.g. the server) show regardless of interaction
       for (const [fieldId, fieldErrors] of Object.entries(errors)) {
         const existingField = state.fields[fieldId] || createFieldState();
         updatedFields[fieldId] = {
           ...existingField,
+          touched: true,
           errors: fieldErrors,
+          failures: fieldErrors.map(message => ({ message })),
         };
       }
       
       return {
         ...state,
         fields: updatedFields,
+        formError: formError ?? null,
       };
     }
 
@@ -334,12 +490,24 @@ export function formReducer(
         clearedFields[fieldId] = {
           ...fieldState,
           errors: [],
+          failures: [],
         };
       }
       
       return {
         ...state,
         fields: clearedFields,
+        formError: null,
+      };
+    }
+
+    // =========================================================================
+    // WIZARD NAVIGATION
+    // =========================================================================
+    case FormActionTypes.SET_CURRENT_STEP: {
+      return {
+        ...state,
+        currentStep: Math.max(0, action.payload.step),
       };
     }
 
@@ -349,7 +517,9 @@ export function formReducer(
     case FormActionTypes.ADD_SECTION_INSTANCE: {
       const { sectionId, defaultValues = {} } = action.payload;
       
-      const existingSection = state.repeatableSections[sectionId] || { instances: [] };
+      const instances = getSectionInstances(state.values, sectionId);
+      const existingSection = state.repeatableSections[sectionId] || { instances: [], keys: [], nextKey: 0 };
+      const { keys, nextKey } = getInstanceKeys(existingSection, instances.length);
       
       // Create field states for new instance
       const newInstanceFields: Record<string, FieldState> = {};
@@ -359,10 +529,13 @@ export function formReducer(
       
       return {
         ...state,
+        values: deepSet(state.values, sectionId, [...instances, { ...defaultValues }]),
         repeatableSections: {
           ...state.repeatableSections,
           [sectionId]: {
             instances: [...existingSection.instances, newInstanceFields],
+            keys: [...keys, `instance-${nextKey}`],
+            nextKey: nextKey + 1,
           },
         },
       };
@@ -371,19 +544,136 @@ export function formReducer(
     case FormActionTypes.REMOVE_SECTION_INSTANCE: {
       const { sectionId, instanceIndex } = action.payload;
       
-      const existingSection = state.repeatableSections[sectionId];
-      if (!existingSection) return state;
+      const instances = getSectionInstances(state.values, sectionId);
+      if (instanceIndex < 0 || instanceIndex >= instances.length) return state;
+      
+      const existingSection = state.repeatableSections[sectionId] || { instances: [], keys: [], nextKey: 0 };
+      const { keys, nextKey } = getInstanceKeys(existingSection, instances.length);
+      
+      // Later instances shift down; their field state (touched, errors) follows them
+      return {
+        ...state,
+        values: deepSet(
+          state.values,
+          sectionId,
+          instances.filter((_, index) => index !== instanceIndex)
+        ),
+        fields: reindexInstanceFields(state.fields, sectionId, index =>
+          index === instanceIndex ? null : index > instanceIndex ? index - 1 : index
+        ),
+        repeatableSections: {
+          ...state.repeatableSections,
+          [sectionId]: {
+            instances: existingSection.instances.filter(
+              (_, index) => index !== instanceIndex
+            ),
+            keys: keys.filter((_, index) => index !== instanceIndex),
+            nextKey,
+          },
+        },
+      };
+    }
+
+    case FormActionTypes.MOVE_SECTION_INSTANCE: {
+      const { sectionId, fromIndex, toIndex } = action.payload;
+      
+      const instances = getSectionInstances(state.values, sectionId);
+      const isInRange = (index: number) => index >= 0 && index < instances.length;
+      if (fromIndex === toIndex || !isInRange(fromIndex) || !isInRange(toIndex)) return state;
+      
+      const existingSection = state.repeatableSections[sectionId] || { instances: [], keys: [], nextKey: 0 };
+      const { keys, nextKey } = getInstanceKeys(existingSection, instances.length);
+      
+      return {
+        ...state,
+        values: deepSet(state.values, sectionId, moveItem(instances, fromIndex, toIndex)),
+        fields: reindexInstanceFields(state.fields, sectionId, index =>
+          getMovedIndex(index, fromIndex, toIndex)
+        ),
+        repeatableSections: {
+          ...state.repeatableSections,
+          [sectionId]: {
+            instances: moveItem(existingSection.instances, fromIndex, toIndex),
+            keys: moveItem(keys, fromIndex, toIndex),
+            nextKey,
+          },
+        },
+      };
+    }
+
+    case FormActionTypes.DUPLICATE_SECTION_INSTANCE: {
+      const { sectionId, instanceIndex } = action.payload;
+      
+      const instances = getSectionInstances(state.values, sectionId);
+      const source = instances[instanceIndex];
+      if (!source) return state;
+      
+      const existingSection = state.repeatableSections[sectionId] || { instances: [], keys: [], nextKey: 0 };
+      const { keys, nextKey } = getInstanceKeys(existingSection, instances.length);
+      const copyIndex = instanceIndex + 1;
       
-      const newInstances = existingSection.instances.filter(
-        (_, index) => index !== instanceIndex
+      // Make room after the source, then copy its values and field state
+      const shiftedFields = reindexInstanceFields(state.fields, sectionId, index =>
+        index >= copyIndex ? index + 1 : index
       );
       
       return {
         ...state,
+        values: deepSet(state.values, sectionId, [
+          ...instances.slice(0, copyIndex),
+          { ...source },
+          ...instances.slice(copyIndex),
+        ]),
+        fields: copyInstanceFields(shiftedFields, sectionId, instanceIndex, copyIndex),
+        repeatableSections: {
+          ...state.repeatableSections,
+          [sectionId]: {
+            instances: [
+              ...existingSection.instances.slice(0, copyIndex),
+              { ...existingSection.instances[instanceIndex] },
+              ...existingSection.instances.slice(copyIndex),
+            ],
+            // The copy is a new instance, so it gets its own key
+            keys: [...keys.slice(0, copyIndex), `instance-${nextKey}`, ...keys.slice(copyIndex)],
+            nextKey: nextKey + 1,
+          },
+        },
+      };
+    }
+
+    case FormActionTypes.INSERT_SECTION_INSTANCE: {
+      const { sectionId, defaultValues = {} } = action.payload;
+      
+      const instances = getSectionInstances(state.values, sectionId);
+      const instanceIndex = Math.min(Math.max(action.payload.instanceIndex, 0), instances.length);
+      
+      const existingSection = state.repeatableSections[sectionId] || { instances: [], keys: [], nextKey: 0 };
+      const { keys, nextKey } = getInstanceKeys(existingSection, instances.length);
+      const newInstanceFields: Record<string, FieldState> = {};
+      for (const [fieldId, value] of Object.entries(defaultValues)) {
+        newInstanceFields[fieldId] = createFieldState(value);
+      }
+      
+      return {
+        ...state,
+        values: deepSet(state.values, sectionId, [
+          ...instances.slice(0, instanceIndex),
+          { ...defaultValues },
+          ...instances.slice(instanceIndex),
+        ]),
+        fields: reindexInstanceFields(state.fields, sectionId, index =>
+          index >= instanceIndex ? index + 1 : index
+        ),
         repeatableSections: {
           ...state.repeatableSections,
           [sectionId]: {
-            instances: newInstances,
+            instances: [
+              ...existingSection.instances.slice(0, instanceIndex),
+              newInstanceFields,
+              ...existingSection.instances.slice(instanceIndex),
+            ],
+            keys: [...keys.slice(0, instanceIndex), `instance-${nextKey}`, ...keys.slice(instanceIndex)],
+            nextKey: nextKey + 1,
           },
         },
       };
@@ -492,7 +782,12 @@ export const formSelectors = {
 
   /** Get field value */
   getFieldValue: (state: FormStateShape, fieldId: string): FieldValue => {
-    return state.values[fieldId] as FieldValue;
+    return deepGet<FieldValue>(state.values, fieldId);
+  },
+
+  /** Check if any file field is still uploading */
+  hasPendingUploads: (state: FormStateShape): boolean => {
+    return Object.values(state.fields).some(field => field.pendingUploads > 0);
   },
 
   /** Check if any field is currently validating (async) */
@@ -509,6 +804,12 @@ export const formSelectors = {
 
   /** Get repeatable section instance count */
   getSectionInstanceCount: (state: FormStateShape, sectionId: string): number => {
-    return state.repeatableSections[sectionId]?.instances.length ?? 0;
+    return getSectionInstances(state.values, sectionId).length;
+  },
+
+  /** Get render keys of repeatable section instances (stable across moves) */
+  getSectionInstanceKeys: (state: FormStateShape, sectionId: string): string[] => {
+    const instanceCount = getSectionInstances(state.values, sectionId).length;
+    return getInstanceKeys(state.repeatableSections[sectionId], instanceCount).keys;
   },
 };
@@ -150,3 +150,24 @@ export const CustomStyled: Story = {
     },
   },
 };
+
+// ============= WIZARD MODE =============
+
+export const WizardMode: Story = {
+  args: {
+    schema: registrationFormSchema,
+    initialValues: {},
+    mode: 'wizard',
+    onSubmit: (values: FormValues) => {
+      console.log('Registration submitted:', values);
+      alert('Registration submitted! Check console.');
+    },
+  },
+  parameters: {
+    docs: {
+      description: {
+        story: 'Each top-level section is a step. Next validates the current step; the Business step only appears for business accounts.',
+      },
+    },
+  },
+};
@@ -0,0 +1,41 @@
+/**
+ * FILE HELPERS
+ *
+ * Checks applied to picked or dropped files before they are uploaded.
+ */
+
+/**
+ * Whether a file matches an `accept` list like '.pdf,.docx' or 'image/*'.
+ * Dropped files bypass the native input's filter, so they are checked here.
+ */
+export function matchesAccept(file: { name: string; type: string }, accept: string): boolean {
+  const patterns = accept.split(',').map(pattern => pattern.trim().toLowerCase()).filter(Boolean);
+  if (patterns.length === 0) return true;
+
+  const name = file.name.toLowerCase();
+  const type = file.type.toLowerCase();
+
+  return patterns.some(pattern => {
+    if (pattern.startsWith('.')) return name.endsWith(pattern);
+    if (pattern.endsWith('/*')) return type.startsWith(pattern.slice(0, -1));
+    return type === pattern;
+  });
+}
+
+/**
+ * Human-readable size: 512 B, 1.5 KB, 12 MB.
+ */
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+
+  const units = ['KB', 'MB', 'GB'];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+
+  const rounded = value >= 10 ? Math.round(value) : Math.round(value * 10) / 10;
+  return `${rounded} ${units[unit]}`;
+}
@@ -0,0 +1,5 @@
+// Upload exports
+export * from './types';
+export * from './registry';
+export * from './memory-adapter';
+export * from './files';
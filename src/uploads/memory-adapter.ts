@@ -0,0 +1,77 @@
+/**
+ * MEMORY UPLOAD ADAPTER
+ *
+ * Keeps "uploaded" files in memory. A stand-in for a real storage backend
+ * in tests, stories and demos: progress is simulated in a few steps and
+ * cancellation behaves like an aborted request.
+ */
+
+import type { UploadAdapter, UploadOptions, UploadedFile } from './types';
+
+export interface MemoryUploadAdapterOptions {
+  /** Simulated upload duration in ms (default 0) */
+  delayMs?: number;
+  /** Return an error message to make an upload fail */
+  fail?: (file: File) => string | null | undefined;
+}
+
+export interface MemoryUploadAdapter extends UploadAdapter {
+  /** Stored files by id */
+  files: ReadonlyMap<string, File>;
+}
+
+const PROGRESS_STEPS = 4;
+
+/**
+ * Creates an in-memory upload adapter.
+ *
+ * @example
+ * registerUploadAdapter('default', createMemoryUploadAdapter({ delayMs: 1500 }));
+ */
+export function createMemoryUploadAdapter({
+  delayMs = 0,
+  fail,
+}: MemoryUploadAdapterOptions = {}): MemoryUploadAdapter {
+  const files = new Map<string, File>();
+  let nextId = 1;
+
+  const upload = (file: File, { signal, onProgress }: UploadOptions) =>
+    new Promise<UploadedFile>((resolve, reject) => {
+      let step = 0;
+      let timer: ReturnType<typeof setTimeout> | undefined;
+
+      const abort = () => {
+        clearTimeout(timer);
+        reject(new DOMException('Upload cancelled', 'AbortError'));
+      };
+
+      const tick = () => {
+        step++;
+        onProgress(step / PROGRESS_STEPS);
+        if (step < PROGRESS_STEPS) {
+          timer = setTimeout(tick, delayMs / PROGRESS_STEPS);
+          return;
+        }
+
+        signal.removeEventListener('abort', abort);
+        const error = fail?.(file);
+        if (error) {
+          reject(new Error(error));
+          return;
+        }
+
+        const id = `memory-${nextId++}`;
+        files.set(id, file);
+        resolve({ id, name: file.name, size: file.size, type: file.type, url: `memory://${id}` });
+      };
+
+      if (signal.aborted) {
+        abort();
+        return;
+      }
+      signal.addEventListener('abort', abort, { once: true });
+      timer = setTimeout(tick, delayMs / PROGRESS_STEPS);
+    });
+
+  return { files, upload };
+}
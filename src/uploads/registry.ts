@@ -0,0 +1,42 @@
+/**
+ * UPLOAD ADAPTER REGISTRY
+ *
+ * Named upload adapters referenced from schemas:
+ * - `{ type: 'file', adapter: 'resumes' }` → adapter registered as 'resumes'
+ * - No `adapter` → the one registered as 'default'
+ *
+ * Design Decisions:
+ * 1. Module-level, like the validator registry, so schemas stay plain JSON
+ * 2. Register before loading schemas: parseFormSchema reports unknown names
+ * 3. registerUploadAdapter returns an unregister function (handy in tests)
+ */
+
+import type { UploadAdapter } from './types';
+
+export const DEFAULT_UPLOAD_ADAPTER = 'default';
+
+const adapters = new Map<string, UploadAdapter>();
+
+/**
+ * Registers a named upload adapter for file fields.
+ *
+ * @example
+ * registerUploadAdapter('default', createMemoryUploadAdapter());
+ */
+export function registerUploadAdapter(name: string, adapter: UploadAdapter): () => void {
+  if (adapters.has(name)) {
+    console.warn(`Upload adapter "${name}" is already registered and will be replaced`);
+  }
+  adapters.set(name, adapter);
+
+  return () => {
+    if (adapters.get(name) === adapter) adapters.delete(name);
+  };
+}
+
+/**
+ * Get a registered upload adapter by name.
+ */
+export function getUploadAdapter(name: string = DEFAULT_UPLOAD_ADAPTER): UploadAdapter | undefined {
+  return adapters.get(name);
+}
@@ -0,0 +1,33 @@
+/**
+ * UPLOAD TYPES
+ *
+ * Contract between file fields and the code that stores their files.
+ */
+
+import type { UploadedFile } from '@/schema/types';
+
+export type { UploadedFile };
+
+export interface UploadOptions {
+  /** Aborted when the user cancels the upload */
+  signal: AbortSignal;
+  /** Reports progress as a fraction between 0 and 1 */
+  onProgress: (fraction: number) => void;
+}
+
+/**
+ * Stores files for file fields. `upload` resolves with a reference to the
+ * stored file and rejects with an Error whose message is shown to the user.
+ * It should reject promptly once `signal` is aborted.
+ *
+ * @example
+ * const s3Adapter: UploadAdapter = {
+ *   async upload(file, { signal, onProgress }) {
+ *     const { id, url } = await putObject(file, { signal, onProgress });
+ *     return { id, name: file.name, size: file.size, type: file.type, url };
+ *   },
+ * };
+ */
+export interface UploadAdapter {
+  upload(file: File, options: UploadOptions): Promise<UploadedFile>;
+}
@@ -101,6 +101,29 @@ export function trapFocus(container: HTMLElement): () => void {
   };
 }
 
+/**
+ * Arrow-key navigation between the enabled inputs of a group (radio
+ * buttons, checkbox groups). Wraps around; Home/End jump to the ends.
+ * Returns the newly focused input, or null if `key` doesn't navigate.
+ */
+export function focusAdjacentInput(container: HTMLElement, key: string): HTMLInputElement | null {
+  const inputs = Array.from(container.querySelectorAll<HTMLInputElement>('input:not(:disabled)'));
+  const current = inputs.indexOf(document.activeElement as HTMLInputElement);
+  if (current === -1) return null;
+
+  const next =
+    key === 'ArrowDown' || key === 'ArrowRight' ? (current + 1) % inputs.length :
+    key === 'ArrowUp' || key === 'ArrowLeft' ? (current - 1 + inputs.length) % inputs.length :
+    key === 'Home' ? 0 :
+    key === 'End' ? inputs.length - 1 :
+    null;
+  if (next === null) return null;
+
+  const input = inputs[next];
+  input?.focus();
+  return input ?? null;
+}
+
 /**
  * Generate unique ID for accessibility associations.
  */
@@ -0,0 +1,123 @@
+/**
+ * DATE UTILITIES
+ *
+ * ISO string helpers for date, time and datetime fields.
+ *
+ * Design Decisions:
+ * 1. Values stay in the ISO formats native inputs produce (`2024-03-01`,
+ *    `14:30`, `2024-03-01T14:30`), so they serialize as-is and values of
+ *    the same kind order correctly as plain strings
+ * 2. Dates are read and written in local time like the native pickers;
+ *    `Date.parse('2024-03-01')` would read UTC midnight instead
+ * 3. Bounds may be relative ('today', 'today+30d', 'now-2h') so a schema
+ *    stays correct without being regenerated every day
+ */
+
+export type DateKind = 'date' | 'time' | 'datetime';
+
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+const TIME_PATTERN = /^(\d{2}):(\d{2})(?::(\d{2}))?$/;
+const DATETIME_PATTERN = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::(\d{2}))?$/;
+
+/** `today` or `now`, optionally offset in hours, days, weeks, months or years */
+const RELATIVE_PATTERN = /^(today|now)(?:\s*([+-])\s*(\d+)\s*([hdwmy]))?$/;
+
+// ============================================================================
+// PARSING & FORMATTING
+// ============================================================================
+
+/**
+ * Which ISO format a value is in, or null if it isn't an ISO string.
+ */
+export function getDateKind(value: unknown): DateKind | null {
+  if (typeof value !== 'string') return null;
+  if (DATE_PATTERN.test(value)) return 'date';
+  if (TIME_PATTERN.test(value)) return 'time';
+  if (DATETIME_PATTERN.test(value)) return 'datetime';
+  return null;
+}
+
+/**
+ * Reads an ISO date or datetime string as local time.
+ * Null for other values and impossible dates (2024-02-30).
+ */
+export function parseISODate(value: unknown): Date | null {
+  if (typeof value !== 'string') return null;
+
+  const match = DATE_PATTERN.exec(value) ?? DATETIME_PATTERN.exec(value);
+  if (!match) return null;
+
+  const part = (group: number) => Number(match[group] ?? 0);
+  const date = new Date(part(1), part(2) - 1, part(3), part(4), part(5), part(6));
+
+  return date.getFullYear() === part(1) && date.getMonth() === part(2) - 1 && date.getDate() === part(3)
+    ? date
+    : null;
+}
+
+/**
+ * Formats a Date (local time) as the ISO string a field of `kind` stores.
+ */
+export function formatISODate(date: Date, kind: DateKind = 'date'): string {
+  const pad = (part: number) => String(part).padStart(2, '0');
+  const day = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  const time = `${pad(date.getHours())}:${pad(date.getMinutes())}`;
+
+  return kind === 'date' ? day : kind === 'time' ? time : `${day}T${time}`;
+}
+
+// ============================================================================
+// BOUNDS
+// ============================================================================
+
+/**
+ * Whether a value can be used as a min/max bound: an ISO string or a
+ * relative expression such as 'today+30d'.
+ */
+export function isDateBound(value: unknown): value is string {
+  return typeof value === 'string' && (RELATIVE_PATTERN.test(value) || getDateKind(value) !== null);
+}
+
+/**
+ * Resolves a bound to an ISO string of `kind`, comparable with the
+ * field's values. 'today' is midnight; 'now' the current time. Months
+ * are `m` (use `h` for hours). Null if the bound can't apply to `kind`,
+ * e.g. a plain time for a date field.
+ *
+ * @example
+ * resolveDateBound('today+30d', 'date') // '2024-03-31' on 2024-03-01
+ * resolveDateBound('2024-03-01', 'datetime') // '2024-03-01T00:00'
+ */
+export function resolveDateBound(bound: string, kind: DateKind, now: Date = new Date()): string | null {
+  const relative = RELATIVE_PATTERN.exec(bound);
+
+  if (relative) {
+    const [, base, sign, amount, unit] = relative;
+    const date = new Date(now);
+    if (base === 'today') date.setHours(0, 0, 0, 0);
+
+    const offset = sign === '-' ? -Number(amount) : Number(amount ?? 0);
+    if (unit === 'h') date.setHours(date.getHours() + offset);
+    if (unit === 'd') date.setDate(date.getDate() + offset);
+    if (unit === 'w') date.setDate(date.getDate() + offset * 7);
+    if (unit === 'm') date.setMonth(date.getMonth() + offset);
+    if (unit === 'y') date.setFullYear(date.getFullYear() + offset);
+
+    return formatISODate(date, kind);
+  }
+
+  const boundKind = getDateKind(bound);
+  if (boundKind === kind) return bound;
+  if (boundKind === null || boundKind === 'time') return null;
+
+  const date = parseISODate(bound);
+  return date ? formatISODate(date, kind) : null;
+}
+
+/**
+ * Whether an ISO date or datetime falls on a Saturday or Sunday.
+ */
+export function isWeekend(value: unknown): boolean {
+  const day = parseISODate(value)?.getDay();
+  return day === 0 || day === 6;
+}
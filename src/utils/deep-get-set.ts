@@ -2,21 +2,38 @@
  * DEEP GET/SET UTILITIES
  * 
  * Utilities for working with nested object paths.
- * Used for repeatable sections with dot notation paths.
+ * Used for repeatable sections: paths accept dot and bracket notation,
+ * so `items.0.name` and `items[0].name` are the same path.
+ * `deepGetAll` also accepts `*` wildcards (`items[*].name`).
  */
 
+/**
+ * Splits a path into keys: `items[0].name` => ['items', '0', 'name'].
+ */
+export function toPathKeys(path: string): string[] {
+  return path.replace(/\[(\d+|\*)\]/g, '.$1').split('.').filter(key => key !== '');
+}
+
+/**
+ * Whether a path contains a `*` wildcard segment.
+ */
+export function isWildcardPath(path: string): boolean {
+  return toPathKeys(path).includes('*');
+}
+
 /**
  * Get a nested value from an object using dot notation.
  * 
  * @example
  * deepGet({ a: { b: 1 } }, 'a.b') // => 1
  * deepGet({ items: [{ name: 'foo' }] }, 'items.0.name') // => 'foo'
+ * deepGet({ items: [{ name: 'foo' }] }, 'items[0].name') // => 'foo'
  */
 export function deepGet<T = unknown>(
   obj: Record<string, unknown>,
   path: string
 ): T | undefined {
-  const keys = path.split('.');
+  const keys = toPathKeys(path);
   let current: unknown = obj;
   
   for (const key of keys) {
@@ -29,19 +46,45 @@ export function deepGet<T = unknown>(
   return current as T;
 }
 
+/**
+ * Get every value matching a path, where `*` matches each array element
+ * (or object property). Missing values are skipped.
+ * 
+ * @example
+ * deepGetAll({ items: [{ qty: 1 }, { qty: 5 }] }, 'items[*].qty') // => [1, 5]
+ * deepGetAll({ items: [{ qty: 1 }] }, 'items[0].qty') // => [1]
+ */
+export function deepGetAll(
+  obj: Record<string, unknown>,
+  path: string
+): unknown[] {
+  let current: unknown[] = [obj];
+
+  for (const key of toPathKeys(path)) {
+    current = current.flatMap(value => {
+      if (value === null || typeof value !== 'object') return [];
+      const container = value as Record<string, unknown>;
+      return key === '*' ? Object.values(container) : [container[key]];
+    });
+  }
+
+  return current.filter(value => value !== undefined);
+}
+
 /**
  * Set a nested value in an object using dot notation.
  * Returns a new object (immutable).
  * 
  * @example
  * deepSet({ a: { b: 1 } }, 'a.b', 2) // => { a: { b: 2 } }
+ * deepSet({}, 'items[0].name', 'foo') // => { items: [{ name: 'foo' }] }
  */
 export function deepSet<T extends Record<string, unknown>>(
   obj: T,
   path: string,
   value: unknown
 ): T {
-  const keys = path.split('.');
+  const keys = toPathKeys(path);
   const result = { ...obj } as Record<string, unknown>;
   let current = result;
   
@@ -79,7 +122,7 @@ export function deepDelete<T extends Record<string, unknown>>(
   obj: T,
   path: string
 ): T {
-  const keys = path.split('.');
+  const keys = toPathKeys(path);
   if (keys.length === 0) return obj;
   
   if (keys.length === 1) {
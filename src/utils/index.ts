@@ -2,3 +2,4 @@
 export * from './deep-get-set';
 export * from './a11y';
 export * from './storage';
+export * from './date';
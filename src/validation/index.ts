@@ -2,3 +2,4 @@
 export * from './types';
 export * from './sync-validators';
 export * from './pipeline';
+export * from './registry';
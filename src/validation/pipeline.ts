@@ -5,55 +5,118 @@
  * 1. Runs sync validators immediately
  * 2. Queues and debounces async validators
  * 3. Aggregates results for form-level validation
+ * 4. Tracks cross-field dependencies so dependents re-validate
+ * 5. Applies each async rule's error policy (fail open, fail closed, retry)
+ * 6. Validates repeatable sections as a whole (item counts, uniqueness, aggregates)
  */
 
 import type { 
   FieldSchema, 
+  SectionSchema,
+  SectionValidationRule,
   ValidationRule, 
+  AsyncRule,
+  AsyncErrorPolicy,
+  ValidationTrigger,
+  ValidationMode,
   FieldValue, 
   FormValues 
 } from '../schema/types';
 import type { 
   FieldValidationResult, 
   FormValidationResult,
+  ValidationFailure,
 } from './types';
-import { getSyncValidator } from './sync-validators';
+import { getSyncValidator, compareValues, compareMessages } from './sync-validators';
+import { getCustomValidator, getCustomAsyncValidator } from './registry';
+import { evaluateCondition, getRuleDependencies, getScopedValues, isRuleActive } from '../schema/resolver';
+import { deepGet } from '../utils/deep-get-set';
+import { evaluateExpression } from '../schema/expressions';
+import { collectSections, getInstanceFieldPath, getScopeFromPath, getSectionInstances } from '../schema/traverse';
+
+const triggerOrder: Record<ValidationTrigger, number> = {
+  change: 0,
+  blur: 1,
+  submit: 2,
+};
+
+/**
+ * Trigger a rule declares, or its default:
+ * sync rules validate on change, async rules on blur.
+ */
+export function getRuleTrigger(rule: ValidationRule): ValidationTrigger {
+  return rule.trigger ?? (rule.type === 'async' ? 'blur' : 'change');
+}
+
+/**
+ * Whether a rule should run for the given interaction.
+ * Later triggers include earlier ones: blur also runs change rules,
+ * submit runs everything.
+ */
+export function shouldRunRule(rule: ValidationRule, trigger: ValidationTrigger): boolean {
+  return triggerOrder[getRuleTrigger(rule)] <= triggerOrder[trigger];
+}
+
+/**
+ * Values a field's rules are evaluated against. Inside a repeatable
+ * instance (`items[0].confirm`) sibling fields are readable by their plain
+ * ID, and `scope` resolves `../field` and `$instance.field` references.
+ */
+export function getRuleContext(
+  fieldId: string,
+  formValues: FormValues
+): { scope: string | undefined; values: FormValues } {
+  const scope = getScopeFromPath(fieldId);
+  return { scope, values: scope ? getScopedValues(formValues, scope) : formValues };
+}
 
 /**
  * Validates a single field against its validation rules.
  * Only runs sync validation - async is handled separately.
+ * Defaults to the submit context, which runs every sync rule,
+ * and to fail-fast ('firstError') mode. `fieldLabels` let messages name
+ * other fields by label (e.g. compareField); IDs are used otherwise.
  */
 export function validateFieldSync(
   fieldId: string,
   value: FieldValue,
   rules: ValidationRule[],
-  formValues: FormValues
+  formValues: FormValues,
+  trigger: ValidationTrigger = 'submit',
+  mode: ValidationMode = 'firstError',
+  fieldLabels?: Record<string, string>
 ): FieldValidationResult {
-  const errors: string[] = [];
-  let failedRule: ValidationRule | undefined;
+  const failures: ValidationFailure[] = [];
+  const checkedRules: ValidationRule[] = [];
+  const { scope, values } = getRuleContext(fieldId, formValues);
   
   for (const rule of rules) {
     // Skip async rules in sync validation
     if (rule.type === 'async') continue;
     
-    // Skip rules with blur/submit trigger during change
-    // (This would be controlled by trigger context in full implementation)
+    // Skip rules whose `when` gate is false
+    if (!isRuleActive(rule, values, scope)) continue;
+    
+    // Skip rules that don't run for this interaction (e.g. blur rules while typing)
+    if (!shouldRunRule(rule, trigger)) continue;
     
-    const error = validateRule(value, rule, formValues);
+    const error = validateRule(value, rule, values, scope, fieldLabels);
+    checkedRules.push(rule);
     
     if (error) {
-      errors.push(rule.message || error);
-      failedRule = rule;
-      // Stop at first error (fail-fast)
-      break;
+      failures.push({ message: rule.message || error, rule });
+      // Stop at first error unless every failure was requested
+      if (mode === 'firstError') break;
     }
   }
   
   return {
     fieldId,
-    isValid: errors.length === 0,
-    errors,
-    failedRule,
+    isValid: failures.length === 0,
+    errors: failures.map(failure => failure.message),
+    failures,
+    failedRule: failures[0]?.rule,
+    checkedRules,
   };
 }
 
@@ -63,25 +126,30 @@ export function validateFieldSync(
 function validateRule(
   value: FieldValue,
   rule: ValidationRule,
-  formValues: FormValues
+  formValues: FormValues,
+  scope: string | undefined,
+  fieldLabels: Record<string, string> | undefined
 ): string | null {
+  // Custom validator - lookup in registry, called with the rule's own params
+  if (rule.type === 'custom') {
+    const custom = getCustomValidator(rule.validator);
+    if (!custom) {
+      console.warn(`Custom validator "${rule.validator}" not found`);
+      return null;
+    }
+    return custom(value, rule.params ?? {}, formValues);
+  }
+  
   const validator = getSyncValidator(rule.type);
   
   if (!validator) {
-    // Custom validator - would lookup in registry
-    if (rule.type === 'custom') {
-      console.warn(`Custom validator "${(rule as { validator?: string }).validator}" not found`);
-      return null;
-    }
     console.warn(`Unknown validator type: ${rule.type}`);
     return null;
   }
   
-  // Build params object from rule
-  const params: Record<string, unknown> = {
-    value: (rule as { value?: unknown }).value,
-    message: rule.message,
-  };
+  // Rule properties double as validator params (value, field, operator, ...);
+  // the scope lets cross-field validators resolve instance-relative paths
+  const params: Record<string, unknown> = { ...rule, scope, fieldLabels };
   
   return validator(value, params, formValues);
 }
@@ -100,11 +168,26 @@ export function validateFormSync(
     touchedFields?: Set<string>;
     /** Set of hidden field IDs (skip validation) */
     hiddenFields?: Set<string>;
+    /** Interaction being validated for (default: submit) */
+    trigger?: ValidationTrigger;
+    /** Form-level default; a field's own validationMode wins */
+    mode?: ValidationMode;
+    /** Labels of all form fields, for messages naming other fields */
+    fieldLabels?: Record<string, string>;
   } = {}
 ): FormValidationResult {
-  const { touchedOnly = false, touchedFields = new Set(), hiddenFields = new Set() } = options;
+  const {
+    touchedOnly = false,
+    touchedFields = new Set(),
+    hiddenFields = new Set(),
+    trigger = 'submit',
+    mode = 'firstError',
+    fieldLabels,
+  } = options;
   
   const fieldErrors: Record<string, string[]> = {};
+  const fieldFailures: Record<string, ValidationFailure[]> = {};
+  const fieldCheckedRules: Record<string, ValidationRule[]> = {};
   let errorCount = 0;
   
   for (const field of fields) {
@@ -115,13 +198,25 @@ export function validateFormSync(
     if (touchedOnly && !touchedFields.has(field.id)) continue;
     
     // Skip fields without validation rules
-    if (!field.validation || field.validation.length === 0) continue;
+    const rules = getFieldRules(field);
+    if (rules.length === 0) continue;
     
-    const value = values[field.id] as FieldValue;
-    const result = validateFieldSync(field.id, value, field.validation, values);
+    // Field IDs may be instance paths (items[0].quantity)
+    const value = deepGet<FieldValue>(values, field.id);
+    const result = validateFieldSync(
+      field.id,
+      value,
+      rules,
+      values,
+      trigger,
+      field.validationMode ?? mode,
+      fieldLabels
+    );
+    fieldCheckedRules[field.id] = result.checkedRules;
     
     if (!result.isValid) {
       fieldErrors[field.id] = result.errors;
+      fieldFailures[field.id] = result.failures;
       errorCount += result.errors.length;
     }
   }
@@ -129,10 +224,316 @@ export function validateFormSync(
   return {
     isValid: errorCount === 0,
     fieldErrors,
+    fieldFailures,
+    fieldCheckedRules,
     errorCount,
   };
 }
 
+// ============================================================================
+// SECTION RULES
+// ============================================================================
+
+const aggregateLabels: Record<string, string> = {
+  sum: 'Total',
+  avg: 'Average',
+  min: 'Lowest value',
+  max: 'Highest value',
+  count: 'Number of items',
+};
+
+/**
+ * Section rules including those implied by minInstances/maxInstances
+ * (explicit minItems/maxItems rules take precedence).
+ */
+function getSectionRules(section: SectionSchema): SectionValidationRule[] {
+  const rules = section.validation ?? [];
+  const implied: SectionValidationRule[] = [];
+
+  if (section.minInstances !== undefined && !rules.some(rule => rule.type === 'minItems')) {
+    implied.push({ type: 'minItems', value: section.minInstances });
+  }
+  if (section.maxInstances !== undefined && !rules.some(rule => rule.type === 'maxItems')) {
+    implied.push({ type: 'maxItems', value: section.maxInstances });
+  }
+
+  return [...implied, ...rules];
+}
+
+/**
+ * Validates the instance list of a repeatable section. Failures are keyed
+ * by the section ID, except uniqueBy failures, which are reported on each
+ * duplicate instance's field (e.g. `items[2].productId`).
+ *
+ * @example
+ * validateSectionRules(itemsSection, { items: [{ sku: 'a' }, { sku: 'a' }] });
+ * // { 'items[1].sku': [{ message: 'Must be unique' }] }
+ */
+export function validateSectionRules(
+  section: SectionSchema,
+  values: FormValues
+): Record<string, ValidationFailure[]> {
+  const instances = getSectionInstances(values, section.id);
+  const failures: Record<string, ValidationFailure[]> = {};
+
+  const fail = (key: string, message: string) => {
+    (failures[key] ??= []).push({ message });
+  };
+
+  for (const rule of getSectionRules(section)) {
+    switch (rule.type) {
+      case 'minItems':
+        if (instances.length < rule.value) {
+          fail(section.id, rule.message ?? `Add at least ${rule.value} ${rule.value === 1 ? 'item' : 'items'}`);
+        }
+        break;
+
+      case 'maxItems':
+        if (instances.length > rule.value) {
+          fail(section.id, rule.message ?? `Add no more than ${rule.value} ${rule.value === 1 ? 'item' : 'items'}`);
+        }
+        break;
+
+      case 'uniqueBy': {
+        const seen = new Set<string>();
+        instances.forEach((instance, index) => {
+          const value = instance[rule.field];
+          if (value === null || value === undefined || value === '') return;
+
+          const key = JSON.stringify(value);
+          if (seen.has(key)) {
+            fail(getInstanceFieldPath(section.id, index, rule.field), rule.message ?? 'Must be unique');
+          }
+          seen.add(key);
+        });
+        break;
+      }
+
+      case 'aggregate': {
+        const result = evaluateExpression(
+          { aggregate: rule.aggregate, section: section.id, expression: rule.expression },
+          { values, instances: { [section.id]: instances } }
+        );
+        if (result === null || result === undefined) break;
+
+        if (!compareValues(result, rule.value, rule.operator)) {
+          const label = aggregateLabels[rule.aggregate] ?? rule.aggregate;
+          const comparison = (compareMessages[rule.operator] ?? '').replace(/^Must/, 'must');
+          fail(section.id, rule.message ?? `${label} ${comparison} ${rule.value}`);
+        }
+        break;
+      }
+    }
+  }
+
+  return failures;
+}
+
+/**
+ * Validates every visible repeatable section in the schema.
+ * Sections hidden by their own or an enclosing section's showWhen are skipped.
+ */
+export function validateSections(
+  sections: SectionSchema[],
+  values: FormValues
+): Record<string, ValidationFailure[]> {
+  const failures: Record<string, ValidationFailure[]> = {};
+
+  for (const { section, ancestors } of collectSections(sections)) {
+    if (!section.repeatable) continue;
+
+    const hidden = [...ancestors, section].some(
+      ({ showWhen }) => showWhen !== undefined && !evaluateCondition(showWhen, values)
+    );
+    if (hidden) continue;
+
+    Object.assign(failures, validateSectionRules(section, values));
+  }
+
+  return failures;
+}
+
+/**
+ * Finds fields whose validation depends on `fieldId`, i.e. the fields
+ * that must be re-validated when `fieldId` changes.
+ *
+ * @example
+ * getDependentFields(allFields, 'password'); // [confirmPassword schema]
+ */
+export function getDependentFields(fields: FieldSchema[], fieldId: string): FieldSchema[] {
+  return fields.filter(field =>
+    field.id !== fieldId &&
+    getFieldRules(field).some(rule => getRuleDependencies(rule).includes(fieldId))
+  );
+}
+
+/**
+ * A field's validation rules, plus a `required` rule gated by its
+ * requireWhen effect.
+ */
+export function getFieldRules(field: FieldSchema): ValidationRule[] {
+  const rules = field.validation ?? [];
+  const requireWhen = field.effects?.requireWhen;
+
+  return requireWhen ? [{ type: 'required', when: requireWhen }, ...rules] : rules;
+}
+
+/**
+ * Runs a single async rule: a registered validator when `validator` is set,
+ * otherwise a POST to `url`. Network and HTTP failures are thrown to the caller.
+ */
+export async function runAsyncRule(
+  rule: AsyncRule,
+  value: FieldValue,
+  formValues: FormValues,
+  signal?: AbortSignal
+): Promise<string | null> {
+  if (rule.validator) {
+    const validator = getCustomAsyncValidator(rule.validator);
+    if (!validator) {
+      console.warn(`Async validator "${rule.validator}" not found`);
+      return null;
+    }
+    const error = await validator(value, rule.params ?? {}, formValues, signal);
+    return error ? rule.message || error : null;
+  }
+
+  if (!rule.url) return null;
+
+  const response = await fetch(rule.url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ value }),
+    signal,
+  });
+
+  if (!response.ok) {
+    throw new Error('Validation request failed');
+  }
+
+  // Like named validators, the rule's own message wins over the server's
+  const result = await response.json();
+  return result.valid ? null : rule.message || result.message;
+}
+
+/** Shown when a fail-closed async rule couldn't reach its validator */
+export const ASYNC_UNAVAILABLE_MESSAGE = 'Could not be verified right now. Please try again.';
+
+/**
+ * Runs an async rule and applies its `onError` policy:
+ * - failOpen (default): errors count as valid
+ * - failClosed: errors count as a failure
+ * - retry: retries `retries` times (default 2), then fails closed; waits
+ *   `retryDelayMs` (default 500) before the first retry, doubling each time
+ *
+ * Aborts are rethrown so callers can drop superseded results.
+ */
+export async function validateAsyncRule(
+  rule: AsyncRule,
+  value: FieldValue,
+  formValues: FormValues,
+  signal?: AbortSignal
+): Promise<string | null> {
+  const policy: AsyncErrorPolicy = rule.onError ?? 'failOpen';
+  const attempts = policy === 'retry' ? 1 + (rule.retries ?? 2) : 1;
+  const retryDelayMs = rule.retryDelayMs ?? 500;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await runAsyncRule(rule, value, formValues, signal);
+    } catch (error) {
+      if ((error as Error).name === 'AbortError') throw error;
+      if (attempt < attempts) {
+        await waitForRetry(retryDelayMs * 2 ** (attempt - 1), signal);
+        continue;
+      }
+
+      console.error('Async validation error:', error);
+      return policy === 'failOpen' ? null : ASYNC_UNAVAILABLE_MESSAGE;
+    }
+  }
+}
+
+/**
+ * Resolves after `ms`, or rejects with an AbortError once `signal` aborts.
+ */
+function waitForRetry(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const abort = () => {
+      clearTimeout(timeout);
+      reject(new DOMException('Validation aborted', 'AbortError'));
+    };
+    const timeout = setTimeout(() => {
+      signal?.removeEventListener('abort', abort);
+      resolve();
+    }, ms);
+
+    if (signal?.aborted) abort();
+    else signal?.addEventListener('abort', abort, { once: true });
+  });
+}
+
+/**
+ * Runs the async rules of every visible field, e.g. on submit when the
+ * user may never have blurred a field. Fields in `skipFields` (typically
+ * those already failing sync validation) are not checked.
+ * `onFieldValidating` reports progress per field.
+ */
+export async function validateFormAsync(
+  fields: FieldSchema[],
+  values: FormValues,
+  options: {
+    hiddenFields?: Set<string>;
+    skipFields?: Set<string>;
+    /** Form-level default; a field's own validationMode wins */
+    mode?: ValidationMode;
+    onFieldValidating?: (fieldId: string, validating: boolean) => void;
+  } = {}
+): Promise<Record<string, ValidationFailure[]>> {
+  const {
+    hiddenFields = new Set(),
+    skipFields = new Set(),
+    mode = 'firstError',
+    onFieldValidating,
+  } = options;
+
+  const checks = fields
+    .filter(field => !hiddenFields.has(field.id) && !skipFields.has(field.id))
+    .map(field => {
+      const context = getRuleContext(field.id, values);
+      return {
+        field,
+        context,
+        rules: (field.validation ?? []).filter((rule): rule is AsyncRule =>
+          rule.type === 'async' && isRuleActive(rule, context.values, context.scope)
+        ),
+      };
+    })
+    .filter(check => check.rules.length > 0);
+
+  const results = await Promise.all(checks.map(async ({ field, context, rules }) => {
+    onFieldValidating?.(field.id, true);
+    const failures: ValidationFailure[] = [];
+
+    for (const rule of rules) {
+      const message = await validateAsyncRule(rule, deepGet<FieldValue>(values, field.id), context.values);
+      if (message) {
+        failures.push({ message, rule });
+        if ((field.validationMode ?? mode) === 'firstError') break;
+      }
+    }
+
+    onFieldValidating?.(field.id, false);
+    return [field.id, failures] as const;
+  }));
+
+  const fieldFailures: Record<string, ValidationFailure[]> = {};
+  for (const [fieldId, failures] of results) {
+    if (failures.length > 0) fieldFailures[fieldId] = failures;
+  }
+  return fieldFailures;
+}
+
 /**
  * Debounce utility for async validation.
  */
@@ -176,34 +577,21 @@ export function debounce<T extends (...args: any[]) => Promise<any>>(
 
 /**
  * Creates an async validation runner for a field.
+ * Network errors follow `onError` (default: fail open).
  */
 export function createAsyncValidator(
   url: string,
-  debounceMs = 300
+  debounceMs = 300,
+  onError: AsyncErrorPolicy = 'failOpen'
 ): {
   validate: (value: FieldValue) => Promise<string | null>;
   cancel: () => void;
 } {
-  const { run, cancel } = debounce(async (value: FieldValue) => {
-    try {
-      const response = await fetch(url, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ value }),
-      });
-      
-      if (!response.ok) {
-        throw new Error('Validation request failed');
-      }
-      
-      const result = await response.json();
-      return result.valid ? null : result.message;
-    } catch (error) {
-      console.error('Async validation error:', error);
-      // Don't block form submission on network errors
-      return null;
-    }
-  }, debounceMs);
+  const rule: AsyncRule = { type: 'async', url, onError };
+  const { run, cancel } = debounce(
+    (value: FieldValue) => validateAsyncRule(rule, value, {}),
+    debounceMs
+  );
   
   return {
     validate: run as (value: FieldValue) => Promise<string | null>,
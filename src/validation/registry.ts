@@ -0,0 +1,75 @@
+/**
+ * VALIDATOR REGISTRY
+ *
+ * Named validators referenced from schemas:
+ * - `{ type: 'custom', validator: 'strongPassword' }` → sync registry
+ * - `{ type: 'async', validator: 'uniqueEmail' }` → async registry
+ *
+ * Design Decisions:
+ * 1. Module-level, like the built-in `syncValidators` map, so schemas loaded
+ *    anywhere resolve the same names
+ * 2. Register before loading schemas: parseFormSchema reports unknown names
+ * 3. register* returns an unregister function (handy in tests and HMR)
+ */
+
+import type { SyncValidator, AsyncValidator, ValidatorRegistry } from './types';
+
+const registry: ValidatorRegistry = {
+  sync: new Map(),
+  async: new Map(),
+};
+
+/**
+ * Registers a named sync validator for `custom` rules.
+ * Validators receive the field value, the rule's `params` and all form values.
+ *
+ * @example
+ * registerValidator('strongPassword', (value, params) =>
+ *   typeof value === 'string' && value.length >= (params?.length as number)
+ *     ? null
+ *     : 'Password is too weak'
+ * );
+ */
+export function registerValidator(name: string, validator: SyncValidator): () => void {
+  if (registry.sync.has(name)) {
+    console.warn(`Validator "${name}" is already registered and will be replaced`);
+  }
+  registry.sync.set(name, validator);
+
+  return () => {
+    if (registry.sync.get(name) === validator) registry.sync.delete(name);
+  };
+}
+
+/**
+ * Registers a named async validator for `async` rules with a `validator` name.
+ *
+ * @example
+ * registerAsyncValidator('uniqueEmail', async (value, params, formValues, signal) =>
+ *   (await api.emailExists(value, { signal })) ? 'Email is already registered' : null
+ * );
+ */
+export function registerAsyncValidator(name: string, validator: AsyncValidator): () => void {
+  if (registry.async.has(name)) {
+    console.warn(`Async validator "${name}" is already registered and will be replaced`);
+  }
+  registry.async.set(name, validator);
+
+  return () => {
+    if (registry.async.get(name) === validator) registry.async.delete(name);
+  };
+}
+
+/**
+ * Get a registered sync validator by name.
+ */
+export function getCustomValidator(name: string): SyncValidator | undefined {
+  return registry.sync.get(name);
+}
+
+/**
+ * Get a registered async validator by name.
+ */
+export function getCustomAsyncValidator(name: string): AsyncValidator | undefined {
+  return registry.async.get(name);
+}
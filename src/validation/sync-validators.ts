@@ -6,6 +6,11 @@
  * returns error message or null.
  */
 
+import type { Condition, FieldValue, FormValues } from '../schema/types';
+import { evaluateCondition, resolveConditionPath } from '../schema/resolver';
+import { getFieldIdFromPath } from '../schema/traverse';
+import { deepGet } from '../utils/deep-get-set';
+import { getDateKind, isWeekend, resolveDateBound } from '../utils/date';
 import type { SyncValidator } from './types';
 
 /**
@@ -25,6 +30,11 @@ export const required: SyncValidator = (value) => {
     return 'This field is required';
   }
   
+  if (Array.isArray(value) && value.length === 0) {
+    // For checkbox groups with nothing checked
+    return 'This field is required';
+  }
+  
   return null;
 };
 
@@ -130,6 +140,45 @@ export const max: SyncValidator = (value, params) => {
   return null;
 };
 
+/**
+ * Minimum selection validator (for checkbox groups).
+ */
+export const minSelected: SyncValidator = (value, params) => {
+  if (!Array.isArray(value) || value.length === 0) return null;
+  
+  const min = params?.value as number;
+  if (typeof min !== 'number') return null;
+  
+  if (value.length < min) {
+    return `Select at least ${min} ${min === 1 ? 'option' : 'options'}`;
+  }
+  
+  return null;
+};
+
+/**
+ * Maximum selection validator (for checkbox groups).
+ */
+export const maxSelected: SyncValidator = (value, params) => {
+  if (!Array.isArray(value)) return null;
+  
+  const max = params?.value as number;
+  if (typeof max !== 'number') return null;
+  
+  if (value.length > max) {
+    return `Select no more than ${max} ${max === 1 ? 'option' : 'options'}`;
+  }
+  
+  return null;
+};
+
+/**
+ * Item count validators (for multi-selects). The same checks as
+ * minSelected/maxSelected, under the names section rules use.
+ */
+export const minItems: SyncValidator = minSelected;
+export const maxItems: SyncValidator = maxSelected;
+
 /**
  * URL validator.
  */
@@ -160,6 +209,163 @@ export const phone: SyncValidator = (value) => {
   return null;
 };
 
+// ============================================================================
+// DATE VALIDATORS
+// ============================================================================
+// Values are ISO strings from date, time and datetime fields. Bounds are
+// resolved in the value's own format, so they compare as strings.
+
+function resolveBound(value: FieldValue, params?: Record<string, unknown>): string | null {
+  const kind = getDateKind(value);
+  const bound = params?.value;
+  if (!kind || typeof bound !== 'string') return null;
+
+  return resolveDateBound(bound, kind);
+}
+
+/**
+ * Earliest date/time validator.
+ */
+export const minDate: SyncValidator = (value, params) => {
+  const bound = resolveBound(value, params);
+  if (bound === null) return null;
+
+  if (String(value) < bound) {
+    return `Must be ${bound} or later`;
+  }
+
+  return null;
+};
+
+/**
+ * Latest date/time validator.
+ */
+export const maxDate: SyncValidator = (value, params) => {
+  const bound = resolveBound(value, params);
+  if (bound === null) return null;
+
+  if (String(value) > bound) {
+    return `Must be ${bound} or earlier`;
+  }
+
+  return null;
+};
+
+/**
+ * Weekday validator (for dates and datetimes).
+ */
+export const notWeekend: SyncValidator = (value) => {
+  if (isWeekend(value)) {
+    return 'Please choose a weekday';
+  }
+
+  return null;
+};
+
+// ============================================================================
+// CROSS-FIELD VALIDATORS
+// ============================================================================
+// These read other fields through `formValues`. Empty values are left to
+// `required`, like the single-field validators above.
+
+/**
+ * Value of the field a cross-field rule references. Inside a repeatable
+ * instance `formValues` are scoped, so plain IDs read sibling fields;
+ * `../field` and `$instance.field` resolve against `params.scope`.
+ */
+function getReferencedValue(params: Record<string, unknown> | undefined, formValues?: FormValues): FieldValue {
+  const field = params?.field;
+  if (typeof field !== 'string') return undefined;
+
+  const path = resolveConditionPath(field, params?.scope as string | undefined);
+  return path === undefined ? undefined : deepGet<FieldValue>(formValues ?? {}, path);
+}
+
+function isBlank(value: FieldValue): boolean {
+  return value === null || value === undefined || (typeof value === 'string' && value.trim() === '');
+}
+
+/**
+ * Matches-field validator (e.g. confirm password).
+ */
+export const matchesField: SyncValidator = (value, params, formValues) => {
+  if (isBlank(value)) return null;
+
+  const otherField = params?.field as string;
+  if (typeof otherField !== 'string') return null;
+
+  if (value !== getReferencedValue(params, formValues)) {
+    return 'Fields do not match';
+  }
+
+  return null;
+};
+
+export const compareMessages: Record<string, string> = {
+  equals: 'Must be equal to',
+  notEquals: 'Must be different from',
+  greaterThan: 'Must be greater than',
+  greaterThanOrEqual: 'Must be at least',
+  lessThan: 'Must be less than',
+  lessThanOrEqual: 'Must be at most',
+};
+
+/**
+ * Whether `value <operator> other` holds. Numbers (and numeric strings)
+ * compare numerically; anything else compares as strings, which orders
+ * ISO dates correctly.
+ */
+export function compareValues(value: FieldValue, other: FieldValue, operator: string): boolean {
+  const a = Number(value);
+  const b = Number(other);
+  const numeric = typeof value !== 'boolean' && typeof other !== 'boolean'
+    && Number.isFinite(a) && Number.isFinite(b);
+  const order = numeric
+    ? Math.sign(a - b)
+    : String(value) < String(other) ? -1 : String(value) > String(other) ? 1 : 0;
+
+  return (
+    operator === 'equals' ? order === 0 :
+    operator === 'notEquals' ? order !== 0 :
+    operator === 'greaterThan' ? order > 0 :
+    operator === 'greaterThanOrEqual' ? order >= 0 :
+    operator === 'lessThan' ? order < 0 :
+    order <= 0
+  );
+}
+
+/**
+ * Compare-field validator, e.g. end date after start date. The default
+ * message names the other field by its label when `params.fieldLabels`
+ * has it, else by ID.
+ */
+export const compareField: SyncValidator = (value, params, formValues) => {
+  const otherField = params?.field as string;
+  const operator = params?.operator as string;
+  if (typeof otherField !== 'string' || !compareMessages[operator]) return null;
+
+  const other = getReferencedValue(params, formValues);
+  if (isBlank(value) || isBlank(other)) return null;
+
+  const labels = params?.fieldLabels as Record<string, string> | undefined;
+  const otherLabel = labels?.[getFieldIdFromPath(otherField)] ?? otherField;
+
+  return compareValues(value, other, operator)
+    ? null
+    : `${compareMessages[operator]} ${otherLabel}`;
+};
+
+/**
+ * Conditionally-required validator.
+ */
+export const requiredWhen: SyncValidator = (value, params, formValues) => {
+  const condition = params?.condition as Condition | undefined;
+  const scope = params?.scope as string | undefined;
+  if (!condition || !evaluateCondition(condition, formValues ?? {}, scope)) return null;
+
+  return required(value, params, formValues);
+};
+
 /**
  * Registry of built-in sync validators.
  */
@@ -173,6 +379,16 @@ export const syncValidators: Record<string, SyncValidator> = {
   max,
   url,
   phone,
+  minSelected,
+  maxSelected,
+  minItems,
+  maxItems,
+  minDate,
+  maxDate,
+  notWeekend,
+  matchesField,
+  compareField,
+  requiredWhen,
 };
 
 /**
@@ -7,15 +7,29 @@
 
 import type { ValidationRule, FieldValue, FormValues } from '../schema/types';
 
+/**
+ * A single failed rule. `rule` is absent for errors that didn't come
+ * from a schema rule (e.g. server-side errors).
+ */
+export interface ValidationFailure {
+  message: string;
+  rule?: ValidationRule;
+}
+
 /**
  * Result of validating a single field.
  */
 export interface FieldValidationResult {
   fieldId: string;
   isValid: boolean;
+  /** Failure messages, in rule order */
   errors: string[];
-  /** Which rule failed (for debugging) */
+  /** Failures tagged with the rule that produced them (same order as errors) */
+  failures: ValidationFailure[];
+  /** Which rule failed first (for debugging) */
   failedRule?: ValidationRule;
+  /** Sync rules that ran, passed or failed (others were skipped by trigger, `when` or firstError) */
+  checkedRules: ValidationRule[];
 }
 
 /**
@@ -24,6 +38,10 @@ export interface FieldValidationResult {
 export interface FormValidationResult {
   isValid: boolean;
   fieldErrors: Record<string, string[]>;
+  /** Same as fieldErrors, tagged with the failing rules */
+  fieldFailures: Record<string, ValidationFailure[]>;
+  /** Sync rules that ran, for every validated field */
+  fieldCheckedRules: Record<string, ValidationRule[]>;
   /** Count of total errors */
   errorCount: number;
 }
@@ -40,12 +58,14 @@ export type SyncValidator = (
 
 /**
  * Async validator function signature.
- * Returns error message if invalid, null if valid.
+ * Returns error message if invalid, null if valid. `signal` aborts when a
+ * newer validation or submit supersedes this one; pass it on to fetch.
  */
 export type AsyncValidator = (
   value: FieldValue,
   params?: Record<string, unknown>,
-  formValues?: FormValues
+  formValues?: FormValues,
+  signal?: AbortSignal
 ) => Promise<string | null>;
 
 /**